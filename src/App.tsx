@@ -1,6 +1,36 @@
-import { type PointerEvent as ReactPointerEvent, useCallback, useEffect, useRef, useState } from "react";
+import {
+  type CSSProperties,
+  type KeyboardEvent as ReactKeyboardEvent,
+  type ReactNode,
+  type PointerEvent as ReactPointerEvent,
+  type TouchEvent as ReactTouchEvent,
+  type RefObject,
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
+import { createPortal } from "react-dom";
 import { Toaster, toast } from "sonner";
 import { DEFAULT_APP_TITLE, loadTtyConfig, type TtyConfig } from "./config";
+import { buildDirectorySuggestions, loadSubdirectories, splitDirectoryQuery } from "./directorySuggestions";
+import { formatDuration } from "./duration";
+import { openUrlInNewTab } from "./openUrl";
+import {
+  createPane,
+  type DividerPlacement,
+  listPanes,
+  MAX_PANES_PER_TAB,
+  placePanes,
+  ratioAt,
+  type SplitDirection,
+  setSplitRatio,
+  splitPane,
+  type TerminalPane,
+  updatePane,
+} from "./paneLayout";
+import { formatSessionAge, loadSessionSummaries, type SessionSummary } from "./sessionSummary";
 import type { SoftKeyModifiers } from "./softKeyboard";
 import {
   applyShiftToPrintable,
@@ -18,10 +48,44 @@ import {
   type SoftKeyDefinition,
   type SoftModifierName,
 } from "./softKeyboard";
-import { parseSshTarget } from "./ttyProtocol";
-import { SESSION_STORAGE_KEY, useTerminal } from "./useTerminal";
-
-const SSH_TARGET_STORAGE_KEY = "mywebterm-ssh-target";
+import { downloadFile, EXPORT_FORMATS, type ExportFormat, exportFileName, wrapHtmlExport } from "./terminalExport";
+import { notificationPermission, requestNotificationPermission } from "./terminalNotify";
+import {
+  BELL_MODES,
+  type BellMode,
+  CURSOR_STYLES,
+  type CursorStyle,
+  loadDevicePreferences,
+  mergeTerminalPreferences,
+  saveDevicePreferences,
+  type TerminalPreferences,
+  THEME_NAMES,
+  type ThemeName,
+} from "./terminalPreferences";
+import {
+  clearTabWorkspace,
+  closePane,
+  closeTab,
+  createTab,
+  createTabWorkspace,
+  cyclePane,
+  cycleTab,
+  driveWatchedSessions,
+  loadTabWorkspace,
+  matchTabShortcut,
+  moveTab,
+  normalizeTabName,
+  saveTabWorkspace,
+  type TabCommand,
+  type TabWorkspace,
+  type TerminalTab,
+  tabLabel,
+  watchDrivenSessions,
+} from "./terminalTabs";
+import { type ClientRole, parseSshTarget, type SessionMonitor } from "./ttyProtocol";
+import { MOBILE_VIEWPORT_QUERY, type StoredSession, useTerminal } from "./useTerminal";
+import { abbreviateWorkingDirectory } from "./workingDirectory";
+import { flushWorkspaceSave, loadSavedWorkspace, resetSavedWorkspace, scheduleWorkspaceSave } from "./workspaceSync";
 
 function softKeyLabel(key: SoftKeyDefinition, shiftActive: boolean): string {
   if (key.kind === "printable") {
@@ -75,6 +139,10 @@ const DESKTOP_WIDTH_BREAKPOINT = 1024;
 const OVERLAY_DRAG_ACTIVATION_PX = 6;
 const DEFAULT_MIN_COLUMNS = 80;
 const MIN_COLUMNS_OPTIONS = [100, 120, 140] as const;
+const SILENCE_SECONDS_OPTIONS = [10, 30, 60, 300] as const;
+const THEME_LABELS: Record<ThemeName, string> = { dark: "Dark", light: "Light", "solarized-dark": "Solarized Dark" };
+const CURSOR_STYLE_LABELS: Record<CursorStyle, string> = { block: "Block", underline: "Underline", bar: "Bar" };
+const BELL_MODE_LABELS: Record<BellMode, string> = { notify: "Notify", flash: "Flash", off: "Off" };
 
 const SECONDARY_ROW2_ARROW_LABELS = new Set([",", "▲", "Ins"]);
 const SECONDARY_ROW3_ARROW_LABELS = new Set(["◀", "▼", "▶"]);
@@ -610,8 +678,70 @@ function formatShellCommand(args: string[]): string {
   return args.map((a) => (/[^a-zA-Z0-9_\-./=:@]/.test(a) ? `'${a.replace(/'/g, "'\\''")}'` : a)).join(" ");
 }
 
-export function App() {
-  const [config, setConfig] = useState<TtyConfig | null>(null);
+function describeSession(summary: Pick<SessionSummary, "command" | "sshTarget">): string {
+  return summary.sshTarget !== null ? `ssh ${summary.sshTarget}` : formatShellCommand(summary.command);
+}
+
+// "Off", "Activity", "Silence 30s", "Activity, Silence 30s"
+function describeMonitor(monitor: SessionMonitor): string {
+  const parts: string[] = [];
+  if (monitor.activity) parts.push("Activity");
+  if (monitor.silenceSeconds !== null) parts.push(`Silence ${formatDuration(monitor.silenceSeconds * 1000)}`);
+  return parts.length > 0 ? parts.join(", ") : "Off";
+}
+
+// Where the focused pane of a tab renders its top bar, its floating controls
+// (over the whole terminal area) and its bottom panels and dialogs.
+interface PaneSlots {
+  header: HTMLElement;
+  stage: HTMLDivElement;
+  overlays: HTMLElement;
+  footer: HTMLElement;
+}
+
+interface TerminalPaneViewProps {
+  pane: TerminalPane;
+  // Its tab is on show and this is the tab's focused pane: it has the
+  // keyboard and the toolbar
+  focused: boolean;
+  slots: PaneSlots | null;
+  // Position in the tab's terminal area
+  layoutStyle: CSSProperties;
+  paneCount: number;
+  config: TtyConfig | null;
+  // The server's --preferences, and this device's overrides of them
+  serverPreferences: TerminalPreferences;
+  devicePreferences: TerminalPreferences;
+  onServerPreferencesChange: (preferences: TerminalPreferences) => void;
+  setDevicePreference: <K extends keyof TerminalPreferences>(key: K, value: TerminalPreferences[K]) => void;
+  onPaneChange: (paneId: string, change: Partial<TerminalPane>) => void;
+  onTitleChange: (paneId: string, title: string | null) => void;
+  onFocus: (paneId: string) => void;
+  onNewTab: () => void;
+  onResetLayout: () => void;
+  onSplit: (direction: SplitDirection) => void;
+  onClose: (paneId: string) => void;
+}
+
+function TerminalPaneView({
+  pane,
+  focused,
+  slots,
+  layoutStyle,
+  paneCount,
+  config,
+  serverPreferences,
+  devicePreferences,
+  onServerPreferencesChange,
+  setDevicePreference,
+  onPaneChange,
+  onTitleChange,
+  onFocus,
+  onNewTab,
+  onResetLayout,
+  onSplit,
+  onClose,
+}: TerminalPaneViewProps) {
   const [remoteTitle, setRemoteTitle] = useState<string | null>(null);
   const [copyModePickerOpen, setCopyModePickerOpen] = useState(false);
   const [selectableText, setSelectableText] = useState<string | null>(null);
@@ -628,23 +758,34 @@ export function App() {
     ...DEFAULT_SOFT_KEY_MODIFIERS,
   }));
   const [overflowMenuOpen, setOverflowMenuOpen] = useState(false);
-  const [fontSize, setFontSize] = useState<number | undefined>(undefined);
+  const [notificationPermissionState, setNotificationPermissionState] = useState(notificationPermission);
   const [fontSizeMenuOpen, setFontSizeMenuOpen] = useState(false);
-  const [minColumns, setMinColumns] = useState<number | undefined>(undefined);
   const [minColumnsMenuOpen, setMinColumnsMenuOpen] = useState(false);
+  const [appearanceMenuOpen, setAppearanceMenuOpen] = useState(false);
+  const [monitorMenuOpen, setMonitorMenuOpen] = useState(false);
+  // Synchronize input: the other running sessions, and which are ticked
+  const [broadcastCandidates, setBroadcastCandidates] = useState<SessionSummary[] | null>(null);
+  const [broadcastSelection, setBroadcastSelection] = useState<string[]>([]);
   const [infoDialogOpen, setInfoDialogOpen] = useState(false);
   const [endSessionConfirmOpen, setEndSessionConfirmOpen] = useState(false);
   const [arrowOverlayEnabled, setArrowOverlayEnabled] = useState(true);
   const [awaitingStart, setAwaitingStart] = useState(true);
-  // Survives reloads (per tab) so a resume that falls back to a fresh
-  // handshake restarts ssh instead of silently opening a local shell.
-  const [sshTarget, setSshTarget] = useState<string | undefined>(
-    () => sessionStorage.getItem(SSH_TARGET_STORAGE_KEY) ?? undefined,
-  );
+  // How the pane's session was started, kept with the pane (see TerminalPane)
+  const { sshTarget, profile, startDirectory } = pane;
+  // The start screen's directory field
+  const [startDirectoryInput, setStartDirectoryInput] = useState("");
+  const [directoryListing, setDirectoryListing] = useState<{ parent: string; names: string[] } | null>(null);
   const [sshInput, setSshInput] = useState("");
   const [startStep, setStartStep] = useState<"choice" | "ssh">("choice");
-  const effectiveMinColumns = minColumns ?? DEFAULT_MIN_COLUMNS;
-  const hasStoredSession = sessionStorage.getItem(SESSION_STORAGE_KEY) !== null;
+  // Live sessions offered on the start screen; null until the first fetch.
+  const [runningSessions, setRunningSessions] = useState<SessionSummary[] | null>(null);
+  const preferences = useMemo(
+    () => mergeTerminalPreferences(serverPreferences, devicePreferences),
+    [serverPreferences, devicePreferences],
+  );
+  const fontSize = preferences.fontSize;
+  const effectiveMinColumns = preferences.minColumns ?? DEFAULT_MIN_COLUMNS;
+  const hasStoredSession = pane.session !== null;
   const focusOnMountRef = useCallback((el: HTMLElement | null) => {
     if (el) el.focus();
   }, []);
@@ -735,6 +876,19 @@ export function App() {
     action();
   }, []);
 
+  const enableNotifications = useCallback(() => {
+    void requestNotificationPermission().then((permission) => {
+      setNotificationPermissionState(permission);
+      if (permission === "denied") {
+        toast.error("Notifications are blocked; allow them in the browser's site settings.", {
+          id: "notifications",
+        });
+      } else if (permission === "granted") {
+        toast.success("Notifications enabled for when this tab is in the background.", { id: "notifications" });
+      }
+    });
+  }, []);
+
   const openFontSizeMenu = useCallback(() => {
     setMinColumnsMenuOpen(false);
     setFontSizeMenuOpen(true);
@@ -753,32 +907,21 @@ export function App() {
     setMinColumnsMenuOpen(false);
   }, []);
 
-  useEffect(() => {
-    let cancelled = false;
-    loadTtyConfig()
-      .then((cfg) => {
-        if (!cancelled) {
-          setConfig(cfg);
-        }
-      })
-      .catch((error: unknown) => {
-        if (!cancelled) {
-          console.error("Failed to load configuration:", error);
-          toast.error("Failed to load configuration.");
-        }
-      });
-    return () => {
-      cancelled = true;
-    };
-  }, []);
-
   const handleTitleChange = useCallback((title: string) => {
-    if (title.trim().length === 0) {
-      return;
-    }
-    setRemoteTitle(title);
+    setRemoteTitle(title.trim().length > 0 ? title : null);
   }, []);
 
+  // The tab strip and the page title show it
+  useEffect(() => {
+    onTitleChange(pane.id, remoteTitle);
+  }, [onTitleChange, pane.id, remoteTitle]);
+
+  const updatePane = useCallback(
+    (change: Partial<TerminalPane>) => onPaneChange(pane.id, change),
+    [onPaneChange, pane.id],
+  );
+  const focusThisPane = useCallback(() => onFocus(pane.id), [onFocus, pane.id]);
+
   const handleClipboardFallback = useCallback(
     (text: string) => {
       void encryptClipboardText(text)
@@ -810,22 +953,57 @@ export function App() {
     return () => clearTimeout(timer);
   }, [pendingClipboardPayload, clipboardSeq]);
 
+  const [findOpen, setFindOpen] = useState(false);
+  const [findTerm, setFindTerm] = useState("");
+  const [findCaseSensitive, setFindCaseSensitive] = useState(false);
+  const [findRegex, setFindRegex] = useState(false);
+  const findInputRef = useRef<HTMLInputElement>(null);
+
+  // Also the Ctrl+Shift+F handler: pressed again, it re-selects the term.
+  const openFindBar = useCallback(() => {
+    setFindOpen(true);
+    requestAnimationFrame(() => findInputRef.current?.select());
+  }, []);
+
   // After a deliberate session end: back to the start screen with a clean slate.
   const returnToStartScreen = useCallback(() => {
-    sessionStorage.removeItem(SSH_TARGET_STORAGE_KEY);
-    setSshTarget(undefined);
+    updatePane({ sshTarget: undefined, profile: undefined, startDirectory: undefined });
+    setStartDirectoryInput("");
     setSshInput("");
     setStartStep("choice");
     setRemoteTitle(null);
     setAwaitingStart(true);
-  }, []);
+  }, [updatePane]);
+
+  const handleStoredSessionChange = useCallback(
+    (session: StoredSession | null) => updatePane({ session }),
+    [updatePane],
+  );
 
   const {
     containerRef,
     connectionStatus,
     sysKeyActive,
+    takenOver,
+    role,
+    archivedSession,
     endSession,
     reconnect,
+    attachToSession,
+    takeControl,
+    pinned,
+    setPinned,
+    recording,
+    setRecording,
+    monitor,
+    setMonitor,
+    broadcast,
+    setBroadcastTargets,
+    notificationsMuted,
+    setNotificationsMuted,
+    cwd,
+    environment,
+    startSessionHere,
     focusSysKeyboard,
     focusTerminalInput,
     sendSoftKeySequence,
@@ -835,21 +1013,72 @@ export function App() {
     getSelectableText,
     getVisibleTerminalText,
     copyTextToClipboard,
+    exportOutput,
+    findNext,
+    findPrevious,
+    clearSearch,
+    searchResults,
+    shellIntegrationActive,
+    scrollToPrompt,
+    getLastCommandOutput,
     horizontalOverflow,
+    verticalOverflow,
+    letterboxed,
     containerElement,
   } = useTerminal({
     wsUrl: awaitingStart ? undefined : config?.wsUrl,
+    storedSession: pane.session,
+    onStoredSessionChange: handleStoredSessionChange,
     sshTarget,
+    profile,
+    startDirectory,
     onSessionEnd: returnToStartScreen,
     onTitleChange: handleTitleChange,
     onClipboardFallback: handleClipboardFallback,
     onClipboardCopy: handleClipboardCopy,
+    onFindShortcut: openFindBar,
+    onPreferencesChange: onServerPreferencesChange,
     fontSize,
     minColumns: effectiveMinColumns,
+    preferences,
   });
 
-  const appShellRef = useRef<HTMLDivElement>(null);
+  // Search as you type (and when an option changes) from the current match on.
+  useEffect(() => {
+    if (!findOpen) return;
+    if (findTerm === "") {
+      clearSearch();
+      return;
+    }
+    findNext(findTerm, { caseSensitive: findCaseSensitive, regex: findRegex }, true);
+  }, [findOpen, findTerm, findCaseSensitive, findRegex, findNext, clearSearch]);
+
+  const closeFindBar = useCallback(() => {
+    setFindOpen(false);
+    clearSearch();
+    focusTerminalInput();
+  }, [clearSearch, focusTerminalInput]);
+
+  const onFindKeyDown = (event: ReactKeyboardEvent<HTMLInputElement>) => {
+    const options = { caseSensitive: findCaseSensitive, regex: findRegex };
+    if (event.key === "Enter") {
+      event.preventDefault();
+      if (findTerm === "") return;
+      if (event.shiftKey) {
+        findPrevious(findTerm, options);
+      } else {
+        findNext(findTerm, options);
+      }
+    } else if (event.key === "Escape") {
+      event.preventDefault();
+      closeFindBar();
+    }
+  };
+
+  // The tab's terminal area, which the floating keyboard and arrow pad are
+  // placed in (see PaneSlots)
   const terminalStageRef = useRef<HTMLDivElement>(null);
+  terminalStageRef.current = slots?.stage ?? null;
   const dockedKeyboardPanelRef = useRef<HTMLElement>(null);
   const scrollbarTrackRef = useRef<HTMLDivElement>(null);
   const scrollbarThumbRef = useRef<HTMLDivElement>(null);
@@ -870,55 +1099,6 @@ export function App() {
   const repeatIntervalRef = useRef<number | null>(null);
   const repeatModifiersRef = useRef<SoftKeyModifiers | null>(null);
 
-  useEffect(() => {
-    const syncViewportLayout = () => {
-      const shell = appShellRef.current;
-      if (!shell) {
-        return;
-      }
-      const vv = window.visualViewport;
-      if (!vv) {
-        shell.style.removeProperty("height");
-        shell.style.setProperty("--viewport-bottom-compensation", "0px");
-        return;
-      }
-
-      const layoutHeight = document.documentElement.clientHeight;
-      const visibleBottom = vv.offsetTop + vv.height;
-      const bottomClip = Math.max(0, layoutHeight - visibleBottom);
-      const boundedBottomClip = Math.min(96, Math.round(bottomClip));
-      // `layoutHeight - vv.height` around 50-100px is usually address-bar/chrome collapse, while software keyboards are >200px;
-      // only in the small-reduction case do we pass `boundedBottomClip` to `shell.style.setProperty(...)` below.
-      const shouldApplyBottomCompensation = layoutHeight - vv.height <= 120;
-
-      shell.style.height = `${vv.height}px`;
-      shell.style.setProperty(
-        "--viewport-bottom-compensation",
-        `${shouldApplyBottomCompensation ? boundedBottomClip : 0}px`,
-      );
-    };
-
-    const onResize = () => {
-      syncViewportLayout();
-      window.scrollTo(0, 0);
-    };
-
-    syncViewportLayout();
-
-    const vv = window.visualViewport;
-    if (!vv) {
-      return;
-    }
-    vv.addEventListener("resize", onResize);
-    vv.addEventListener("scroll", syncViewportLayout);
-    window.addEventListener("orientationchange", onResize);
-    return () => {
-      vv.removeEventListener("resize", onResize);
-      vv.removeEventListener("scroll", syncViewportLayout);
-      window.removeEventListener("orientationchange", onResize);
-    };
-  }, []);
-
   useEffect(() => {
     const syncDesktopMode = () => {
       setIsDesktopWide(window.innerWidth >= DESKTOP_WIDTH_BREAKPOINT);
@@ -930,13 +1110,10 @@ export function App() {
 
   const appTitle = config?.appTitle ?? DEFAULT_APP_TITLE;
   const authEnabled = config?.authEnabled ?? true;
+  const canRecord = (config?.recordingEnabled ?? false) && role === "driver" && connectionStatus === "connected";
   const scrollbarRefreshToken = `${effectiveMinColumns}:${fontSize ?? "auto"}`;
   const scrollbarRefreshTokenRef = useRef(scrollbarRefreshToken);
 
-  useEffect(() => {
-    document.title = remoteTitle ? `${remoteTitle} | ${appTitle}` : appTitle;
-  }, [appTitle, remoteTitle]);
-
   useEffect(() => {
     if (!selectableTextRef.current || selectableText === null) {
       return;
@@ -1023,7 +1200,7 @@ export function App() {
 
   // Escape backs out of the ssh host picker to the session-type choice.
   useEffect(() => {
-    if (!awaitingStart || startStep !== "ssh") return;
+    if (!focused || !awaitingStart || startStep !== "ssh") return;
     const onKeyDown = (e: KeyboardEvent) => {
       if (e.key === "Escape") {
         e.preventDefault();
@@ -1032,7 +1209,15 @@ export function App() {
     };
     document.addEventListener("keydown", onKeyDown);
     return () => document.removeEventListener("keydown", onKeyDown);
-  }, [awaitingStart, startStep]);
+  }, [focused, awaitingStart, startStep]);
+
+  // Switching to this pane (or its tab) hands it the keyboard, once it is shown.
+  // biome-ignore lint/correctness/useExhaustiveDependencies: only on switching, not when the session starts
+  useEffect(() => {
+    if (!focused || awaitingStart) return;
+    const frame = requestAnimationFrame(() => focusTerminalInput());
+    return () => cancelAnimationFrame(frame);
+  }, [focused]);
 
   // Resuming keeps the stored target: the session may be an ssh one, and its
   // fallback fresh-handshake should stay ssh.
@@ -1049,25 +1234,123 @@ export function App() {
     endSession();
   }, [endSession]);
 
+  // The directory field for a new local session: undefined when empty, null
+  // (after a toast) when it is not an absolute path. The server checks the rest.
+  const readStartDirectory = useCallback((): string | undefined | null => {
+    const dir = startDirectoryInput.trim();
+    if (dir === "") return undefined;
+    if (!dir.startsWith("/")) {
+      toast.error("Start directory must be an absolute path.", { id: "start-directory" });
+      return null;
+    }
+    return dir;
+  }, [startDirectoryInput]);
+
   const startLocalShell = useCallback(() => {
-    sessionStorage.removeItem(SSH_TARGET_STORAGE_KEY);
-    setSshTarget(undefined);
+    const dir = readStartDirectory();
+    if (dir === null) return;
+    updatePane({ sshTarget: undefined, profile: undefined, startDirectory: dir });
     setAwaitingStart(false);
-  }, []);
+  }, [readStartDirectory, updatePane]);
+
+  const startProfile = useCallback(
+    (id: string) => {
+      const dir = readStartDirectory();
+      if (dir === null) return;
+      updatePane({ sshTarget: undefined, profile: id, startDirectory: dir });
+      setAwaitingStart(false);
+    },
+    [readStartDirectory, updatePane],
+  );
 
-  const startSshTo = useCallback((rawTarget: string) => {
-    const target = rawTarget.trim();
-    if (parseSshTarget(target) === null) {
-      toast.error("Invalid ssh target — expected [user@]host[:port] (IPv6: [addr] or [addr]:port).", {
-        id: "ssh-target",
+  // Lists the directory being typed in; suggestions narrow by the last
+  // segment without refetching.
+  const directoryParent = splitDirectoryQuery(startDirectoryInput.trim())?.parent ?? null;
+  const cwdRootsEnabled = (config?.cwdRoots.length ?? 0) > 0;
+  useEffect(() => {
+    if (!awaitingStart || !cwdRootsEnabled || directoryParent === null) return;
+    const controller = new AbortController();
+    loadSubdirectories(directoryParent, controller.signal)
+      .then((names) => setDirectoryListing({ parent: directoryParent, names }))
+      .catch(() => {
+        // Aborted by the next keystroke, or offline: keep the last suggestions.
       });
-      return;
+    return () => controller.abort();
+  }, [awaitingStart, cwdRootsEnabled, directoryParent]);
+
+  const directorySuggestions = useMemo(() => {
+    const input = startDirectoryInput.trim();
+    if (input === "") return config?.cwdRoots ?? [];
+    const query = splitDirectoryQuery(input);
+    if (query === null || directoryListing?.parent !== query.parent) return [];
+    return buildDirectorySuggestions(query, directoryListing.names);
+  }, [startDirectoryInput, directoryListing, config]);
+
+  const refreshRunningSessions = useCallback(async () => {
+    try {
+      setRunningSessions(await loadSessionSummaries());
+    } catch {
+      toast.error("Failed to load running sessions.", { id: "running-sessions" });
     }
-    sessionStorage.setItem(SSH_TARGET_STORAGE_KEY, target);
-    setSshTarget(target);
-    setAwaitingStart(false);
   }, []);
 
+  useEffect(() => {
+    if (!awaitingStart || hasStoredSession || startStep !== "choice") return;
+    void refreshRunningSessions();
+  }, [awaitingStart, hasStoredSession, startStep, refreshRunningSessions]);
+
+  const ownSessionId = pane.session?.sessionId ?? null;
+  const openBroadcastDialog = useCallback(async () => {
+    try {
+      const summaries = await loadSessionSummaries();
+      setBroadcastCandidates(
+        summaries.filter((summary) => summary.sessionId !== ownSessionId && summary.state !== "dead"),
+      );
+      setBroadcastSelection(broadcast.targets);
+    } catch {
+      toast.error("Failed to load running sessions.", { id: "running-sessions" });
+    }
+  }, [ownSessionId, broadcast.targets]);
+
+  const applyBroadcast = useCallback(
+    (targets: string[]) => {
+      setBroadcastTargets(targets);
+      setBroadcastCandidates(null);
+    },
+    [setBroadcastTargets],
+  );
+
+  // Attaching to a session with a driver takes it over: the server closes the
+  // other connection with 4002, which shows it the "taken over" overlay.
+  // Watching joins as a read-only viewer and leaves the driver alone.
+  const attachToRunningSession = useCallback(
+    (summary: SessionSummary, asRole: ClientRole = "driver") => {
+      updatePane({
+        sshTarget: summary.sshTarget ?? undefined,
+        profile: summary.profile ?? undefined,
+        startDirectory: undefined,
+      });
+      attachToSession(summary.sessionId, asRole);
+      setAwaitingStart(false);
+    },
+    [attachToSession, updatePane],
+  );
+
+  const startSshTo = useCallback(
+    (rawTarget: string) => {
+      const target = rawTarget.trim();
+      if (parseSshTarget(target) === null) {
+        toast.error("Invalid ssh target — expected [user@]host[:port] (IPv6: [addr] or [addr]:port).", {
+          id: "ssh-target",
+        });
+        return;
+      }
+      updatePane({ sshTarget: target, profile: undefined, startDirectory: undefined });
+      setAwaitingStart(false);
+    },
+    [updatePane],
+  );
+
   const openCopyModePicker = useCallback(() => {
     setPasteHelperText(null);
     setSelectableText(null);
@@ -1085,6 +1368,17 @@ export function App() {
     setSelectableText(text);
   }, [getSelectableText]);
 
+  const openSelectableLastCommandOutput = useCallback(() => {
+    const text = getLastCommandOutput();
+    if (text.length === 0) {
+      toast.info("The last command printed nothing.", { id: "copy-last-command" });
+      return;
+    }
+    setPasteHelperText(null);
+    setCopyModePickerOpen(false);
+    setSelectableText(text);
+  }, [getLastCommandOutput]);
+
   const openSelectableVisibleText = useCallback(() => {
     const text = getVisibleTerminalText();
     if (text.length === 0) {
@@ -1096,6 +1390,24 @@ export function App() {
     setSelectableText(text);
   }, [getVisibleTerminalText]);
 
+  const downloadOutput = useCallback(
+    async (format: ExportFormat) => {
+      setCopyModePickerOpen(false);
+      const content = await exportOutput(format);
+      if (content.length === 0) {
+        toast.info("No terminal output available.", { id: "export-output" });
+        return;
+      }
+      const title = remoteTitle ?? appTitle;
+      downloadFile(
+        exportFileName(title, format),
+        EXPORT_FORMATS[format].mimeType,
+        format === "html" ? wrapHtmlExport(content, title) : content,
+      );
+    },
+    [exportOutput, remoteTitle, appTitle],
+  );
+
   const closeSelectableText = useCallback(() => {
     setCopyModePickerOpen(false);
     setSelectableText(null);
@@ -1682,7 +1994,7 @@ export function App() {
   }, []);
 
   function handleLogout() {
-    sessionStorage.removeItem(SESSION_STORAGE_KEY);
+    clearTabWorkspace();
     fetch("/api/auth/logout", { method: "POST" }).finally(() => {
       window.location.href = "/login";
     });
@@ -1810,847 +2122,2313 @@ export function App() {
     : undefined;
 
   return (
-    <div className="app-shell" ref={appShellRef}>
-      <header className="topbar">
-        <div className="brand">
-          <h1>
-            <span className="brand-title">{appTitle}</span>
-            <button type="button" className="info-button" onClick={() => setInfoDialogOpen(true)} aria-label="Info">
-              i
-            </button>
-            {(() => {
-              const statusLabel =
-                connectionStatus === "connected"
-                  ? "Connected"
-                  : connectionStatus === "connecting"
-                    ? "Connecting"
-                    : connectionStatus === "error"
-                      ? "Error"
-                      : "Disconnected";
-              return (
-                <>
-                  <span className={`status-dot status-dot-${connectionStatus} touch-only`} aria-hidden="true" />
-                  <span
-                    className={`status-badge status-${connectionStatus} pointer-only`}
-                    role="status"
-                    aria-label={statusLabel}
-                  >
-                    {connectionStatus === "connecting" ? "..." : connectionStatus}
+    <div
+      className={`terminal-pane ${focused && paneCount > 1 ? "terminal-pane-focused" : ""}`}
+      style={layoutStyle}
+      onPointerDownCapture={focusThisPane}
+      onFocusCapture={focusThisPane}
+    >
+      {slots &&
+        createPortal(
+          <header className="topbar">
+            <div className="brand">
+              <h1>
+                <span className="brand-title">{appTitle}</span>
+                <button type="button" className="info-button" onClick={() => setInfoDialogOpen(true)} aria-label="Info">
+                  i
+                </button>
+                {(() => {
+                  const statusLabel =
+                    connectionStatus === "connected"
+                      ? "Connected"
+                      : connectionStatus === "connecting"
+                        ? "Connecting"
+                        : connectionStatus === "error"
+                          ? "Error"
+                          : "Disconnected";
+                  return (
+                    <>
+                      <span className={`status-dot status-dot-${connectionStatus} touch-only`} aria-hidden="true" />
+                      <span
+                        className={`status-badge status-${connectionStatus} pointer-only`}
+                        role="status"
+                        aria-label={statusLabel}
+                      >
+                        {connectionStatus === "connecting" ? "..." : connectionStatus}
+                      </span>
+                    </>
+                  );
+                })()}
+                {cwd !== null && connectionStatus === "connected" && (
+                  <span className="cwd-label pointer-only" title={cwd}>
+                    {abbreviateWorkingDirectory(cwd)}
                   </span>
-                </>
-              );
-            })()}
-            {pendingClipboardPayload === null ? (
-              <span className="status-badge clipboard-pending-badge clipboard-idle" style={{ visibility: "hidden" }}>
-                <span className="btn-icon">📋</span>
-                <span className="btn-label">Clipboard</span>
-              </span>
-            ) : (
-              <button
-                key={clipboardSeq}
-                type="button"
-                className="status-badge clipboard-pending-badge"
-                onClick={openPendingClipboard}
-              >
-                <span className="btn-icon">📋</span>
-                <span className="btn-label">Clipboard</span>
-              </button>
-            )}
-          </h1>
-        </div>
-        <div className="toolbar">
-          <div
-            className="toolbar-actions"
-            role="toolbar"
-            // Prevent default on mouse/touch so that pressing toolbar buttons
-            // doesn't trigger text selection or steal focus from the terminal.
-            onMouseDown={(e) => e.preventDefault()}
-            onTouchStart={(e) => e.preventDefault()}
-          >
-            <button
-              type="button"
-              className={`toolbar-button ${softKeysOpen ? "toolbar-button-active" : ""}`}
-              onClick={() => {
-                setSoftKeysOpen((previous) => {
-                  const nextOpen = !previous;
-                  if (nextOpen) {
-                    blurTerminalInput();
-                  } else {
-                    focusTerminalInput();
-                  }
-                  return nextOpen;
-                });
-                setOverflowMenuOpen(false);
-              }}
-              aria-pressed={softKeysOpen}
-            >
-              <svg
-                className="btn-icon"
-                aria-hidden="true"
-                width="18"
-                height="18"
-                viewBox="0 0 24 24"
-                fill="none"
-                stroke="currentColor"
-                strokeWidth="2"
-                strokeLinecap="round"
-                strokeLinejoin="round"
-              >
-                <rect x="2" y="4" width="20" height="16" rx="2" />
-                <path d="M6 8h.01M10 8h.01M14 8h.01M18 8h.01" />
-                <path d="M6 12h.01M10 12h.01M14 12h.01M18 12h.01" />
-                <path d="M8 16h8" />
-              </svg>
-              <span className="btn-label">Soft Keys</span>
-            </button>
-            <div className="copy-mode-menu" ref={copyModeMenuRef}>
-              <button
-                type="button"
-                className={`toolbar-button ${copyModePickerOpen ? "toolbar-button-active" : ""}`}
-                onClick={openCopyModePicker}
-                title="Copy Text"
-                aria-expanded={copyModePickerOpen}
-                aria-haspopup="menu"
-              >
-                <svg
-                  className="btn-icon"
-                  aria-hidden="true"
-                  width="18"
-                  height="18"
-                  viewBox="0 0 24 24"
-                  fill="none"
-                  stroke="currentColor"
-                  strokeWidth="2"
-                  strokeLinecap="round"
-                  strokeLinejoin="round"
-                >
-                  <rect x="9" y="9" width="13" height="13" rx="2" />
-                  <path d="M5 15H4a2 2 0 0 1-2-2V4a2 2 0 0 1 2-2h9a2 2 0 0 1 2 2v1" />
-                </svg>
-                <span className="btn-label">Copy Text</span>
-              </button>
-              {copyModePickerOpen && (
-                <div className="dropdown-panel copy-mode-menu-panel" role="menu" aria-label="Choose copy source">
+                )}
+                {role === "viewer" && connectionStatus === "connected" && (
                   <button
                     type="button"
-                    className="toolbar-button copy-mode-menu-item"
-                    role="menuitem"
-                    onClick={() => void openSelectableRecentText()}
+                    className="status-badge read-only-badge"
+                    onClick={takeControl}
+                    title="Watching read-only. Click to take control (disconnects the current driver)."
                   >
-                    Recent Output
+                    Read-only
                   </button>
+                )}
+                {recording && connectionStatus === "connected" && (
+                  <span className="status-badge recording-badge" title="This session is being recorded on the server">
+                    REC
+                  </span>
+                )}
+                {broadcast.targets.length > 0 && connectionStatus === "connected" && (
                   <button
                     type="button"
-                    className="toolbar-button copy-mode-menu-item"
-                    role="menuitem"
-                    onClick={openSelectableVisibleText}
+                    className="status-badge broadcast-badge"
+                    onClick={() => void openBroadcastDialog()}
+                    title={`Input typed here also goes to ${broadcast.targets.length} other session(s). Click to change.`}
                   >
-                    Visible Screen
+                    SYNC → {broadcast.targets.length}
                   </button>
-                </div>
-              )}
-            </div>
-            <button
-              type="button"
-              className="toolbar-button"
-              onClick={() => void handleToolbarPaste()}
-              title="Paste from clipboard. If blocked, a helper panel opens for iOS paste."
-            >
-              <svg
-                className="btn-icon"
-                aria-hidden="true"
-                width="18"
-                height="18"
-                viewBox="0 0 24 24"
-                fill="none"
-                stroke="currentColor"
-                strokeWidth="2"
-                strokeLinecap="round"
-                strokeLinejoin="round"
-              >
-                <path d="M16 4h2a2 2 0 0 1 2 2v14a2 2 0 0 1-2 2H6a2 2 0 0 1-2-2V6a2 2 0 0 1 2-2h2" />
-                <rect x="8" y="2" width="8" height="4" rx="1" />
-                <path d="M12 11v6" />
-                <path d="M9 14l3-3 3 3" />
-              </svg>
-              <span className="btn-label">Paste Text</span>
-            </button>
-            <div className="overflow-menu" ref={overflowMenuRef}>
-              <button
-                type="button"
-                className="toolbar-button overflow-menu-trigger"
-                onClick={() => setOverflowMenuOpen((prev) => !prev)}
-                aria-expanded={overflowMenuOpen}
-                aria-label="More actions"
-              >
-                &#8942;
-              </button>
-              {overflowMenuOpen && (
-                <div className="dropdown-panel overflow-menu-panel">
-                  <button
-                    type="button"
-                    className={`toolbar-button overflow-menu-item touch-only ${sysKeyActive ? "toolbar-button-active" : ""}`}
-                    onClick={() =>
-                      overflowAction(() => {
-                        setSoftKeysOpen(false);
-                        focusSysKeyboard();
-                      })
-                    }
+                )}
+                {broadcast.sources.length > 0 && connectionStatus === "connected" && (
+                  <span
+                    className="status-badge broadcast-badge"
+                    title={`Receives the input typed into ${broadcast.sources.length} other session(s)`}
                   >
-                    Sys Keys
-                  </button>
-                  <button
-                    type="button"
-                    className="toolbar-button overflow-menu-item touch-only"
-                    onClick={() => overflowAction(() => void inspectProcesses())}
+                    SYNC ←
+                  </span>
+                )}
+                {pinned && connectionStatus === "connected" && (
+                  <span
+                    className="status-badge pinned-badge"
+                    title="Pinned: keeps running however long it stays detached"
                   >
-                    Processes
-                  </button>
-                  {connectionStatus === "connected" ? (
-                    <button
-                      type="button"
-                      className="toolbar-button overflow-menu-item touch-only"
-                      onClick={() => overflowAction(() => setEndSessionConfirmOpen(true))}
-                    >
-                      End Session
-                    </button>
-                  ) : (
-                    <button
-                      type="button"
-                      className="toolbar-button overflow-menu-item reconnect-button touch-only"
-                      onClick={() => overflowAction(reconnect)}
-                      disabled={connectionStatus === "connecting"}
-                    >
-                      Reconnect
-                    </button>
-                  )}
+                    Pinned
+                  </span>
+                )}
+                {pendingClipboardPayload === null ? (
+                  <span
+                    className="status-badge clipboard-pending-badge clipboard-idle"
+                    style={{ visibility: "hidden" }}
+                  >
+                    <span className="btn-icon">📋</span>
+                    <span className="btn-label">Clipboard</span>
+                  </span>
+                ) : (
                   <button
+                    key={clipboardSeq}
                     type="button"
-                    className="toolbar-button overflow-menu-item"
-                    onClick={() => overflowAction(openFontSizeMenu)}
+                    className="status-badge clipboard-pending-badge"
+                    onClick={openPendingClipboard}
                   >
-                    Font Size: {fontSize ?? "Auto"}
+                    <span className="btn-icon">📋</span>
+                    <span className="btn-label">Clipboard</span>
                   </button>
+                )}
+              </h1>
+            </div>
+            <div className="toolbar">
+              <div
+                className="toolbar-actions"
+                role="toolbar"
+                // Prevent default on mouse/touch so that pressing toolbar buttons
+                // doesn't trigger text selection or steal focus from the terminal.
+                onMouseDown={(e) => e.preventDefault()}
+                onTouchStart={(e) => e.preventDefault()}
+              >
+                <button
+                  type="button"
+                  className={`toolbar-button ${softKeysOpen ? "toolbar-button-active" : ""}`}
+                  onClick={() => {
+                    setSoftKeysOpen((previous) => {
+                      const nextOpen = !previous;
+                      if (nextOpen) {
+                        blurTerminalInput();
+                      } else {
+                        focusTerminalInput();
+                      }
+                      return nextOpen;
+                    });
+                    setOverflowMenuOpen(false);
+                  }}
+                  aria-pressed={softKeysOpen}
+                >
+                  <svg
+                    className="btn-icon"
+                    aria-hidden="true"
+                    width="18"
+                    height="18"
+                    viewBox="0 0 24 24"
+                    fill="none"
+                    stroke="currentColor"
+                    strokeWidth="2"
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                  >
+                    <rect x="2" y="4" width="20" height="16" rx="2" />
+                    <path d="M6 8h.01M10 8h.01M14 8h.01M18 8h.01" />
+                    <path d="M6 12h.01M10 12h.01M14 12h.01M18 12h.01" />
+                    <path d="M8 16h8" />
+                  </svg>
+                  <span className="btn-label">Soft Keys</span>
+                </button>
+                <div className="copy-mode-menu" ref={copyModeMenuRef}>
                   <button
                     type="button"
-                    className="toolbar-button overflow-menu-item"
-                    onClick={() => overflowAction(openMinColumnsMenu)}
+                    className={`toolbar-button ${copyModePickerOpen ? "toolbar-button-active" : ""}`}
+                    onClick={openCopyModePicker}
+                    title="Copy Text"
+                    aria-expanded={copyModePickerOpen}
+                    aria-haspopup="menu"
                   >
-                    Min Cols: {effectiveMinColumns}
+                    <svg
+                      className="btn-icon"
+                      aria-hidden="true"
+                      width="18"
+                      height="18"
+                      viewBox="0 0 24 24"
+                      fill="none"
+                      stroke="currentColor"
+                      strokeWidth="2"
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                    >
+                      <rect x="9" y="9" width="13" height="13" rx="2" />
+                      <path d="M5 15H4a2 2 0 0 1-2-2V4a2 2 0 0 1 2-2h9a2 2 0 0 1 2 2v1" />
+                    </svg>
+                    <span className="btn-label">Copy Text</span>
                   </button>
-                  {authEnabled ? (
-                    <button
-                      type="button"
-                      className="toolbar-button overflow-menu-item logout-button touch-only"
-                      onClick={() => overflowAction(handleLogout)}
+                  {copyModePickerOpen && (
+                    <div
+                      className="dropdown-panel copy-mode-menu-panel"
+                      role="menu"
+                      aria-label="Copy or download output"
                     >
-                      Log Out
-                    </button>
-                  ) : null}
-                </div>
-              )}
-            </div>
-            <button type="button" className="toolbar-button pointer-only" onClick={() => void inspectProcesses()}>
-              Processes
-            </button>
-            {connectionStatus === "connected" ? (
-              <button
-                type="button"
-                className="toolbar-button pointer-only"
-                onClick={() => setEndSessionConfirmOpen(true)}
-              >
-                End Session
-              </button>
-            ) : (
-              <button
-                type="button"
-                className="toolbar-button reconnect-button pointer-only"
-                onClick={reconnect}
-                disabled={connectionStatus === "connecting"}
-              >
-                Reconnect
-              </button>
-            )}
-            {authEnabled ? (
-              <button type="button" className="toolbar-button pointer-only logout-button" onClick={handleLogout}>
-                Log Out
-              </button>
-            ) : null}
-          </div>
-        </div>
-      </header>
-
-      <main className="terminal-card">
-        <div className="terminal-stage" ref={terminalStageRef}>
-          <div
-            ref={containerRef}
-            className={`terminal-viewport ${horizontalOverflow ? "terminal-viewport-overflow" : ""}`}
-          />
-
-          {awaitingStart ? (
-            hasStoredSession ? (
-              <div
-                className="disconnect-overlay"
-                role="button"
-                tabIndex={0}
-                ref={focusOnMountRef}
-                onClick={resumeSession}
-                onKeyDown={(e) => {
-                  if (e.key === "Enter") {
-                    e.preventDefault();
-                    resumeSession();
-                  }
-                }}
-              >
-                <div className="disconnect-overlay-text start-overlay-text start-overlay-resume">
-                  <span>
-                    <span className="pointer-only">Click or press Enter to</span>
-                    <span className="touch-only">Tap to</span> resume
-                  </span>
-                </div>
-              </div>
-            ) : (
-              <div className="disconnect-overlay start-overlay-static">
-                <div className="disconnect-overlay-text start-overlay-text start-overlay-menu">
-                  {startStep === "choice" ? (
-                    <>
-                      <span className="start-overlay-heading">Start a session</span>
+                      {shellIntegrationActive && (
+                        <button
+                          type="button"
+                          className="toolbar-button copy-mode-menu-item"
+                          role="menuitem"
+                          onClick={openSelectableLastCommandOutput}
+                        >
+                          Last Command Output
+                        </button>
+                      )}
                       <button
                         type="button"
-                        className="toolbar-button start-overlay-choice"
-                        ref={focusOnMountRef}
-                        onClick={startLocalShell}
+                        className="toolbar-button copy-mode-menu-item"
+                        role="menuitem"
+                        onClick={() => void openSelectableRecentText()}
                       >
-                        Local shell
-                        <code className="start-overlay-command">{formatShellCommand(config?.shellCommand ?? [])}</code>
+                        Recent Output
                       </button>
                       <button
                         type="button"
-                        className="toolbar-button start-overlay-choice"
-                        onClick={() => setStartStep("ssh")}
+                        className="toolbar-button copy-mode-menu-item"
+                        role="menuitem"
+                        onClick={openSelectableVisibleText}
                       >
-                        SSH to another host…
+                        Visible Screen
                       </button>
-                    </>
-                  ) : (
-                    <>
-                      <span className="start-overlay-heading">SSH to</span>
-                      {(config?.sshHosts ?? []).map((host) => (
+                      <div className="copy-mode-menu-heading" role="presentation">
+                        Download all output
+                      </div>
+                      {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map((format) => (
                         <button
-                          key={host}
+                          key={format}
                           type="button"
-                          className="toolbar-button start-overlay-choice start-overlay-host"
-                          onClick={() => startSshTo(host)}
+                          className="toolbar-button copy-mode-menu-item"
+                          role="menuitem"
+                          onClick={() => void downloadOutput(format)}
                         >
-                          {host}
+                          {EXPORT_FORMATS[format].label} (.{EXPORT_FORMATS[format].extension})
                         </button>
                       ))}
-                      <form
-                        className="start-overlay-ssh"
-                        onSubmit={(e) => {
-                          e.preventDefault();
-                          startSshTo(sshInput);
-                        }}
+                    </div>
+                  )}
+                </div>
+                <button
+                  type="button"
+                  className="toolbar-button"
+                  onClick={() => void handleToolbarPaste()}
+                  title="Paste from clipboard. If blocked, a helper panel opens for iOS paste."
+                >
+                  <svg
+                    className="btn-icon"
+                    aria-hidden="true"
+                    width="18"
+                    height="18"
+                    viewBox="0 0 24 24"
+                    fill="none"
+                    stroke="currentColor"
+                    strokeWidth="2"
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                  >
+                    <path d="M16 4h2a2 2 0 0 1 2 2v14a2 2 0 0 1-2 2H6a2 2 0 0 1-2-2V6a2 2 0 0 1 2-2h2" />
+                    <rect x="8" y="2" width="8" height="4" rx="1" />
+                    <path d="M12 11v6" />
+                    <path d="M9 14l3-3 3 3" />
+                  </svg>
+                  <span className="btn-label">Paste Text</span>
+                </button>
+                <div className="overflow-menu" ref={overflowMenuRef}>
+                  <button
+                    type="button"
+                    className="toolbar-button overflow-menu-trigger"
+                    onClick={() => setOverflowMenuOpen((prev) => !prev)}
+                    aria-expanded={overflowMenuOpen}
+                    aria-label="More actions"
+                  >
+                    &#8942;
+                  </button>
+                  {overflowMenuOpen && (
+                    <div className="dropdown-panel overflow-menu-panel">
+                      <button
+                        type="button"
+                        className={`toolbar-button overflow-menu-item touch-only ${sysKeyActive ? "toolbar-button-active" : ""}`}
+                        onClick={() =>
+                          overflowAction(() => {
+                            setSoftKeysOpen(false);
+                            focusSysKeyboard();
+                          })
+                        }
                       >
-                        <input
-                          type="text"
-                          className="start-overlay-ssh-input"
-                          placeholder="user@host[:port] or user@[ipv6]"
-                          aria-label="SSH destination"
-                          autoCapitalize="none"
-                          autoCorrect="off"
-                          spellCheck={false}
-                          value={sshInput}
-                          onChange={(e) => setSshInput(e.target.value)}
-                        />
+                        Sys Keys
+                      </button>
+                      <button
+                        type="button"
+                        className="toolbar-button overflow-menu-item touch-only"
+                        onClick={() => overflowAction(() => void inspectProcesses())}
+                      >
+                        Processes
+                      </button>
+                      <button
+                        type="button"
+                        className="toolbar-button overflow-menu-item touch-only"
+                        onClick={() => overflowAction(openFindBar)}
+                      >
+                        Find
+                      </button>
+                      {canRecord && (
+                        <button
+                          type="button"
+                          className="toolbar-button overflow-menu-item touch-only"
+                          onClick={() => overflowAction(() => setRecording(!recording))}
+                        >
+                          {recording ? "Stop Recording" : "Record"}
+                        </button>
+                      )}
+                      {connectionStatus === "connected" ? (
+                        <button
+                          type="button"
+                          className="toolbar-button overflow-menu-item touch-only"
+                          onClick={() =>
+                            overflowAction(role === "viewer" ? endSession : () => setEndSessionConfirmOpen(true))
+                          }
+                        >
+                          {role === "viewer" ? "Stop Watching" : "End Session"}
+                        </button>
+                      ) : (
                         <button
-                          type="submit"
-                          className="toolbar-button start-overlay-ssh-button"
-                          disabled={sshInput.trim().length === 0}
+                          type="button"
+                          className="toolbar-button overflow-menu-item reconnect-button touch-only"
+                          onClick={() => overflowAction(reconnect)}
+                          disabled={connectionStatus === "connecting"}
                         >
-                          Connect
+                          Reconnect
                         </button>
-                      </form>
+                      )}
                       <button
                         type="button"
-                        className="toolbar-button start-overlay-back"
-                        onClick={() => setStartStep("choice")}
+                        className="toolbar-button overflow-menu-item"
+                        onClick={() => overflowAction(onNewTab)}
+                        title="Open another terminal in this page (Alt+Shift+T)"
                       >
-                        ← Back
+                        New Tab
                       </button>
-                    </>
+                      <button
+                        type="button"
+                        className="toolbar-button overflow-menu-item"
+                        onClick={() => overflowAction(() => onSplit("row"))}
+                        title="Split this pane, a new terminal on the right (Alt+Shift+\)"
+                      >
+                        Split Right
+                      </button>
+                      <button
+                        type="button"
+                        className="toolbar-button overflow-menu-item"
+                        onClick={() => overflowAction(() => onSplit("column"))}
+                        title="Split this pane, a new terminal below (Alt+Shift+-)"
+                      >
+                        Split Down
+                      </button>
+                      {paneCount > 1 && (
+                        <button
+                          type="button"
+                          className="toolbar-button overflow-menu-item"
+                          onClick={() => overflowAction(() => onClose(pane.id))}
+                          title="Close this pane; its session keeps running detached (Alt+Shift+X)"
+                        >
+                          Close Pane
+                        </button>
+                      )}
+                      <button
+                        type="button"
+                        className="toolbar-button overflow-menu-item"
+                        onClick={() => overflowAction(onResetLayout)}
+                        title="Start over with one tab and forget the saved layout; the sessions keep running detached"
+                      >
+                        Reset Layout
+                      </button>
+                      {cwd?.startsWith("/") && sshTarget === undefined && connectionStatus === "connected" && (
+                        <button
+                          type="button"
+                          className="toolbar-button overflow-menu-item"
+                          onClick={() => overflowAction(startSessionHere)}
+                          title={`Start a new shell in ${cwd}; this one keeps running detached`}
+                        >
+                          New Session Here
+                        </button>
+                      )}
+                      {shellIntegrationActive && (
+                        <>
+                          <button
+                            type="button"
+                            className="toolbar-button overflow-menu-item"
+                            onClick={() => overflowAction(() => scrollToPrompt("previous"))}
+                            title="Scroll to the previous prompt (Ctrl+Shift+Up)"
+                          >
+                            Previous Prompt
+                          </button>
+                          <button
+                            type="button"
+                            className="toolbar-button overflow-menu-item"
+                            onClick={() => overflowAction(() => scrollToPrompt("next"))}
+                            title="Scroll to the next prompt (Ctrl+Shift+Down)"
+                          >
+                            Next Prompt
+                          </button>
+                        </>
+                      )}
+                      <button
+                        type="button"
+                        className="toolbar-button overflow-menu-item"
+                        onClick={() => overflowAction(openFontSizeMenu)}
+                      >
+                        Font Size: {fontSize ?? "Auto"}
+                      </button>
+                      <button
+                        type="button"
+                        className="toolbar-button overflow-menu-item"
+                        onClick={() => overflowAction(openMinColumnsMenu)}
+                      >
+                        Min Cols: {effectiveMinColumns}
+                      </button>
+                      <button
+                        type="button"
+                        className="toolbar-button overflow-menu-item"
+                        onClick={() => overflowAction(() => setAppearanceMenuOpen(true))}
+                        title="Theme, cursor and bell on this device"
+                      >
+                        Appearance: {THEME_LABELS[preferences.theme ?? "dark"]}
+                      </button>
+                      {role === "driver" && connectionStatus === "connected" && (
+                        <button
+                          type="button"
+                          className="toolbar-button overflow-menu-item"
+                          onClick={() => overflowAction(() => void openBroadcastDialog())}
+                          title="Send what you type here to other sessions as well"
+                        >
+                          Synchronize Input: {broadcast.targets.length > 0 ? `${broadcast.targets.length}` : "Off"}
+                        </button>
+                      )}
+                      {role === "driver" && connectionStatus === "connected" && (
+                        <button
+                          type="button"
+                          className="toolbar-button overflow-menu-item"
+                          onClick={() => overflowAction(() => setMonitorMenuOpen(true))}
+                          title="Alert when this session starts producing output, or goes quiet, even while detached"
+                        >
+                          Monitor: {describeMonitor(monitor)}
+                        </button>
+                      )}
+                      {role === "driver" && connectionStatus === "connected" && (
+                        <button
+                          type="button"
+                          className="toolbar-button overflow-menu-item"
+                          onClick={() => overflowAction(() => setPinned(!pinned))}
+                          title={
+                            pinned
+                              ? "Let the server end this session once it has been detached for the --detach-timeout"
+                              : "Keep this session running however long it stays detached"
+                          }
+                        >
+                          {pinned ? "Unpin Session" : "Pin Session"}
+                        </button>
+                      )}
+                      {notificationPermissionState === "default" && (
+                        <button
+                          type="button"
+                          className="toolbar-button overflow-menu-item"
+                          onClick={() => overflowAction(enableNotifications)}
+                          title="Show notifications from programs (OSC 9, OSC 777, bell) while this tab is in the background"
+                        >
+                          Enable Notifications
+                        </button>
+                      )}
+                      {connectionStatus === "connected" && (
+                        <button
+                          type="button"
+                          className="toolbar-button overflow-menu-item"
+                          onClick={() => overflowAction(() => setNotificationsMuted(!notificationsMuted))}
+                        >
+                          {notificationsMuted ? "Unmute Notifications" : "Mute Notifications"}
+                        </button>
+                      )}
+                      {config?.recordingEnabled && (
+                        <button
+                          type="button"
+                          className="toolbar-button overflow-menu-item"
+                          onClick={() => overflowAction(() => openUrlInNewTab("/recordings"))}
+                        >
+                          Recordings
+                        </button>
+                      )}
+                      {authEnabled ? (
+                        <button
+                          type="button"
+                          className="toolbar-button overflow-menu-item logout-button touch-only"
+                          onClick={() => overflowAction(handleLogout)}
+                        >
+                          Log Out
+                        </button>
+                      ) : null}
+                    </div>
                   )}
                 </div>
-              </div>
-            )
-          ) : (
-            connectionStatus !== "connected" &&
-            (connectionStatus === "connecting" ? (
-              <div className="disconnect-overlay">
-                <p className="disconnect-overlay-text disconnect-overlay-connecting">Connecting...</p>
-              </div>
-            ) : (
-              <div
-                className="disconnect-overlay"
-                role="button"
-                tabIndex={0}
-                onClick={() => reconnect()}
-                onKeyDown={(e) => {
-                  if (e.key === " " || e.key === "Enter") {
-                    e.preventDefault();
-                    reconnect();
-                  }
-                }}
-              >
-                <p className="disconnect-overlay-text">
-                  <span className="pointer-only">Click or press Space to</span>
-                  <span className="touch-only">Tap to</span> reconnect
-                </p>
-              </div>
-            ))
-          )}
-
-          {horizontalOverflow && (
-            <div className="custom-scrollbar">
-              <div className="custom-scrollbar-track" ref={scrollbarTrackRef}>
-                <div
-                  className="custom-scrollbar-thumb"
-                  ref={scrollbarThumbRef}
-                  onPointerDown={handleScrollbarPointerDown}
-                  onPointerMove={handleScrollbarPointerMove}
-                  onPointerUp={handleScrollbarPointerUp}
-                  onPointerCancel={handleScrollbarPointerUp}
-                  onLostPointerCapture={handleScrollbarPointerUp}
-                />
-              </div>
-            </div>
-          )}
-
-          {showFloatingSoftKeyboard && (
-            <section
-              className="extra-keys-panel extra-keys-floating"
-              role="group"
-              aria-label="Soft keyboard"
-              ref={floatingKeyboardRef}
-              style={floatingKeyboardStyle}
-            >
-              <div className="extra-keys-floating-toolbar">
-                <div className="extra-keys-floating-toolbar-spacer" />
-                <button
-                  type="button"
-                  className="extra-keys-floating-drag-handle"
-                  aria-label="Drag soft keyboard"
-                  onPointerDown={startFloatingKeyboardDrag}
-                >
-                  ⠿
+                <button type="button" className="toolbar-button pointer-only" onClick={() => void inspectProcesses()}>
+                  Processes
                 </button>
                 <button
                   type="button"
-                  className="extra-keys-floating-close"
-                  aria-label="Close soft keyboard"
-                  onClick={() => {
-                    if (!floatingKeyboardDragRef.current) {
-                      setSoftKeysOpen(false);
-                      focusTerminalInput();
-                    }
-                  }}
+                  className="toolbar-button pointer-only"
+                  onClick={openFindBar}
+                  title="Search the output and scrollback (Ctrl+Shift+F)"
                 >
-                  ✕
+                  Find
                 </button>
-              </div>
-              <DesktopPcKeyboardGrid
-                softKeyModifiers={softKeyModifiers}
-                toggleSoftModifier={toggleSoftModifier}
-                startKeyRepeat={startKeyRepeat}
-                stopKeyRepeat={stopKeyRepeat}
-                onVisualPressStart={handleFloatingVisualPressStart}
-                onVisualPressEnd={handleFloatingVisualPressEnd}
-              />
-            </section>
-          )}
-
-          {showFloatingSoftKeyboard && floatingPressedOverlay && (
-            <div className="floating-keypress-overlay" style={floatingPressedOverlayStyle} aria-hidden="true">
-              {floatingPressedOverlay.text}
-            </div>
-          )}
-
-          {showDesktopSoftKeyboardCollapsedToggle && (
-            <button
-              type="button"
-              className="arrow-overlay arrow-overlay-collapsed soft-keys-collapsed-desktop-toggle"
-              aria-label="Show soft keyboard"
-              ref={arrowOverlayRef as React.RefObject<HTMLButtonElement>}
-              style={desktopSoftKeyboardToggleStyle}
-              onPointerDown={startArrowOverlayDrag}
-              onClick={() => {
-                if (!arrowOverlayDragMovedRef.current) {
-                  setSoftKeysOpen(true);
-                  blurTerminalInput();
-                }
-              }}
-            >
-              <span className="arrow-overlay-collapsed-icon soft-keys-collapsed-desktop-icon" aria-hidden="true">
-                ⌨︎
-              </span>
-            </button>
-          )}
-
-          {showArrowOverlay &&
-            (arrowOverlayEnabled ? (
-              <div
-                className="arrow-overlay"
-                role="group"
-                aria-label="Arrow controls"
-                ref={arrowOverlayRef as React.RefObject<HTMLDivElement>}
-                style={arrowOverlayStyle}
-              >
-                <div className="arrow-overlay-toolbar">
-                  <div className="arrow-overlay-toolbar-spacer" />
+                {canRecord && (
                   <button
                     type="button"
-                    className="arrow-overlay-drag-handle"
-                    aria-label="Drag arrow controls"
-                    onPointerDown={startArrowOverlayDrag}
+                    className={`toolbar-button pointer-only ${recording ? "toolbar-button-active" : ""}`}
+                    onClick={() => setRecording(!recording)}
+                    title={recording ? "Stop recording this session" : "Record this session to an asciicast file"}
                   >
-                    ⠿
+                    {recording ? "Stop Recording" : "Record"}
                   </button>
+                )}
+                {connectionStatus === "connected" ? (
                   <button
                     type="button"
-                    className="arrow-overlay-close"
-                    aria-label="Close arrow controls"
-                    onClick={() => {
-                      if (!arrowOverlayDragRef.current) {
-                        setArrowOverlayEnabled(false);
-                      }
-                    }}
+                    className="toolbar-button pointer-only"
+                    onClick={role === "viewer" ? endSession : () => setEndSessionConfirmOpen(true)}
                   >
-                    ✕
+                    {role === "viewer" ? "Stop Watching" : "End Session"}
                   </button>
-                </div>
-                <div className="arrow-overlay-grid">
-                  <div className="arrow-overlay-spacer" />
-                  <ArrowKeyButton
-                    softKey={OVERLAY_ARROW_UP}
-                    ariaLabel="Arrow Up"
-                    startKeyRepeat={startKeyRepeat}
-                    stopKeyRepeat={stopKeyRepeat}
-                  />
-                  <div className="arrow-overlay-spacer" />
-                  <ArrowKeyButton
-                    softKey={OVERLAY_ARROW_LEFT}
-                    ariaLabel="Arrow Left"
-                    startKeyRepeat={startKeyRepeat}
-                    stopKeyRepeat={stopKeyRepeat}
-                  />
-                  <ArrowKeyButton
-                    softKey={OVERLAY_ARROW_DOWN}
-                    ariaLabel="Arrow Down"
-                    startKeyRepeat={startKeyRepeat}
-                    stopKeyRepeat={stopKeyRepeat}
-                  />
-                  <ArrowKeyButton
-                    softKey={OVERLAY_ARROW_RIGHT}
-                    ariaLabel="Arrow Right"
-                    startKeyRepeat={startKeyRepeat}
-                    stopKeyRepeat={stopKeyRepeat}
-                  />
-                </div>
-              </div>
-            ) : (
-              <button
-                type="button"
-                className="arrow-overlay arrow-overlay-collapsed"
-                aria-label="Show arrow controls"
-                ref={arrowOverlayRef as React.RefObject<HTMLButtonElement>}
-                style={arrowOverlayStyle}
-                onPointerDown={startArrowOverlayDrag}
-                onClick={() => {
-                  if (!arrowOverlayDragMovedRef.current) {
-                    setArrowOverlayEnabled(true);
-                  }
-                }}
-              >
-                <span className="arrow-overlay-collapsed-icon" aria-hidden="true">
-                  ✥
-                </span>
-              </button>
-            ))}
-        </div>
-      </main>
-
-      {showDockedSoftKeyboard && (
-        <section
-          className="extra-keys-panel extra-keys-docked"
-          aria-label="Extra key controls"
-          ref={dockedKeyboardPanelRef}
-        >
-          <MobileSoftKeyboardGrid
-            keyboardScreen={keyboardScreen}
-            softKeyModifiers={softKeyModifiers}
-            toggleSoftModifier={toggleSoftModifier}
-            toggleKeyboardScreen={toggleKeyboardScreen}
-            startKeyRepeat={startKeyRepeat}
-            stopKeyRepeat={stopKeyRepeat}
-            onVisualPressStart={handleDockedVisualPressStart}
-            onVisualPressEnd={handleDockedVisualPressEnd}
-          />
-          {dockedPressedOverlay && (
-            <div
-              className="floating-keypress-overlay compact-keypress-overlay"
-              style={dockedPressedOverlayStyle}
-              aria-hidden="true"
-            >
-              {dockedPressedOverlay.text}
-            </div>
-          )}
-        </section>
-      )}
-
-      {selectableText !== null &&
-        (() => {
-          const lineCount = selectableText.split("\n").length;
-          return (
-            <section className="copy-sheet" aria-label="Selectable terminal text">
-              <div className="copy-sheet-header">
-                <h2>
-                  Select Text To Copy ({lineCount} line{lineCount === 1 ? "" : "s"})
-                </h2>
-                <div style={{ display: "flex", gap: "6px" }}>
+                ) : (
                   <button
                     type="button"
-                    className="toolbar-button"
-                    onClick={async () => {
-                      try {
-                        const ok = await copyTextToClipboard(selectableText);
-                        if (ok) {
-                          toast.success(`Copied ${lineCount} line${lineCount === 1 ? "" : "s"}.`, { id: "copy" });
-                        } else {
-                          toast.error("Clipboard copy failed.", { id: "copy" });
-                        }
-                      } catch {
-                        toast.error("Clipboard copy failed.", { id: "copy" });
-                      }
-                    }}
+                    className="toolbar-button reconnect-button pointer-only"
+                    onClick={reconnect}
+                    disabled={connectionStatus === "connecting"}
                   >
-                    Copy All
+                    Reconnect
                   </button>
-                  <button type="button" className="toolbar-button" onClick={closeSelectableText}>
-                    Close
+                )}
+                {authEnabled ? (
+                  <button type="button" className="toolbar-button pointer-only logout-button" onClick={handleLogout}>
+                    Log Out
                   </button>
-                </div>
+                ) : null}
               </div>
-              <textarea
-                ref={selectableTextRef}
-                className="copy-sheet-textarea"
-                value={selectableText}
-                readOnly
-                spellCheck={false}
-                autoCapitalize="off"
-                autoCorrect="off"
-                inputMode="none"
-              />
-              <p className="copy-sheet-hint">Use native touch selection handles here, then copy.</p>
-            </section>
-          );
-        })()}
-
-      {pasteHelperText !== null && (
-        <section className="copy-sheet" aria-label="Paste helper">
-          <div className="copy-sheet-header">
-            <h2>Paste Into Terminal</h2>
-            <button type="button" className="toolbar-button" onClick={closePasteHelper}>
-              Close
+            </div>
+          </header>,
+          slots.header,
+        )}
+
+      <div
+        className={`terminal-stage ${
+          connectionStatus === "connected" && (broadcast.targets.length > 0 || broadcast.sources.length > 0)
+            ? "terminal-stage-broadcast"
+            : ""
+        }`}
+      >
+        <div
+          ref={containerRef}
+          className={[
+            "terminal-viewport",
+            horizontalOverflow ? "terminal-viewport-overflow" : "",
+            verticalOverflow ? "terminal-viewport-overflow-y" : "",
+            letterboxed ? "terminal-viewport-letterboxed" : "",
+          ]
+            .filter(Boolean)
+            .join(" ")}
+        />
+
+        {findOpen && (
+          <div className="find-bar" role="search">
+            <input
+              ref={findInputRef}
+              type="text"
+              className="find-bar-input"
+              value={findTerm}
+              onChange={(event) => setFindTerm(event.target.value)}
+              onKeyDown={onFindKeyDown}
+              placeholder={findRegex ? "Regex" : "Find"}
+              aria-label="Find in terminal"
+              spellCheck={false}
+              autoCapitalize="off"
+              autoComplete="off"
+            />
+            <span className="find-bar-count" aria-live="polite">
+              {searchResults
+                ? searchResults.index >= 0
+                  ? `${searchResults.index + 1}/${searchResults.count}`
+                  : `${searchResults.count}+`
+                : findTerm !== "" && "No results"}
+            </span>
+            <button
+              type="button"
+              className={`toolbar-button find-bar-toggle ${findCaseSensitive ? "toolbar-button-active" : ""}`}
+              onClick={() => setFindCaseSensitive(!findCaseSensitive)}
+              aria-pressed={findCaseSensitive}
+              title="Match case"
+            >
+              Aa
+            </button>
+            <button
+              type="button"
+              className={`toolbar-button find-bar-toggle ${findRegex ? "toolbar-button-active" : ""}`}
+              onClick={() => setFindRegex(!findRegex)}
+              aria-pressed={findRegex}
+              title="Regular expression"
+            >
+              .*
+            </button>
+            <button
+              type="button"
+              className="toolbar-button"
+              onClick={() => findPrevious(findTerm, { caseSensitive: findCaseSensitive, regex: findRegex })}
+              disabled={findTerm === ""}
+              title="Previous match (Shift+Enter)"
+              aria-label="Previous match"
+            >
+              ↑
+            </button>
+            <button
+              type="button"
+              className="toolbar-button"
+              onClick={() => findNext(findTerm, { caseSensitive: findCaseSensitive, regex: findRegex })}
+              disabled={findTerm === ""}
+              title="Next match (Enter)"
+              aria-label="Next match"
+            >
+              ↓
             </button>
-          </div>
-          <p className="copy-sheet-hint">Long-press in this field, tap Paste, then Send.</p>
-          <textarea
-            ref={pasteHelperRef}
-            className="copy-sheet-textarea"
-            value={pasteHelperText}
-            onChange={(event) => setPasteHelperText(event.target.value)}
-            spellCheck={false}
-          />
-          <div className="copy-sheet-actions">
             <button
               type="button"
               className="toolbar-button"
-              onClick={submitPasteHelperText}
-              disabled={pasteHelperText.trim().length === 0}
+              onClick={closeFindBar}
+              title="Close (Escape)"
+              aria-label="Close find bar"
             >
-              Send
+              ×
             </button>
           </div>
-        </section>
-      )}
+        )}
 
-      {processesText !== null && (
-        <section className="copy-sheet" aria-label="Processes">
-          <div className="copy-sheet-header">
-            <h2>Processes</h2>
-            <div style={{ display: "flex", gap: "6px" }}>
-              <button type="button" className="toolbar-button" onClick={() => void refreshProcesses()}>
-                Refresh
-              </button>
-              <button type="button" className="toolbar-button" onClick={() => setProcessesText(null)}>
-                Close
-              </button>
+        {awaitingStart ? (
+          hasStoredSession ? (
+            <div
+              className="disconnect-overlay"
+              role="button"
+              tabIndex={0}
+              ref={focusOnMountRef}
+              onClick={resumeSession}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") {
+                  e.preventDefault();
+                  resumeSession();
+                }
+              }}
+            >
+              <div className="disconnect-overlay-text start-overlay-text start-overlay-resume">
+                <span>
+                  <span className="pointer-only">Click or press Enter to</span>
+                  <span className="touch-only">Tap to</span> resume
+                </span>
+              </div>
             </div>
-          </div>
-          <p className="copy-sheet-hint">Child processes of the server.</p>
-          <textarea className="copy-sheet-textarea" value={processesText} readOnly />
-        </section>
-      )}
-      {endSessionConfirmOpen && (
-        <dialog
-          className="settings-dialog-backdrop"
-          open
-          onClick={(e) => {
-            if (e.target === e.currentTarget) setEndSessionConfirmOpen(false);
-          }}
-          onKeyDown={(e) => {
-            if (e.key === "Escape") setEndSessionConfirmOpen(false);
-          }}
-        >
-          <div className="settings-dialog confirm-dialog">
-            <p className="settings-dialog-label">End this session?</p>
-            <p className="copy-sheet-hint">The shell is killed and you return to the start screen.</p>
-            <div className="settings-dialog-options">
-              <button
-                type="button"
-                className="toolbar-button settings-dialog-option"
-                ref={focusOnMountRef}
-                onClick={() => setEndSessionConfirmOpen(false)}
-              >
-                Cancel
+          ) : (
+            <div className="disconnect-overlay start-overlay-static">
+              <div className="disconnect-overlay-text start-overlay-text start-overlay-menu">
+                {startStep === "choice" ? (
+                  <>
+                    <span className="start-overlay-heading">Start a session</span>
+                    {cwdRootsEnabled && (
+                      <label className="start-overlay-cwd">
+                        <span className="start-overlay-cwd-label">in</span>
+                        <input
+                          type="text"
+                          className="start-overlay-ssh-input"
+                          list={`start-overlay-cwd-options-${pane.id}`}
+                          placeholder="default directory"
+                          aria-label="Directory to start in"
+                          autoCapitalize="none"
+                          autoCorrect="off"
+                          spellCheck={false}
+                          value={startDirectoryInput}
+                          onChange={(e) => setStartDirectoryInput(e.target.value)}
+                        />
+                        <datalist id={`start-overlay-cwd-options-${pane.id}`}>
+                          {directorySuggestions.map((dir) => (
+                            <option key={dir} value={dir} />
+                          ))}
+                        </datalist>
+                      </label>
+                    )}
+                    <button
+                      type="button"
+                      className="toolbar-button start-overlay-choice"
+                      ref={focusOnMountRef}
+                      onClick={startLocalShell}
+                    >
+                      Local shell
+                      <code className="start-overlay-command">{formatShellCommand(config?.shellCommand ?? [])}</code>
+                    </button>
+                    {(config?.profiles ?? []).map((p) => (
+                      <button
+                        key={p.id}
+                        type="button"
+                        className="toolbar-button start-overlay-choice start-overlay-profile"
+                        onClick={() => startProfile(p.id)}
+                      >
+                        {p.icon !== null && (
+                          <span className="start-overlay-profile-icon" aria-hidden="true">
+                            {p.icon}
+                          </span>
+                        )}
+                        {p.name}
+                      </button>
+                    ))}
+                    <button
+                      type="button"
+                      className="toolbar-button start-overlay-choice"
+                      onClick={() => setStartStep("ssh")}
+                    >
+                      SSH to another host…
+                    </button>
+                    {runningSessions !== null && runningSessions.length > 0 && (
+                      <>
+                        <span className="start-overlay-heading">Running sessions</span>
+                        {runningSessions.map((summary) => {
+                          const now = Date.now();
+                          const driven = summary.driverAttached;
+                          return (
+                            <div key={summary.sessionId} className="start-overlay-session-row">
+                              <button
+                                type="button"
+                                className="toolbar-button start-overlay-choice start-overlay-session"
+                                onClick={() => attachToRunningSession(summary)}
+                                title={
+                                  driven
+                                    ? "Open on another connection; attaching here disconnects it"
+                                    : "Attach to this session"
+                                }
+                              >
+                                <code className="start-overlay-command">
+                                  {summary.title ?? describeSession(summary)}
+                                </code>
+                                <span className="start-overlay-session-meta">
+                                  {summary.title !== null && `${describeSession(summary)} · `}
+                                  <span
+                                    className={`start-overlay-session-state ${driven ? "start-overlay-session-attached" : ""}`}
+                                  >
+                                    {driven ? "attached elsewhere" : summary.state}
+                                  </span>
+                                  {summary.cwd !== null && ` · in ${abbreviateWorkingDirectory(summary.cwd)}`}
+                                  {summary.viewerCount > 0 && ` · ${summary.viewerCount} watching`}
+                                  {summary.pinned && " · pinned"}
+                                  {summary.reapInMs !== null &&
+                                    ` · ends in ${formatSessionAge(summary.reapInMs)} unless reattached`}
+                                  {` · started ${formatSessionAge(now - summary.createdAt)} ago`}
+                                  {` · active ${formatSessionAge(now - summary.lastActivityAt)} ago`}
+                                </span>
+                                <span className="start-overlay-session-action">{driven ? "Take over" : "Attach"}</span>
+                              </button>
+                              <button
+                                type="button"
+                                className="toolbar-button start-overlay-watch"
+                                onClick={() => attachToRunningSession(summary, "viewer")}
+                                title="Watch read-only without disconnecting anyone"
+                              >
+                                Watch
+                              </button>
+                            </div>
+                          );
+                        })}
+                        <button
+                          type="button"
+                          className="toolbar-button start-overlay-back"
+                          onClick={() => void refreshRunningSessions()}
+                        >
+                          Refresh
+                        </button>
+                      </>
+                    )}
+                  </>
+                ) : (
+                  <>
+                    <span className="start-overlay-heading">SSH to</span>
+                    {(config?.sshHosts ?? []).map((host) => (
+                      <button
+                        key={host}
+                        type="button"
+                        className="toolbar-button start-overlay-choice start-overlay-host"
+                        onClick={() => startSshTo(host)}
+                      >
+                        {host}
+                      </button>
+                    ))}
+                    <form
+                      className="start-overlay-ssh"
+                      onSubmit={(e) => {
+                        e.preventDefault();
+                        startSshTo(sshInput);
+                      }}
+                    >
+                      <input
+                        type="text"
+                        className="start-overlay-ssh-input"
+                        placeholder="user@host[:port] or user@[ipv6]"
+                        aria-label="SSH destination"
+                        autoCapitalize="none"
+                        autoCorrect="off"
+                        spellCheck={false}
+                        value={sshInput}
+                        onChange={(e) => setSshInput(e.target.value)}
+                      />
+                      <button
+                        type="submit"
+                        className="toolbar-button start-overlay-ssh-button"
+                        disabled={sshInput.trim().length === 0}
+                      >
+                        Connect
+                      </button>
+                    </form>
+                    <button
+                      type="button"
+                      className="toolbar-button start-overlay-back"
+                      onClick={() => setStartStep("choice")}
+                    >
+                      ← Back
+                    </button>
+                  </>
+                )}
+              </div>
+            </div>
+          )
+        ) : takenOver ? (
+          <div
+            className="disconnect-overlay"
+            role="button"
+            tabIndex={0}
+            onClick={() => reconnect()}
+            onKeyDown={(e) => {
+              if (e.key === " " || e.key === "Enter") {
+                e.preventDefault();
+                reconnect();
+              }
+            }}
+          >
+            <p className="disconnect-overlay-text start-overlay-text start-overlay-resume">
+              <span>This session was opened on another connection.</span>
+              <span>
+                <span className="pointer-only">Click or press Space to</span>
+                <span className="touch-only">Tap to</span> take it back
+              </span>
+            </p>
+          </div>
+        ) : archivedSession ? (
+          <div className="archived-banner" role="status">
+            <span className="archived-banner-text">
+              Session ended by a server restart. Showing its last screen
+              {` (saved ${formatSessionAge(Date.now() - archivedSession.savedAt)} ago): `}
+              <code>{describeSession(archivedSession)}</code>
+            </span>
+            <span className="archived-banner-actions">
+              <button type="button" className="toolbar-button" onClick={() => void openSelectableRecentText()}>
+                Copy Output
               </button>
-              <button type="button" className="toolbar-button settings-dialog-option" onClick={confirmEndSession}>
-                End Session
+              <button type="button" className="toolbar-button" onClick={endSession}>
+                New Session
               </button>
-            </div>
+            </span>
           </div>
-        </dialog>
-      )}
-      {infoDialogOpen && (
-        <dialog
-          className="settings-dialog-backdrop"
-          open
-          onClick={(e) => {
-            if (e.target === e.currentTarget) setInfoDialogOpen(false);
-          }}
-          onKeyDown={(e) => {
-            if (e.key === "Escape") setInfoDialogOpen(false);
-          }}
-        >
-          <div className="info-dialog">
-            <p className="info-dialog-title">{appTitle}</p>
-            <p className="info-tagline">
-              Powered by {DEFAULT_APP_TITLE}
-              {config?.version ? ` ${config.version}` : ""}
-            </p>
-            <div className="info-details">
-              <div className="info-detail-row">
-                <span className="info-detail-label">Status</span>
-                <span className="info-detail-value">
-                  <span className={`info-status-indicator status-${connectionStatus}`} />
-                  {connectionStatus}
-                </span>
-              </div>
-              <div className="info-detail-row">
-                <span className="info-detail-label">WebSocket</span>
-                <span className="info-detail-value info-detail-mono">{config?.wsUrl ?? "—"}</span>
-              </div>
+        ) : (
+          connectionStatus !== "connected" &&
+          (connectionStatus === "connecting" ? (
+            <div className="disconnect-overlay">
+              <p className="disconnect-overlay-text disconnect-overlay-connecting">Connecting...</p>
+            </div>
+          ) : (
+            <div
+              className="disconnect-overlay"
+              role="button"
+              tabIndex={0}
+              onClick={() => reconnect()}
+              onKeyDown={(e) => {
+                if (e.key === " " || e.key === "Enter") {
+                  e.preventDefault();
+                  reconnect();
+                }
+              }}
+            >
+              <p className="disconnect-overlay-text">
+                <span className="pointer-only">Click or press Space to</span>
+                <span className="touch-only">Tap to</span> reconnect
+              </p>
+            </div>
+          ))
+        )}
+
+        {horizontalOverflow && (
+          <div className="custom-scrollbar">
+            <div className="custom-scrollbar-track" ref={scrollbarTrackRef}>
+              <div
+                className="custom-scrollbar-thumb"
+                ref={scrollbarThumbRef}
+                onPointerDown={handleScrollbarPointerDown}
+                onPointerMove={handleScrollbarPointerMove}
+                onPointerUp={handleScrollbarPointerUp}
+                onPointerCancel={handleScrollbarPointerUp}
+                onLostPointerCapture={handleScrollbarPointerUp}
+              />
             </div>
-            <button type="button" className="toolbar-button" onClick={() => setInfoDialogOpen(false)}>
-              Close
-            </button>
           </div>
-        </dialog>
-      )}
-      {fontSizeMenuOpen && (
-        <dialog
-          className="settings-dialog-backdrop"
-          open
-          onClick={(e) => {
-            if (e.target === e.currentTarget) closeFontSizeMenu();
-          }}
-          onKeyDown={(e) => {
-            if (e.key === "Escape") closeFontSizeMenu();
-          }}
-        >
-          <div className="settings-dialog">
-            <p className="settings-dialog-label">Font Size</p>
-            <div className="settings-dialog-options">
+        )}
+      </div>
+
+      {slots &&
+        createPortal(
+          <>
+            {showFloatingSoftKeyboard && (
+              <section
+                className="extra-keys-panel extra-keys-floating"
+                role="group"
+                aria-label="Soft keyboard"
+                ref={floatingKeyboardRef}
+                style={floatingKeyboardStyle}
+              >
+                <div className="extra-keys-floating-toolbar">
+                  <div className="extra-keys-floating-toolbar-spacer" />
+                  <button
+                    type="button"
+                    className="extra-keys-floating-drag-handle"
+                    aria-label="Drag soft keyboard"
+                    onPointerDown={startFloatingKeyboardDrag}
+                  >
+                    ⠿
+                  </button>
+                  <button
+                    type="button"
+                    className="extra-keys-floating-close"
+                    aria-label="Close soft keyboard"
+                    onClick={() => {
+                      if (!floatingKeyboardDragRef.current) {
+                        setSoftKeysOpen(false);
+                        focusTerminalInput();
+                      }
+                    }}
+                  >
+                    ✕
+                  </button>
+                </div>
+                <DesktopPcKeyboardGrid
+                  softKeyModifiers={softKeyModifiers}
+                  toggleSoftModifier={toggleSoftModifier}
+                  startKeyRepeat={startKeyRepeat}
+                  stopKeyRepeat={stopKeyRepeat}
+                  onVisualPressStart={handleFloatingVisualPressStart}
+                  onVisualPressEnd={handleFloatingVisualPressEnd}
+                />
+              </section>
+            )}
+
+            {showFloatingSoftKeyboard && floatingPressedOverlay && (
+              <div className="floating-keypress-overlay" style={floatingPressedOverlayStyle} aria-hidden="true">
+                {floatingPressedOverlay.text}
+              </div>
+            )}
+
+            {showDesktopSoftKeyboardCollapsedToggle && (
               <button
                 type="button"
-                className={`toolbar-button settings-dialog-option ${fontSize === undefined ? "toolbar-button-active" : ""}`}
+                className="arrow-overlay arrow-overlay-collapsed soft-keys-collapsed-desktop-toggle"
+                aria-label="Show soft keyboard"
+                ref={arrowOverlayRef as React.RefObject<HTMLButtonElement>}
+                style={desktopSoftKeyboardToggleStyle}
+                onPointerDown={startArrowOverlayDrag}
                 onClick={() => {
-                  setFontSize(undefined);
-                  closeFontSizeMenu();
+                  if (!arrowOverlayDragMovedRef.current) {
+                    setSoftKeysOpen(true);
+                    blurTerminalInput();
+                  }
                 }}
               >
-                Auto
+                <span className="arrow-overlay-collapsed-icon soft-keys-collapsed-desktop-icon" aria-hidden="true">
+                  ⌨︎
+                </span>
               </button>
-              {[10, 12, 14, 16].map((size) => (
+            )}
+
+            {showArrowOverlay &&
+              (arrowOverlayEnabled ? (
+                <div
+                  className="arrow-overlay"
+                  role="group"
+                  aria-label="Arrow controls"
+                  ref={arrowOverlayRef as React.RefObject<HTMLDivElement>}
+                  style={arrowOverlayStyle}
+                >
+                  <div className="arrow-overlay-toolbar">
+                    <div className="arrow-overlay-toolbar-spacer" />
+                    <button
+                      type="button"
+                      className="arrow-overlay-drag-handle"
+                      aria-label="Drag arrow controls"
+                      onPointerDown={startArrowOverlayDrag}
+                    >
+                      ⠿
+                    </button>
+                    <button
+                      type="button"
+                      className="arrow-overlay-close"
+                      aria-label="Close arrow controls"
+                      onClick={() => {
+                        if (!arrowOverlayDragRef.current) {
+                          setArrowOverlayEnabled(false);
+                        }
+                      }}
+                    >
+                      ✕
+                    </button>
+                  </div>
+                  <div className="arrow-overlay-grid">
+                    <div className="arrow-overlay-spacer" />
+                    <ArrowKeyButton
+                      softKey={OVERLAY_ARROW_UP}
+                      ariaLabel="Arrow Up"
+                      startKeyRepeat={startKeyRepeat}
+                      stopKeyRepeat={stopKeyRepeat}
+                    />
+                    <div className="arrow-overlay-spacer" />
+                    <ArrowKeyButton
+                      softKey={OVERLAY_ARROW_LEFT}
+                      ariaLabel="Arrow Left"
+                      startKeyRepeat={startKeyRepeat}
+                      stopKeyRepeat={stopKeyRepeat}
+                    />
+                    <ArrowKeyButton
+                      softKey={OVERLAY_ARROW_DOWN}
+                      ariaLabel="Arrow Down"
+                      startKeyRepeat={startKeyRepeat}
+                      stopKeyRepeat={stopKeyRepeat}
+                    />
+                    <ArrowKeyButton
+                      softKey={OVERLAY_ARROW_RIGHT}
+                      ariaLabel="Arrow Right"
+                      startKeyRepeat={startKeyRepeat}
+                      stopKeyRepeat={stopKeyRepeat}
+                    />
+                  </div>
+                </div>
+              ) : (
                 <button
-                  key={size}
                   type="button"
-                  className={`toolbar-button settings-dialog-option ${fontSize === size ? "toolbar-button-active" : ""}`}
+                  className="arrow-overlay arrow-overlay-collapsed"
+                  aria-label="Show arrow controls"
+                  ref={arrowOverlayRef as React.RefObject<HTMLButtonElement>}
+                  style={arrowOverlayStyle}
+                  onPointerDown={startArrowOverlayDrag}
                   onClick={() => {
-                    setFontSize(size);
-                    closeFontSizeMenu();
+                    if (!arrowOverlayDragMovedRef.current) {
+                      setArrowOverlayEnabled(true);
+                    }
                   }}
                 >
-                  {size}
+                  <span className="arrow-overlay-collapsed-icon" aria-hidden="true">
+                    ✥
+                  </span>
                 </button>
               ))}
-            </div>
-          </div>
-        </dialog>
-      )}
-      {minColumnsMenuOpen && (
-        <dialog
-          className="settings-dialog-backdrop"
-          open
-          onClick={(e) => {
-            if (e.target === e.currentTarget) closeMinColumnsMenu();
-          }}
-          onKeyDown={(e) => {
-            if (e.key === "Escape") closeMinColumnsMenu();
-          }}
-        >
-          <div className="settings-dialog">
-            <p className="settings-dialog-label">Min Columns</p>
-            <div className="settings-dialog-options">
-              <button
-                type="button"
-                className={`toolbar-button settings-dialog-option ${minColumns === undefined ? "toolbar-button-active" : ""}`}
-                onClick={() => {
-                  setMinColumns(undefined);
-                  closeMinColumnsMenu();
+          </>,
+          slots.overlays,
+        )}
+
+      {slots &&
+        createPortal(
+          <>
+            {showDockedSoftKeyboard && (
+              <section
+                className="extra-keys-panel extra-keys-docked"
+                aria-label="Extra key controls"
+                ref={dockedKeyboardPanelRef}
+              >
+                <MobileSoftKeyboardGrid
+                  keyboardScreen={keyboardScreen}
+                  softKeyModifiers={softKeyModifiers}
+                  toggleSoftModifier={toggleSoftModifier}
+                  toggleKeyboardScreen={toggleKeyboardScreen}
+                  startKeyRepeat={startKeyRepeat}
+                  stopKeyRepeat={stopKeyRepeat}
+                  onVisualPressStart={handleDockedVisualPressStart}
+                  onVisualPressEnd={handleDockedVisualPressEnd}
+                />
+                {dockedPressedOverlay && (
+                  <div
+                    className="floating-keypress-overlay compact-keypress-overlay"
+                    style={dockedPressedOverlayStyle}
+                    aria-hidden="true"
+                  >
+                    {dockedPressedOverlay.text}
+                  </div>
+                )}
+              </section>
+            )}
+
+            {selectableText !== null &&
+              (() => {
+                const lineCount = selectableText.split("\n").length;
+                return (
+                  <section className="copy-sheet" aria-label="Selectable terminal text">
+                    <div className="copy-sheet-header">
+                      <h2>
+                        Select Text To Copy ({lineCount} line{lineCount === 1 ? "" : "s"})
+                      </h2>
+                      <div style={{ display: "flex", gap: "6px" }}>
+                        <button
+                          type="button"
+                          className="toolbar-button"
+                          onClick={async () => {
+                            try {
+                              const ok = await copyTextToClipboard(selectableText);
+                              if (ok) {
+                                toast.success(`Copied ${lineCount} line${lineCount === 1 ? "" : "s"}.`, { id: "copy" });
+                              } else {
+                                toast.error("Clipboard copy failed.", { id: "copy" });
+                              }
+                            } catch {
+                              toast.error("Clipboard copy failed.", { id: "copy" });
+                            }
+                          }}
+                        >
+                          Copy All
+                        </button>
+                        <button type="button" className="toolbar-button" onClick={closeSelectableText}>
+                          Close
+                        </button>
+                      </div>
+                    </div>
+                    <textarea
+                      ref={selectableTextRef}
+                      className="copy-sheet-textarea"
+                      value={selectableText}
+                      readOnly
+                      spellCheck={false}
+                      autoCapitalize="off"
+                      autoCorrect="off"
+                      inputMode="none"
+                    />
+                    <p className="copy-sheet-hint">Use native touch selection handles here, then copy.</p>
+                  </section>
+                );
+              })()}
+
+            {pasteHelperText !== null && (
+              <section className="copy-sheet" aria-label="Paste helper">
+                <div className="copy-sheet-header">
+                  <h2>Paste Into Terminal</h2>
+                  <button type="button" className="toolbar-button" onClick={closePasteHelper}>
+                    Close
+                  </button>
+                </div>
+                <p className="copy-sheet-hint">Long-press in this field, tap Paste, then Send.</p>
+                <textarea
+                  ref={pasteHelperRef}
+                  className="copy-sheet-textarea"
+                  value={pasteHelperText}
+                  onChange={(event) => setPasteHelperText(event.target.value)}
+                  spellCheck={false}
+                />
+                <div className="copy-sheet-actions">
+                  <button
+                    type="button"
+                    className="toolbar-button"
+                    onClick={submitPasteHelperText}
+                    disabled={pasteHelperText.trim().length === 0}
+                  >
+                    Send
+                  </button>
+                </div>
+              </section>
+            )}
+
+            {processesText !== null && (
+              <section className="copy-sheet" aria-label="Processes">
+                <div className="copy-sheet-header">
+                  <h2>Processes</h2>
+                  <div style={{ display: "flex", gap: "6px" }}>
+                    <button type="button" className="toolbar-button" onClick={() => void refreshProcesses()}>
+                      Refresh
+                    </button>
+                    <button type="button" className="toolbar-button" onClick={() => setProcessesText(null)}>
+                      Close
+                    </button>
+                  </div>
+                </div>
+                <p className="copy-sheet-hint">Child processes of the server.</p>
+                <textarea className="copy-sheet-textarea" value={processesText} readOnly />
+              </section>
+            )}
+            {endSessionConfirmOpen && (
+              <dialog
+                className="settings-dialog-backdrop"
+                open
+                onClick={(e) => {
+                  if (e.target === e.currentTarget) setEndSessionConfirmOpen(false);
+                }}
+                onKeyDown={(e) => {
+                  if (e.key === "Escape") setEndSessionConfirmOpen(false);
                 }}
               >
-                Default ({DEFAULT_MIN_COLUMNS})
-              </button>
-              {MIN_COLUMNS_OPTIONS.map((columns) => (
-                <button
-                  key={columns}
-                  type="button"
-                  className={`toolbar-button settings-dialog-option ${minColumns === columns ? "toolbar-button-active" : ""}`}
-                  onClick={() => {
-                    setMinColumns(columns);
-                    closeMinColumnsMenu();
-                  }}
-                >
-                  {columns}
-                </button>
-              ))}
-            </div>
-          </div>
-        </dialog>
-      )}
-      <Toaster position="top-right" theme="dark" duration={3000} />
-    </div>
+                <div className="settings-dialog confirm-dialog">
+                  <p className="settings-dialog-label">End this session?</p>
+                  <p className="copy-sheet-hint">The shell is killed and you return to the start screen.</p>
+                  <div className="settings-dialog-options">
+                    <button
+                      type="button"
+                      className="toolbar-button settings-dialog-option"
+                      ref={focusOnMountRef}
+                      onClick={() => setEndSessionConfirmOpen(false)}
+                    >
+                      Cancel
+                    </button>
+                    <button type="button" className="toolbar-button settings-dialog-option" onClick={confirmEndSession}>
+                      End Session
+                    </button>
+                  </div>
+                </div>
+              </dialog>
+            )}
+            {infoDialogOpen && (
+              <dialog
+                className="settings-dialog-backdrop"
+                open
+                onClick={(e) => {
+                  if (e.target === e.currentTarget) setInfoDialogOpen(false);
+                }}
+                onKeyDown={(e) => {
+                  if (e.key === "Escape") setInfoDialogOpen(false);
+                }}
+              >
+                <div className="info-dialog">
+                  <p className="info-dialog-title">{appTitle}</p>
+                  <p className="info-tagline">
+                    Powered by {DEFAULT_APP_TITLE}
+                    {config?.version ? ` ${config.version}` : ""}
+                  </p>
+                  <div className="info-details">
+                    <div className="info-detail-row">
+                      <span className="info-detail-label">Status</span>
+                      <span className="info-detail-value">
+                        <span className={`info-status-indicator status-${connectionStatus}`} />
+                        {connectionStatus}
+                      </span>
+                    </div>
+                    <div className="info-detail-row">
+                      <span className="info-detail-label">WebSocket</span>
+                      <span className="info-detail-value info-detail-mono">{config?.wsUrl ?? "—"}</span>
+                    </div>
+                    {environment !== null && (
+                      <>
+                        <div className="info-detail-row">
+                          <span className="info-detail-label">TERM</span>
+                          <span className="info-detail-value info-detail-mono">{environment.term}</span>
+                        </div>
+                        {Object.keys(environment.set).length > 0 && (
+                          <div className="info-detail-row info-detail-row-top">
+                            <span className="info-detail-label">Variables</span>
+                            <span className="info-detail-value info-detail-mono info-detail-list">
+                              {Object.entries(environment.set).map(([name, value]) => (
+                                <span key={name}>
+                                  {name}={value}
+                                </span>
+                              ))}
+                            </span>
+                          </div>
+                        )}
+                        {environment.unset.length > 0 && (
+                          <div className="info-detail-row">
+                            <span className="info-detail-label">Unset</span>
+                            <span className="info-detail-value info-detail-mono">{environment.unset.join(" ")}</span>
+                          </div>
+                        )}
+                      </>
+                    )}
+                  </div>
+                  <button type="button" className="toolbar-button" onClick={() => setInfoDialogOpen(false)}>
+                    Close
+                  </button>
+                </div>
+              </dialog>
+            )}
+            {fontSizeMenuOpen && (
+              <dialog
+                className="settings-dialog-backdrop"
+                open
+                onClick={(e) => {
+                  if (e.target === e.currentTarget) closeFontSizeMenu();
+                }}
+                onKeyDown={(e) => {
+                  if (e.key === "Escape") closeFontSizeMenu();
+                }}
+              >
+                <div className="settings-dialog">
+                  <p className="settings-dialog-label">Font Size</p>
+                  <div className="settings-dialog-options">
+                    <button
+                      type="button"
+                      className={`toolbar-button settings-dialog-option ${devicePreferences.fontSize === undefined ? "toolbar-button-active" : ""}`}
+                      onClick={() => {
+                        setDevicePreference("fontSize", undefined);
+                        closeFontSizeMenu();
+                      }}
+                    >
+                      {serverPreferences.fontSize === undefined ? "Auto" : `Default (${serverPreferences.fontSize})`}
+                    </button>
+                    {[10, 12, 14, 16].map((size) => (
+                      <button
+                        key={size}
+                        type="button"
+                        className={`toolbar-button settings-dialog-option ${devicePreferences.fontSize === size ? "toolbar-button-active" : ""}`}
+                        onClick={() => {
+                          setDevicePreference("fontSize", size);
+                          closeFontSizeMenu();
+                        }}
+                      >
+                        {size}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              </dialog>
+            )}
+            {minColumnsMenuOpen && (
+              <dialog
+                className="settings-dialog-backdrop"
+                open
+                onClick={(e) => {
+                  if (e.target === e.currentTarget) closeMinColumnsMenu();
+                }}
+                onKeyDown={(e) => {
+                  if (e.key === "Escape") closeMinColumnsMenu();
+                }}
+              >
+                <div className="settings-dialog">
+                  <p className="settings-dialog-label">Min Columns</p>
+                  <div className="settings-dialog-options">
+                    <button
+                      type="button"
+                      className={`toolbar-button settings-dialog-option ${devicePreferences.minColumns === undefined ? "toolbar-button-active" : ""}`}
+                      onClick={() => {
+                        setDevicePreference("minColumns", undefined);
+                        closeMinColumnsMenu();
+                      }}
+                    >
+                      Default ({serverPreferences.minColumns ?? DEFAULT_MIN_COLUMNS})
+                    </button>
+                    {MIN_COLUMNS_OPTIONS.map((columns) => (
+                      <button
+                        key={columns}
+                        type="button"
+                        className={`toolbar-button settings-dialog-option ${devicePreferences.minColumns === columns ? "toolbar-button-active" : ""}`}
+                        onClick={() => {
+                          setDevicePreference("minColumns", columns);
+                          closeMinColumnsMenu();
+                        }}
+                      >
+                        {columns}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              </dialog>
+            )}
+            {appearanceMenuOpen && (
+              <dialog
+                className="settings-dialog-backdrop"
+                open
+                onClick={(e) => {
+                  if (e.target === e.currentTarget) setAppearanceMenuOpen(false);
+                }}
+                onKeyDown={(e) => {
+                  if (e.key === "Escape") setAppearanceMenuOpen(false);
+                }}
+              >
+                <div className="settings-dialog">
+                  <p className="settings-dialog-label">Theme</p>
+                  <div className="settings-dialog-options">
+                    {[undefined, ...THEME_NAMES].map((theme) => (
+                      <button
+                        key={theme ?? "default"}
+                        type="button"
+                        className={`toolbar-button settings-dialog-option ${devicePreferences.theme === theme ? "toolbar-button-active" : ""}`}
+                        onClick={() => setDevicePreference("theme", theme)}
+                      >
+                        {theme === undefined
+                          ? `Default (${THEME_LABELS[serverPreferences.theme ?? "dark"]})`
+                          : THEME_LABELS[theme]}
+                      </button>
+                    ))}
+                  </div>
+                  <p className="settings-dialog-label">Cursor</p>
+                  <div className="settings-dialog-options">
+                    {[undefined, ...CURSOR_STYLES].map((cursorStyle) => (
+                      <button
+                        key={cursorStyle ?? "default"}
+                        type="button"
+                        className={`toolbar-button settings-dialog-option ${devicePreferences.cursorStyle === cursorStyle ? "toolbar-button-active" : ""}`}
+                        onClick={() => setDevicePreference("cursorStyle", cursorStyle)}
+                      >
+                        {cursorStyle === undefined
+                          ? `Default (${CURSOR_STYLE_LABELS[serverPreferences.cursorStyle ?? "block"]})`
+                          : CURSOR_STYLE_LABELS[cursorStyle]}
+                      </button>
+                    ))}
+                  </div>
+                  <p className="settings-dialog-label">Bell</p>
+                  <div className="settings-dialog-options">
+                    {[undefined, ...BELL_MODES].map((bell) => (
+                      <button
+                        key={bell ?? "default"}
+                        type="button"
+                        className={`toolbar-button settings-dialog-option ${devicePreferences.bell === bell ? "toolbar-button-active" : ""}`}
+                        onClick={() => setDevicePreference("bell", bell)}
+                      >
+                        {bell === undefined
+                          ? `Default (${BELL_MODE_LABELS[serverPreferences.bell ?? "notify"]})`
+                          : BELL_MODE_LABELS[bell]}
+                      </button>
+                    ))}
+                  </div>
+                  <button type="button" className="toolbar-button" onClick={() => setAppearanceMenuOpen(false)}>
+                    Close
+                  </button>
+                </div>
+              </dialog>
+            )}
+            {monitorMenuOpen && (
+              <dialog
+                className="settings-dialog-backdrop"
+                open
+                onClick={(e) => {
+                  if (e.target === e.currentTarget) setMonitorMenuOpen(false);
+                }}
+                onKeyDown={(e) => {
+                  if (e.key === "Escape") setMonitorMenuOpen(false);
+                }}
+              >
+                <div className="settings-dialog">
+                  <p className="settings-dialog-label">Alert on Activity</p>
+                  <div className="settings-dialog-options">
+                    {[false, true].map((activity) => (
+                      <button
+                        key={String(activity)}
+                        type="button"
+                        className={`toolbar-button settings-dialog-option ${monitor.activity === activity ? "toolbar-button-active" : ""}`}
+                        onClick={() => setMonitor({ ...monitor, activity })}
+                      >
+                        {activity ? "On" : "Off"}
+                      </button>
+                    ))}
+                  </div>
+                  <p className="settings-dialog-label">Alert on Silence</p>
+                  <div className="settings-dialog-options">
+                    {[null, ...SILENCE_SECONDS_OPTIONS].map((silenceSeconds) => (
+                      <button
+                        key={String(silenceSeconds)}
+                        type="button"
+                        className={`toolbar-button settings-dialog-option ${monitor.silenceSeconds === silenceSeconds ? "toolbar-button-active" : ""}`}
+                        onClick={() => setMonitor({ ...monitor, silenceSeconds })}
+                      >
+                        {silenceSeconds === null ? "Off" : formatDuration(silenceSeconds * 1000)}
+                      </button>
+                    ))}
+                  </div>
+                  <button type="button" className="toolbar-button" onClick={() => setMonitorMenuOpen(false)}>
+                    Close
+                  </button>
+                </div>
+              </dialog>
+            )}
+            {broadcastCandidates !== null && (
+              <dialog
+                className="settings-dialog-backdrop"
+                open
+                onClick={(e) => {
+                  if (e.target === e.currentTarget) setBroadcastCandidates(null);
+                }}
+                onKeyDown={(e) => {
+                  if (e.key === "Escape") setBroadcastCandidates(null);
+                }}
+              >
+                <div className="settings-dialog broadcast-dialog">
+                  <p className="settings-dialog-label">Synchronize Input</p>
+                  <p className="broadcast-dialog-hint">
+                    Keystrokes and pastes in this terminal also go to the sessions ticked here.
+                  </p>
+                  {broadcastCandidates.length === 0 ? (
+                    <p className="broadcast-dialog-hint">No other sessions are running.</p>
+                  ) : (
+                    <div className="broadcast-dialog-sessions">
+                      {broadcastCandidates.map((summary) => (
+                        <label key={summary.sessionId} className="broadcast-dialog-session">
+                          <input
+                            type="checkbox"
+                            checked={broadcastSelection.includes(summary.sessionId)}
+                            onChange={(e) => {
+                              const { checked } = e.target;
+                              setBroadcastSelection((previous) =>
+                                checked
+                                  ? [...previous, summary.sessionId]
+                                  : previous.filter((id) => id !== summary.sessionId),
+                              );
+                            }}
+                          />
+                          <code>{summary.title ?? describeSession(summary)}</code>
+                          {summary.cwd !== null && (
+                            <span className="broadcast-dialog-meta">{abbreviateWorkingDirectory(summary.cwd)}</span>
+                          )}
+                        </label>
+                      ))}
+                    </div>
+                  )}
+                  <div className="settings-dialog-options">
+                    {broadcastCandidates.length > 1 && (
+                      <button
+                        type="button"
+                        className="toolbar-button settings-dialog-option"
+                        onClick={() =>
+                          setBroadcastSelection(
+                            broadcastSelection.length === broadcastCandidates.length
+                              ? []
+                              : broadcastCandidates.map((summary) => summary.sessionId),
+                          )
+                        }
+                      >
+                        {broadcastSelection.length === broadcastCandidates.length ? "None" : "All"}
+                      </button>
+                    )}
+                    <button
+                      type="button"
+                      className="toolbar-button settings-dialog-option toolbar-button-active"
+                      disabled={broadcastSelection.length === 0}
+                      onClick={() => applyBroadcast(broadcastSelection)}
+                    >
+                      Synchronize
+                    </button>
+                    {broadcast.targets.length > 0 && (
+                      <button
+                        type="button"
+                        className="toolbar-button settings-dialog-option"
+                        onClick={() => applyBroadcast([])}
+                      >
+                        Stop
+                      </button>
+                    )}
+                  </div>
+                  <button type="button" className="toolbar-button" onClick={() => setBroadcastCandidates(null)}>
+                    Close
+                  </button>
+                </div>
+              </dialog>
+            )}
+          </>,
+          slots.footer,
+        )}
+    </div>
+  );
+}
+
+interface TerminalTabPanelProps {
+  tab: TerminalTab;
+  // The tab on show; the others stay mounted (and connected) but hidden
+  active: boolean;
+  config: TtyConfig | null;
+  serverPreferences: TerminalPreferences;
+  devicePreferences: TerminalPreferences;
+  onServerPreferencesChange: (preferences: TerminalPreferences) => void;
+  setDevicePreference: <K extends keyof TerminalPreferences>(key: K, value: TerminalPreferences[K]) => void;
+  onPaneChange: (tabId: string, paneId: string, change: Partial<TerminalPane>) => void;
+  onTitleChange: (paneId: string, title: string | null) => void;
+  onFocusPane: (tabId: string, paneId: string) => void;
+  onSplit: (tabId: string, direction: SplitDirection) => void;
+  onClosePane: (tabId: string, paneId: string) => void;
+  onResizeSplit: (tabId: string, splitId: string, ratio: number) => void;
+  onNewTab: () => void;
+  onResetLayout: () => void;
+  // Rendered under the top bar while there is more than one tab
+  tabStrip: ReactNode;
+}
+
+const PANE_SWIPE_MIN_PX = 60;
+// Touches that scroll or type rather than switch panes
+const PANE_SWIPE_IGNORE_SELECTOR = ".terminal-viewport-overflow, .arrow-overlay, .extra-keys-panel";
+
+function TerminalTabPanel({
+  tab,
+  active,
+  config,
+  serverPreferences,
+  devicePreferences,
+  onServerPreferencesChange,
+  setDevicePreference,
+  onPaneChange,
+  onTitleChange,
+  onFocusPane,
+  onSplit,
+  onClosePane,
+  onResizeSplit,
+  onNewTab,
+  onResetLayout,
+  tabStrip,
+}: TerminalTabPanelProps) {
+  const appShellRef = useRef<HTMLDivElement>(null);
+  const paneGridRef = useRef<HTMLDivElement>(null);
+  const [headerSlot, setHeaderSlot] = useState<HTMLElement | null>(null);
+  const [stageSlot, setStageSlot] = useState<HTMLDivElement | null>(null);
+  const [overlaysSlot, setOverlaysSlot] = useState<HTMLElement | null>(null);
+  const [footerSlot, setFooterSlot] = useState<HTMLElement | null>(null);
+  const slots = useMemo<PaneSlots | null>(
+    () =>
+      headerSlot && stageSlot && overlaysSlot && footerSlot
+        ? { header: headerSlot, stage: stageSlot, overlays: overlaysSlot, footer: footerSlot }
+        : null,
+    [headerSlot, stageSlot, overlaysSlot, footerSlot],
+  );
+  // Phones show one pane at a time, swiping between them
+  const [stacked, setStacked] = useState(() => window.matchMedia(MOBILE_VIEWPORT_QUERY).matches);
+  const swipeStartRef = useRef<{ x: number; y: number } | null>(null);
+
+  useEffect(() => {
+    const mql = window.matchMedia(MOBILE_VIEWPORT_QUERY);
+    const onChange = (e: MediaQueryListEvent) => setStacked(e.matches);
+    mql.addEventListener("change", onChange);
+    return () => mql.removeEventListener("change", onChange);
+  }, []);
+
+  useEffect(() => {
+    const syncViewportLayout = () => {
+      const shell = appShellRef.current;
+      if (!shell) {
+        return;
+      }
+      const vv = window.visualViewport;
+      if (!vv) {
+        shell.style.removeProperty("height");
+        shell.style.setProperty("--viewport-bottom-compensation", "0px");
+        return;
+      }
+
+      const layoutHeight = document.documentElement.clientHeight;
+      const visibleBottom = vv.offsetTop + vv.height;
+      const bottomClip = Math.max(0, layoutHeight - visibleBottom);
+      const boundedBottomClip = Math.min(96, Math.round(bottomClip));
+      // `layoutHeight - vv.height` around 50-100px is usually address-bar/chrome collapse, while software keyboards are >200px;
+      // only in the small-reduction case do we pass `boundedBottomClip` to `shell.style.setProperty(...)` below.
+      const shouldApplyBottomCompensation = layoutHeight - vv.height <= 120;
+
+      shell.style.height = `${vv.height}px`;
+      shell.style.setProperty(
+        "--viewport-bottom-compensation",
+        `${shouldApplyBottomCompensation ? boundedBottomClip : 0}px`,
+      );
+    };
+
+    const onResize = () => {
+      syncViewportLayout();
+      window.scrollTo(0, 0);
+    };
+
+    syncViewportLayout();
+
+    const vv = window.visualViewport;
+    if (!vv) {
+      return;
+    }
+    vv.addEventListener("resize", onResize);
+    vv.addEventListener("scroll", syncViewportLayout);
+    window.addEventListener("orientationchange", onResize);
+    return () => {
+      vv.removeEventListener("resize", onResize);
+      vv.removeEventListener("scroll", syncViewportLayout);
+      window.removeEventListener("orientationchange", onResize);
+    };
+  }, []);
+
+  const panes = listPanes(tab.layout);
+  const { panes: placements, dividers } = useMemo(() => placePanes(tab.layout), [tab.layout]);
+  const focusedIndex = panes.findIndex((pane) => pane.id === tab.focusedPaneId);
+  const handlePaneChange = useCallback(
+    (paneId: string, change: Partial<TerminalPane>) => onPaneChange(tab.id, paneId, change),
+    [onPaneChange, tab.id],
+  );
+  const handleFocus = useCallback((paneId: string) => onFocusPane(tab.id, paneId), [onFocusPane, tab.id]);
+  const handleSplit = useCallback((direction: SplitDirection) => onSplit(tab.id, direction), [onSplit, tab.id]);
+  const handleClosePane = useCallback((paneId: string) => onClosePane(tab.id, paneId), [onClosePane, tab.id]);
+
+  const paneStyle = (paneId: string): CSSProperties => {
+    if (stacked) {
+      const offset = panes.findIndex((pane) => pane.id === paneId) - focusedIndex;
+      return { left: `${offset * 100}%`, top: 0, width: "100%", height: "100%" };
+    }
+    const rect = placements.find((placement) => placement.id === paneId)?.rect;
+    if (!rect) return {};
+    return {
+      left: `${rect.left * 100}%`,
+      top: `${rect.top * 100}%`,
+      width: `${rect.width * 100}%`,
+      height: `${rect.height * 100}%`,
+    };
+  };
+
+  const handleTouchStart = (event: ReactTouchEvent<HTMLDivElement>) => {
+    const touch = event.touches[0];
+    const target = event.target as Element;
+    swipeStartRef.current =
+      stacked && panes.length > 1 && event.touches.length === 1 && touch && !target.closest(PANE_SWIPE_IGNORE_SELECTOR)
+        ? { x: touch.clientX, y: touch.clientY }
+        : null;
+  };
+
+  const handleTouchEnd = (event: ReactTouchEvent<HTMLDivElement>) => {
+    const start = swipeStartRef.current;
+    const touch = event.changedTouches[0];
+    swipeStartRef.current = null;
+    if (!start || !touch) return;
+    const dx = touch.clientX - start.x;
+    const dy = touch.clientY - start.y;
+    if (Math.abs(dx) < PANE_SWIPE_MIN_PX || Math.abs(dx) < 2 * Math.abs(dy)) return;
+    const next = panes[focusedIndex + (dx < 0 ? 1 : -1)];
+    if (next) handleFocus(next.id);
+  };
+
+  // Panes render in a fixed order (by id) so splitting or closing one never
+  // moves another's DOM.
+  const ordered = [...panes].sort((a, b) => (a.id < b.id ? -1 : 1));
+  return (
+    <div className={`app-shell ${tabStrip ? "app-shell-tabbed" : ""}`} ref={appShellRef} hidden={!active}>
+      <div className="app-shell-slot" ref={setHeaderSlot} />
+
+      {tabStrip}
+
+      <main className="terminal-card">
+        <div className="terminal-stage" ref={setStageSlot}>
+          <div
+            ref={paneGridRef}
+            className={`pane-grid ${stacked ? "pane-grid-stacked" : ""}`}
+            onTouchStart={handleTouchStart}
+            onTouchEnd={handleTouchEnd}
+          >
+            {ordered.map((pane) => (
+              <TerminalPaneView
+                key={pane.id}
+                pane={pane}
+                focused={active && pane.id === tab.focusedPaneId}
+                slots={pane.id === tab.focusedPaneId ? slots : null}
+                layoutStyle={paneStyle(pane.id)}
+                paneCount={panes.length}
+                config={config}
+                serverPreferences={serverPreferences}
+                devicePreferences={devicePreferences}
+                onServerPreferencesChange={onServerPreferencesChange}
+                setDevicePreference={setDevicePreference}
+                onPaneChange={handlePaneChange}
+                onTitleChange={onTitleChange}
+                onFocus={handleFocus}
+                onNewTab={onNewTab}
+                onResetLayout={onResetLayout}
+                onSplit={handleSplit}
+                onClose={handleClosePane}
+              />
+            ))}
+            {!stacked &&
+              dividers.map((divider) => (
+                <PaneDivider
+                  key={divider.splitId}
+                  divider={divider}
+                  gridRef={paneGridRef}
+                  onResize={(ratio) => onResizeSplit(tab.id, divider.splitId, ratio)}
+                />
+              ))}
+          </div>
+          {stacked && panes.length > 1 && (
+            <div className="pane-pager" aria-hidden="true">
+              {panes.map((pane) => (
+                <span
+                  key={pane.id}
+                  className={`pane-pager-dot ${pane.id === tab.focusedPaneId ? "pane-pager-dot-active" : ""}`}
+                />
+              ))}
+            </div>
+          )}
+          <div className="app-shell-slot" ref={setOverlaysSlot} />
+        </div>
+      </main>
+
+      <div className="app-shell-slot" ref={setFooterSlot} />
+    </div>
+  );
+}
+
+const DIVIDER_KEY_STEP = 0.05;
+
+// The bar between the two sides of a split: drag it, or focus it and use the
+// arrow keys.
+function PaneDivider({
+  divider,
+  gridRef,
+  onResize,
+}: {
+  divider: DividerPlacement;
+  gridRef: RefObject<HTMLDivElement | null>;
+  onResize: (ratio: number) => void;
+}) {
+  const { area, direction, ratio } = divider;
+  const style: CSSProperties =
+    direction === "row"
+      ? {
+          left: `${(area.left + area.width * ratio) * 100}%`,
+          top: `${area.top * 100}%`,
+          height: `${area.height * 100}%`,
+        }
+      : {
+          top: `${(area.top + area.height * ratio) * 100}%`,
+          left: `${area.left * 100}%`,
+          width: `${area.width * 100}%`,
+        };
+
+  const handlePointerMove = (event: ReactPointerEvent<HTMLDivElement>) => {
+    const grid = gridRef.current;
+    if (!grid || !event.currentTarget.hasPointerCapture(event.pointerId)) return;
+    const rect = grid.getBoundingClientRect();
+    const position =
+      direction === "row" ? (event.clientX - rect.left) / rect.width : (event.clientY - rect.top) / rect.height;
+    onResize(ratioAt(divider, position));
+  };
+
+  const handleKeyDown = (event: ReactKeyboardEvent<HTMLDivElement>) => {
+    const [back, forward] = direction === "row" ? ["ArrowLeft", "ArrowRight"] : ["ArrowUp", "ArrowDown"];
+    if (event.key !== back && event.key !== forward) return;
+    event.preventDefault();
+    event.stopPropagation();
+    onResize(ratio + (event.key === forward ? DIVIDER_KEY_STEP : -DIVIDER_KEY_STEP));
+  };
+
+  return (
+    <div
+      role="separator"
+      tabIndex={0}
+      aria-orientation={direction === "row" ? "vertical" : "horizontal"}
+      aria-valuenow={Math.round(ratio * 100)}
+      aria-valuemin={0}
+      aria-valuemax={100}
+      aria-label="Resize panes"
+      className={`pane-divider pane-divider-${direction}`}
+      style={style}
+      onPointerDown={(event) => {
+        event.preventDefault();
+        event.currentTarget.setPointerCapture(event.pointerId);
+      }}
+      onPointerMove={handlePointerMove}
+      onKeyDown={handleKeyDown}
+    />
+  );
+}
+
+// Selects the rename field's text as it appears.
+function selectOnMount(el: HTMLInputElement | null) {
+  el?.select();
+}
+
+const TAB_DRAG_TYPE = "application/x-mywebterm-tab";
+
+interface TabStripProps {
+  workspace: TabWorkspace;
+  titles: Record<string, string | null>;
+  renamingId: string | null;
+  onSelect: (id: string) => void;
+  onClose: (id: string) => void;
+  onMove: (id: string, offset: number) => void;
+  onStartRename: (id: string) => void;
+  onRename: (id: string, name: string | null) => void;
+  onNew: () => void;
+}
+
+function TabStrip({
+  workspace,
+  titles,
+  renamingId,
+  onSelect,
+  onClose,
+  onMove,
+  onStartRename,
+  onRename,
+  onNew,
+}: TabStripProps) {
+  const { tabs, activeId } = workspace;
+  return (
+    <div className="tab-strip" role="tablist" aria-label="Terminal tabs">
+      {tabs.map((tab, index) => {
+        const label = tabLabel(tab, titles[tab.focusedPaneId] ?? null);
+        const selected = tab.id === activeId;
+        return (
+          // biome-ignore lint/a11y/noStaticElementInteractions: dragging is a shortcut for Alt+Shift+< and >
+          <div
+            key={tab.id}
+            className={`tab-strip-tab ${selected ? "tab-strip-tab-active" : ""}`}
+            draggable={renamingId !== tab.id}
+            onDragStart={(e) => {
+              e.dataTransfer.setData(TAB_DRAG_TYPE, tab.id);
+              e.dataTransfer.effectAllowed = "move";
+            }}
+            onDragOver={(e) => {
+              if (e.dataTransfer.types.includes(TAB_DRAG_TYPE)) e.preventDefault();
+            }}
+            onDrop={(e) => {
+              const id = e.dataTransfer.getData(TAB_DRAG_TYPE);
+              if (id === "") return;
+              e.preventDefault();
+              onMove(id, index - tabs.findIndex((t) => t.id === id));
+            }}
+          >
+            {renamingId === tab.id ? (
+              // Empty goes back to the session's title; Escape keeps the old name.
+              <input
+                type="text"
+                className="tab-strip-rename"
+                ref={selectOnMount}
+                defaultValue={tab.name ?? ""}
+                placeholder={label}
+                aria-label="Tab name"
+                spellCheck={false}
+                autoCapitalize="off"
+                autoComplete="off"
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") {
+                    e.preventDefault();
+                    e.currentTarget.blur();
+                  } else if (e.key === "Escape") {
+                    e.preventDefault();
+                    e.currentTarget.value = tab.name ?? "";
+                    e.currentTarget.blur();
+                  }
+                }}
+                onBlur={(e) => onRename(tab.id, normalizeTabName(e.currentTarget.value))}
+              />
+            ) : (
+              <button
+                type="button"
+                role="tab"
+                aria-selected={selected}
+                className="tab-strip-label"
+                onClick={() => onSelect(tab.id)}
+                onDoubleClick={() => onStartRename(tab.id)}
+                title={`${label} (Alt+Shift+${index < 8 ? index + 1 : "9"}; double-click to rename)`}
+              >
+                {label}
+              </button>
+            )}
+            <button
+              type="button"
+              className="tab-strip-close"
+              onClick={() => onClose(tab.id)}
+              aria-label={`Close ${label}`}
+              title="Close tab (Alt+Shift+W); its session keeps running"
+            >
+              ×
+            </button>
+          </div>
+        );
+      })}
+      <button
+        type="button"
+        className="tab-strip-new"
+        onClick={onNew}
+        aria-label="New tab"
+        title="New tab (Alt+Shift+T)"
+      >
+        +
+      </button>
+    </div>
+  );
+}
+
+export function App() {
+  const [config, setConfig] = useState<TtyConfig | null>(null);
+  // The server's --preferences, and this device's overrides of them
+  const [serverPreferences, setServerPreferences] = useState<TerminalPreferences>({});
+  const [devicePreferences, setDevicePreferences] = useState(loadDevicePreferences);
+  // This browser tab's own workspace; without one, the user's saved on the
+  // server is fetched before any terminal mounts.
+  const [storedWorkspace] = useState(loadTabWorkspace);
+  const [workspace, setWorkspace] = useState(() => storedWorkspace ?? createTabWorkspace());
+  const [workspaceReady, setWorkspaceReady] = useState(storedWorkspace !== null);
+  // Each pane's session title, as it reports it
+  const [titles, setTitles] = useState<Record<string, string | null>>({});
+  const [renamingTabId, setRenamingTabId] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadTtyConfig()
+      .then((cfg) => {
+        if (!cancelled) {
+          setConfig(cfg);
+        }
+      })
+      .catch((error: unknown) => {
+        if (!cancelled) {
+          console.error("Failed to load configuration:", error);
+          toast.error("Failed to load configuration.");
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // undefined drops the override, going back to the server's value.
+  const setDevicePreference = useCallback(
+    <K extends keyof TerminalPreferences>(key: K, value: TerminalPreferences[K]) => {
+      setDevicePreferences((previous) => {
+        const next = { ...previous };
+        if (value === undefined) {
+          delete next[key];
+        } else {
+          next[key] = value;
+        }
+        saveDevicePreferences(next);
+        return next;
+      });
+    },
+    [],
+  );
+
+  // Panes the restore below made watch a session driven elsewhere; they are
+  // saved as driving it, so the demotion stays with this browser tab.
+  const watchedPanesRef = useRef<ReadonlyMap<string, string>>(new Map());
+  useEffect(() => {
+    if (workspaceReady) return;
+    let cancelled = false;
+    // Sessions already driven elsewhere (all of them, when the list cannot be
+    // had) come back read-only: taking control is left to the user.
+    Promise.all([loadSavedWorkspace(), loadSessionSummaries().catch(() => null)]).then(([saved, summaries]) => {
+      if (cancelled) return;
+      if (saved !== null) {
+        const driven = new Set(
+          summaries?.filter((summary) => summary.driverAttached).map((summary) => summary.sessionId),
+        );
+        const restored = watchDrivenSessions(
+          saved.workspace,
+          (sessionId) => summaries === null || driven.has(sessionId),
+        );
+        watchedPanesRef.current = restored.watched;
+        setWorkspace(restored.workspace);
+        setDevicePreference("fontSize", saved.fontSize);
+        setDevicePreference("minColumns", saved.minColumns);
+      }
+      setWorkspaceReady(true);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [workspaceReady, setDevicePreference]);
+
+  // Set by a layout reset: the fresh workspace is not saved over the deleted
+  // one until it changes.
+  const skipWorkspaceSaveRef = useRef(false);
+  const { fontSize, minColumns } = devicePreferences;
+  useEffect(() => {
+    if (!workspaceReady) return;
+    saveTabWorkspace(workspace);
+    if (skipWorkspaceSaveRef.current) {
+      skipWorkspaceSaveRef.current = false;
+      return;
+    }
+    scheduleWorkspaceSave({
+      workspace: driveWatchedSessions(workspace, watchedPanesRef.current),
+      fontSize,
+      minColumns,
+    });
+  }, [workspaceReady, workspace, fontSize, minColumns]);
+
+  useEffect(() => {
+    window.addEventListener("pagehide", flushWorkspaceSave);
+    return () => window.removeEventListener("pagehide", flushWorkspaceSave);
+  }, []);
+
+  const updateTab = useCallback((id: string, change: Partial<TerminalTab>) => {
+    setWorkspace((previous) => ({
+      ...previous,
+      tabs: previous.tabs.map((tab) => (tab.id === id ? { ...tab, ...change } : tab)),
+    }));
+  }, []);
+
+  const updatePaneIn = useCallback((tabId: string, paneId: string, change: Partial<TerminalPane>) => {
+    setWorkspace((previous) => ({
+      ...previous,
+      tabs: previous.tabs.map((tab) =>
+        tab.id === tabId ? { ...tab, layout: updatePane(tab.layout, paneId, change) } : tab,
+      ),
+    }));
+  }, []);
+
+  const focusPaneIn = useCallback((tabId: string, paneId: string) => {
+    setWorkspace((previous) =>
+      previous.tabs.some((tab) => tab.id === tabId && tab.focusedPaneId !== paneId)
+        ? {
+            ...previous,
+            tabs: previous.tabs.map((tab) => (tab.id === tabId ? { ...tab, focusedPaneId: paneId } : tab)),
+          }
+        : previous,
+    );
+  }, []);
+
+  const resizeSplitIn = useCallback((tabId: string, splitId: string, ratio: number) => {
+    setWorkspace((previous) => ({
+      ...previous,
+      tabs: previous.tabs.map((tab) =>
+        tab.id === tabId ? { ...tab, layout: setSplitRatio(tab.layout, splitId, ratio) } : tab,
+      ),
+    }));
+  }, []);
+
+  const handleTitleChange = useCallback((id: string, title: string | null) => {
+    setTitles((previous) => (previous[id] === title ? previous : { ...previous, [id]: title }));
+  }, []);
+
+  const selectTab = useCallback((id: string) => {
+    setWorkspace((previous) => ({ ...previous, activeId: id }));
+  }, []);
+
+  // Opens next to the current tab, on its start screen.
+  const openNewTab = useCallback(() => {
+    setWorkspace((previous) => {
+      const tab = createTab();
+      const tabs = [...previous.tabs];
+      tabs.splice(tabs.findIndex((t) => t.id === previous.activeId) + 1, 0, tab);
+      return { tabs, activeId: tab.id };
+    });
+  }, []);
+
+  // Back to one tab on its start screen, here and on the server. Like closing
+  // tabs, this only disconnects the sessions.
+  const resetLayout = useCallback(() => {
+    resetSavedWorkspace()
+      .then(() => {
+        skipWorkspaceSaveRef.current = true;
+        setRenamingTabId(null);
+        setWorkspace(createTabWorkspace());
+        toast.info("Layout reset. Its sessions keep running; reattach them from the start screen.", {
+          id: "reset-layout",
+        });
+      })
+      .catch((error: unknown) => {
+        console.error("Failed to reset the layout:", error);
+        toast.error("Failed to reset the layout.");
+      });
+  }, []);
+
+  // Closing a tab only disconnects it, like closing a browser tab: the session
+  // stays on the server's start screen until --detach-timeout ends it.
+  const closeTabById = useCallback(
+    (id: string) => {
+      const tab = workspace.tabs.find((t) => t.id === id);
+      if (tab && listPanes(tab.layout).some((pane) => pane.session !== null)) {
+        toast.info("Tab closed. Its session keeps running; reattach it from the start screen.", {
+          id: "close-tab",
+        });
+      }
+      setRenamingTabId(null);
+      setWorkspace((previous) => closeTab(previous, id));
+    },
+    [workspace],
+  );
+
+  const renameTab = useCallback(
+    (id: string, name: string | null) => {
+      setRenamingTabId(null);
+      updateTab(id, { name });
+    },
+    [updateTab],
+  );
+
+  const moveTabBy = useCallback((id: string, offset: number) => {
+    setWorkspace((previous) => ({ ...previous, tabs: moveTab(previous.tabs, id, offset) }));
+  }, []);
+
+  // The new pane, on its start screen, takes the focus.
+  const splitFocusedPane = useCallback(
+    (tabId: string, direction: SplitDirection) => {
+      const tab = workspace.tabs.find((t) => t.id === tabId);
+      if (!tab) return;
+      if (listPanes(tab.layout).length >= MAX_PANES_PER_TAB) {
+        toast.error(`A tab holds at most ${MAX_PANES_PER_TAB} panes.`, { id: "split-pane" });
+        return;
+      }
+      const pane = createPane();
+      updateTab(tabId, { layout: splitPane(tab.layout, tab.focusedPaneId, direction, pane), focusedPaneId: pane.id });
+    },
+    [workspace, updateTab],
+  );
+
+  // Like closing a tab, closing a pane only disconnects it; closing the last
+  // one closes the tab.
+  const closePaneIn = useCallback(
+    (tabId: string, paneId: string) => {
+      const tab = workspace.tabs.find((t) => t.id === tabId);
+      if (!tab) return;
+      const next = closePane(tab, paneId);
+      if (next === null) {
+        closeTabById(tabId);
+        return;
+      }
+      if (listPanes(tab.layout).find((pane) => pane.id === paneId)?.session) {
+        toast.info("Pane closed. Its session keeps running; reattach it from the start screen.", {
+          id: "close-pane",
+        });
+      }
+      updateTab(tabId, next);
+    },
+    [workspace, closeTabById, updateTab],
+  );
+
+  const runTabCommand = useCallback(
+    (command: TabCommand) => {
+      switch (command.type) {
+        case "new":
+          openNewTab();
+          break;
+        case "close":
+          closeTabById(workspace.activeId);
+          break;
+        case "rename":
+          setRenamingTabId(workspace.activeId);
+          break;
+        case "select": {
+          const tab = command.index === -1 ? workspace.tabs.at(-1) : workspace.tabs[command.index];
+          if (tab) selectTab(tab.id);
+          break;
+        }
+        case "cycle":
+          selectTab(cycleTab(workspace, command.offset));
+          break;
+        case "move":
+          moveTabBy(workspace.activeId, command.offset);
+          break;
+        case "split":
+          splitFocusedPane(workspace.activeId, command.direction);
+          break;
+        case "close-pane": {
+          const tab = workspace.tabs.find((t) => t.id === workspace.activeId);
+          if (tab) closePaneIn(tab.id, tab.focusedPaneId);
+          break;
+        }
+        case "focus-pane": {
+          const tab = workspace.tabs.find((t) => t.id === workspace.activeId);
+          if (tab) focusPaneIn(tab.id, cyclePane(tab, command.offset));
+          break;
+        }
+      }
+    },
+    [workspace, openNewTab, closeTabById, selectTab, moveTabBy, splitFocusedPane, closePaneIn, focusPaneIn],
+  );
+
+  // In the capture phase, so the focused terminal never sees the keys.
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      const command = matchTabShortcut(event);
+      if (command === null) return;
+      event.preventDefault();
+      event.stopPropagation();
+      runTabCommand(command);
+    };
+    window.addEventListener("keydown", onKeyDown, true);
+    return () => window.removeEventListener("keydown", onKeyDown, true);
+  }, [runTabCommand]);
+
+  const appTitle = config?.appTitle ?? DEFAULT_APP_TITLE;
+  const activeTab = workspace.tabs.find((tab) => tab.id === workspace.activeId);
+  const activeTitle = activeTab ? (titles[activeTab.focusedPaneId] ?? null) : null;
+  useEffect(() => {
+    document.title = activeTitle ? `${activeTitle} | ${appTitle}` : appTitle;
+  }, [appTitle, activeTitle]);
+
+  const tabStrip =
+    workspace.tabs.length > 1 || renamingTabId !== null ? (
+      <TabStrip
+        workspace={workspace}
+        titles={titles}
+        renamingId={renamingTabId}
+        onSelect={selectTab}
+        onClose={closeTabById}
+        onMove={moveTabBy}
+        onStartRename={setRenamingTabId}
+        onRename={renameTab}
+        onNew={openNewTab}
+      />
+    ) : null;
+
+  // Panels render in a fixed order (by id) so reordering the strip never
+  // moves a live terminal's DOM.
+  const panels = [...workspace.tabs].sort((a, b) => (a.id < b.id ? -1 : 1));
+  return (
+    <>
+      {workspaceReady &&
+        panels.map((tab) => (
+          <TerminalTabPanel
+            key={tab.id}
+            tab={tab}
+            active={tab.id === workspace.activeId}
+            config={config}
+            serverPreferences={serverPreferences}
+            devicePreferences={devicePreferences}
+            onServerPreferencesChange={setServerPreferences}
+            setDevicePreference={setDevicePreference}
+            onPaneChange={updatePaneIn}
+            onTitleChange={handleTitleChange}
+            onFocusPane={focusPaneIn}
+            onSplit={splitFocusedPane}
+            onClosePane={closePaneIn}
+            onResizeSplit={resizeSplitIn}
+            onNewTab={openNewTab}
+            onResetLayout={resetLayout}
+            tabStrip={tab.id === workspace.activeId ? tabStrip : null}
+          />
+        ))}
+      <Toaster position="top-right" theme="dark" duration={3000} />
+    </>
   );
 }
 
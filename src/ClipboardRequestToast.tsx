@@ -0,0 +1,28 @@
+import { toast } from "sonner";
+
+const TOAST_ID = "osc52";
+
+// sonner's toasts have one action slot, and its cancel slot is styled and
+// placed as the way to dismiss: "Always allow" is no dismissal, so both
+// choices go in the action slot, styled alike (data-button).
+export function showClipboardRequestToast(preview: string, onCopy: () => void, onAlwaysAllow: () => void): void {
+  const choose = (choice: () => void) => () => {
+    toast.dismiss(TOAST_ID);
+    choice();
+  };
+  toast("A program wants to copy to your clipboard", {
+    id: TOAST_ID,
+    description: preview,
+    duration: 20_000,
+    action: (
+      <>
+        <button type="button" data-button onClick={choose(onCopy)}>
+          Copy
+        </button>
+        <button type="button" data-button onClick={choose(onAlwaysAllow)}>
+          Always allow
+        </button>
+      </>
+    ),
+  });
+}
@@ -0,0 +1,295 @@
+import { Terminal } from "@xterm/xterm";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { Toaster } from "sonner";
+
+import "@xterm/xterm/css/xterm.css";
+
+import {
+  type Asciicast,
+  compressIdle,
+  countEventsUntil,
+  loadRecordings,
+  parseAsciicast,
+  parseResizeEvent,
+  type RecordingEntry,
+} from "./asciicast";
+import { formatSessionAge } from "./sessionSummary";
+import { buildTerminalOptions, MOBILE_VIEWPORT_QUERY } from "./useTerminal";
+
+const SPEEDS = [0.5, 1, 2, 4, 8];
+// null plays pauses at their recorded length
+const IDLE_LIMITS: (number | null)[] = [null, 1, 2, 5];
+const DEFAULT_IDLE_LIMIT = 2;
+
+function formatClock(seconds: number): string {
+  const whole = Math.floor(Math.max(0, seconds));
+  const minutes = Math.floor(whole / 60);
+  return `${minutes}:${String(whole % 60).padStart(2, "0")}`;
+}
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function recordingUrl(name: string): string {
+  return `/api/recordings/${encodeURIComponent(name)}`;
+}
+
+// Replays one recording into a read-only xterm built like the live terminal.
+// Seeking backwards resets the terminal and replays from the start, which is
+// cheap next to the cost of rendering. Resets and resizes wait their turn in
+// xterm's write queue: called directly they would act before the output
+// already queued, which would then land on the new screen.
+function RecordingPlayer({ cast }: { cast: Asciicast }) {
+  const containerRef = useRef<HTMLDivElement | null>(null);
+  const terminalRef = useRef<Terminal | null>(null);
+  const appliedRef = useRef(0);
+  const positionRef = useRef(0);
+  // Wall-clock anchor for the running clock: position = anchorPosition + elapsed * speed
+  const anchorRef = useRef({ position: 0, wall: 0 });
+
+  const [idleLimit, setIdleLimit] = useState<number | null>(DEFAULT_IDLE_LIMIT);
+  const [speed, setSpeed] = useState(1);
+  const [playing, setPlaying] = useState(false);
+  const [position, setPosition] = useState(0);
+
+  const events = useMemo(() => compressIdle(cast.events, idleLimit), [cast, idleLimit]);
+  const duration = events.at(-1)?.time ?? 0;
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const isMobileViewport = window.matchMedia(MOBILE_VIEWPORT_QUERY).matches;
+    const terminal = new Terminal({
+      ...buildTerminalOptions(isMobileViewport),
+      cols: cast.width,
+      rows: cast.height,
+      cursorBlink: false,
+      disableStdin: true,
+    });
+    terminal.open(container);
+    terminalRef.current = terminal;
+    return () => {
+      terminalRef.current = null;
+      terminal.dispose();
+    };
+  }, [cast]);
+
+  const renderTo = useCallback(
+    (time: number) => {
+      const terminal = terminalRef.current;
+      if (!terminal) return;
+      const target = countEventsUntil(events, time);
+      if (target < appliedRef.current) {
+        terminal.write("", () => {
+          terminal.reset();
+          terminal.resize(cast.width, cast.height);
+        });
+        appliedRef.current = 0;
+      }
+      let pending = "";
+      for (const event of events.slice(appliedRef.current, target)) {
+        if (event.type === "o") {
+          pending += event.data;
+          continue;
+        }
+        const size = parseResizeEvent(event.data);
+        if (!size) continue;
+        terminal.write(pending, () => terminal.resize(size.cols, size.rows));
+        pending = "";
+      }
+      if (pending !== "") terminal.write(pending);
+      appliedRef.current = target;
+      positionRef.current = time;
+    },
+    [cast, events],
+  );
+
+  const seek = useCallback(
+    (time: number) => {
+      const clamped = Math.min(Math.max(0, time), duration);
+      anchorRef.current = { position: clamped, wall: performance.now() };
+      renderTo(clamped);
+      setPosition(clamped);
+    },
+    [duration, renderTo],
+  );
+
+  // A different idle limit moves every event, so start over from the top.
+  useEffect(() => {
+    appliedRef.current = Number.POSITIVE_INFINITY;
+    setPlaying(false);
+    seek(0);
+  }, [seek]);
+
+  useEffect(() => {
+    if (!playing) return;
+    anchorRef.current = { position: positionRef.current, wall: performance.now() };
+    let frame = requestAnimationFrame(function tick(now) {
+      const { position: start, wall } = anchorRef.current;
+      const next = Math.min(start + ((now - wall) / 1000) * speed, duration);
+      renderTo(next);
+      setPosition(next);
+      if (next >= duration) {
+        setPlaying(false);
+        return;
+      }
+      frame = requestAnimationFrame(tick);
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [playing, speed, duration, renderTo]);
+
+  const togglePlaying = () => {
+    if (!playing && positionRef.current >= duration) seek(0);
+    setPlaying(!playing);
+  };
+
+  return (
+    <div className="recording-player">
+      <div className="recording-player-controls">
+        <button type="button" className="toolbar-button" onClick={togglePlaying} disabled={duration === 0}>
+          {playing ? "Pause" : "Play"}
+        </button>
+        <input
+          type="range"
+          className="recording-player-seek"
+          min={0}
+          max={duration}
+          step={0.1}
+          value={position}
+          onChange={(event) => seek(Number(event.target.value))}
+          aria-label="Seek"
+        />
+        <span className="recording-player-time">
+          {formatClock(position)} / {formatClock(duration)}
+        </span>
+        <label className="recording-player-option">
+          Speed
+          <select value={speed} onChange={(event) => setSpeed(Number(event.target.value))}>
+            {SPEEDS.map((s) => (
+              <option key={s} value={s}>
+                {s}×
+              </option>
+            ))}
+          </select>
+        </label>
+        <label
+          className="recording-player-option"
+          title="Shorten pauses between output to at most this long (like asciinema --idle-time-limit)"
+        >
+          Max idle
+          <select
+            value={idleLimit ?? "off"}
+            onChange={(event) => setIdleLimit(event.target.value === "off" ? null : Number(event.target.value))}
+          >
+            {IDLE_LIMITS.map((limit) => (
+              <option key={limit ?? "off"} value={limit ?? "off"}>
+                {limit === null ? "off" : `${limit}s`}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+      <div className="recording-player-screen" ref={containerRef} />
+    </div>
+  );
+}
+
+// The /recordings view: .cast files in the server's --record-dir, each
+// playable in the browser without installing asciinema.
+export function RecordingsPage() {
+  const [recordings, setRecordings] = useState<RecordingEntry[] | null>(null);
+  const [listError, setListError] = useState<string | null>(null);
+  const [selected, setSelected] = useState<string | null>(null);
+  const [cast, setCast] = useState<Asciicast | null>(null);
+  const [castError, setCastError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setRecordings(await loadRecordings());
+      setListError(null);
+    } catch (err) {
+      setListError(err instanceof Error ? err.message : String(err));
+    }
+  }, []);
+
+  useEffect(() => {
+    void refresh();
+  }, [refresh]);
+
+  useEffect(() => {
+    if (selected === null) return;
+    let cancelled = false;
+    setCast(null);
+    setCastError(null);
+    void (async () => {
+      try {
+        const res = await fetch(recordingUrl(selected));
+        if (!res.ok) throw new Error(`Failed to fetch recording: ${res.status} ${res.statusText}`);
+        const parsed = parseAsciicast(await res.text());
+        if (!cancelled) setCast(parsed);
+      } catch (err) {
+        if (!cancelled) setCastError(err instanceof Error ? err.message : String(err));
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [selected]);
+
+  const now = Date.now();
+
+  return (
+    <div className="app-shell recordings-shell">
+      <header className="topbar">
+        <div className="brand">
+          <h1>
+            <span className="brand-title">Recordings</span>
+          </h1>
+        </div>
+        <div className="toolbar-actions">
+          <button type="button" className="toolbar-button" onClick={() => void refresh()}>
+            Refresh
+          </button>
+          <a className="toolbar-button" href="/">
+            Terminal
+          </a>
+        </div>
+      </header>
+      <main className="recordings-main">
+        <nav className="recordings-list" aria-label="Recordings">
+          {listError !== null && <p className="recordings-note">{listError}</p>}
+          {recordings !== null && recordings.length === 0 && (
+            <p className="recordings-note">
+              No recordings. Start the server with <code>--record-dir</code> to record sessions.
+            </p>
+          )}
+          {recordings?.map((recording) => (
+            <div
+              key={recording.name}
+              className={`recordings-list-row ${recording.name === selected ? "recordings-list-row-selected" : ""}`}
+            >
+              <button type="button" className="recordings-list-item" onClick={() => setSelected(recording.name)}>
+                <code>{recording.name}</code>
+                <span className="recordings-list-meta">
+                  {formatSize(recording.size)} · updated {formatSessionAge(now - recording.modifiedAt)} ago
+                </span>
+              </button>
+              <a className="toolbar-button" href={recordingUrl(recording.name)} download={recording.name}>
+                Download
+              </a>
+            </div>
+          ))}
+        </nav>
+        <section className="recordings-stage">
+          {selected === null && <p className="recordings-note">Select a recording to play it.</p>}
+          {castError !== null && <p className="recordings-note">{castError}</p>}
+          {cast !== null && <RecordingPlayer key={selected} cast={cast} />}
+        </section>
+      </main>
+      <Toaster position="top-right" theme="dark" duration={3000} />
+    </div>
+  );
+}
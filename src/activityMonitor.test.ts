@@ -0,0 +1,65 @@
+import { describe, expect, test } from "bun:test";
+
+import {
+  ACTIVITY_QUIET_MS,
+  checkSilence,
+  createMonitorState,
+  noteInput,
+  noteOutput,
+  updateMonitor,
+} from "./activityMonitor";
+
+describe("activity monitor", () => {
+  test("alerts when output ends a quiet spell", () => {
+    const state = createMonitorState(0);
+    updateMonitor(state, { activity: true, silenceSeconds: null }, 0);
+    expect(noteOutput(state, 1_000)).toBeNull();
+    expect(noteOutput(state, 2_000)).toBeNull();
+    expect(noteOutput(state, 2_000 + ACTIVITY_QUIET_MS)).toBe("activity");
+  });
+
+  test("treats output right after input as echo", () => {
+    const state = createMonitorState(0);
+    updateMonitor(state, { activity: true, silenceSeconds: null }, 0);
+    noteInput(state, 60_000);
+    expect(noteOutput(state, 60_100)).toBeNull();
+  });
+
+  test("stays quiet while switched off", () => {
+    const state = createMonitorState(0);
+    expect(noteOutput(state, 60_000)).toBeNull();
+    expect(checkSilence(state, 120_000)).toBeNull();
+  });
+});
+
+describe("silence monitor", () => {
+  test("alerts once per quiet spell after output", () => {
+    const state = createMonitorState(0);
+    updateMonitor(state, { activity: false, silenceSeconds: 30 }, 0);
+    noteOutput(state, 5_000);
+    expect(checkSilence(state, 34_000)).toBeNull();
+    expect(checkSilence(state, 35_000)).toBe("silence");
+    expect(checkSilence(state, 90_000)).toBeNull();
+    noteOutput(state, 100_000);
+    expect(checkSilence(state, 130_000)).toBe("silence");
+  });
+
+  test("does not count the echo of typing as output", () => {
+    const state = createMonitorState(0);
+    updateMonitor(state, { activity: false, silenceSeconds: 10 }, 60_000);
+    noteInput(state, 60_000);
+    noteOutput(state, 60_010);
+    expect(checkSilence(state, 80_000)).toBeNull();
+  });
+
+  test("arms when switched on while output is flowing, not in a quiet session", () => {
+    const flowing = createMonitorState(0);
+    noteOutput(flowing, 58_000);
+    updateMonitor(flowing, { activity: false, silenceSeconds: 10 }, 60_000);
+    expect(checkSilence(flowing, 68_000)).toBe("silence");
+
+    const quiet = createMonitorState(0);
+    updateMonitor(quiet, { activity: false, silenceSeconds: 10 }, 60_000);
+    expect(checkSilence(quiet, 120_000)).toBeNull();
+  });
+});
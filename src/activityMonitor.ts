@@ -0,0 +1,64 @@
+// The rule behind a session's activity/silence monitor (see SessionMonitor),
+// kept apart from the PTY plumbing: sessionManager feeds it output, driver
+// input and a once-a-second tick, and delivers whatever alerts it returns.
+//
+// Output within INPUT_ECHO_MS of driver input is the echo of typing and
+// neither counts as activity nor starts a silence countdown, so working in a
+// monitored session does not alert about itself.
+
+import type { MonitorAlert, SessionMonitor } from "./ttyProtocol";
+
+// Output only counts as activity after this long without any.
+export const ACTIVITY_QUIET_MS = 10_000;
+const INPUT_ECHO_MS = 1_000;
+
+export const MONITOR_OFF: SessionMonitor = { activity: false, silenceSeconds: null };
+
+export interface MonitorState {
+  settings: SessionMonitor;
+  lastOutputAt: number;
+  lastInputAt: number;
+  // There has been output since the last silence alert; without this a quiet
+  // session would alert again every silenceSeconds.
+  silenceArmed: boolean;
+}
+
+export function createMonitorState(now: number): MonitorState {
+  return { settings: MONITOR_OFF, lastOutputAt: now, lastInputAt: 0, silenceArmed: false };
+}
+
+export function isMonitoring(settings: SessionMonitor): boolean {
+  return settings.activity || settings.silenceSeconds !== null;
+}
+
+/**
+ * Changes what is monitored. A silence monitor switched on while output is
+ * still flowing fires when it stops; one switched on in an already quiet
+ * session waits for the next output first.
+ */
+export function updateMonitor(state: MonitorState, settings: SessionMonitor, now: number): void {
+  state.settings = settings;
+  state.silenceArmed = settings.silenceSeconds !== null && now - state.lastOutputAt < settings.silenceSeconds * 1000;
+}
+
+export function noteInput(state: MonitorState, now: number): void {
+  state.lastInputAt = now;
+}
+
+/** Records PTY output; returns "activity" when it ends a quiet spell. */
+export function noteOutput(state: MonitorState, now: number): MonitorAlert | null {
+  const quietMs = now - state.lastOutputAt;
+  state.lastOutputAt = now;
+  if (now - state.lastInputAt < INPUT_ECHO_MS) return null;
+  state.silenceArmed = true;
+  return state.settings.activity && quietMs >= ACTIVITY_QUIET_MS ? "activity" : null;
+}
+
+/** Called periodically; returns "silence" once per quiet spell that is long enough. */
+export function checkSilence(state: MonitorState, now: number): MonitorAlert | null {
+  const { silenceSeconds } = state.settings;
+  if (silenceSeconds === null || !state.silenceArmed) return null;
+  if (now - state.lastOutputAt < silenceSeconds * 1000) return null;
+  state.silenceArmed = false;
+  return "silence";
+}
@@ -0,0 +1,83 @@
+import { describe, expect, test } from "bun:test";
+
+import {
+  type AsciicastEvent,
+  compressIdle,
+  countEventsUntil,
+  isRecordingName,
+  parseAsciicast,
+  parseRecordingList,
+  parseResizeEvent,
+} from "./asciicast";
+
+const cast = [
+  JSON.stringify({ version: 2, width: 80, height: 24, timestamp: 1792362393, title: "/bin/bash -l" }),
+  JSON.stringify([0.5, "o", "$ ls\r\n"]),
+  JSON.stringify([0.7, "i", "ls\r"]),
+  JSON.stringify([1.5, "r", "120x40"]),
+  '[2.0, "o", "trunc',
+  "",
+].join("\n");
+
+describe("parseAsciicast", () => {
+  test("reads the header and output/resize events, skipping the rest", () => {
+    expect(parseAsciicast(cast)).toEqual({
+      width: 80,
+      height: 24,
+      title: "/bin/bash -l",
+      timestamp: 1792362393,
+      events: [
+        { time: 0.5, type: "o", data: "$ ls\r\n" },
+        { time: 1.5, type: "r", data: "120x40" },
+      ],
+    });
+  });
+
+  test("rejects files that are not asciicast v2", () => {
+    expect(() => parseAsciicast("")).toThrow("no JSON header");
+    expect(() => parseAsciicast(JSON.stringify({ version: 1, width: 80, height: 24 }))).toThrow("version 2");
+  });
+});
+
+describe("playback helpers", () => {
+  const events: AsciicastEvent[] = [
+    { time: 1, type: "o", data: "a" },
+    { time: 31, type: "o", data: "b" },
+    { time: 31.5, type: "o", data: "c" },
+  ];
+
+  test("compressIdle caps pauses between events", () => {
+    expect(compressIdle(events, 2).map((e) => e.time)).toEqual([1, 3, 3.5]);
+    expect(compressIdle(events, null)).toBe(events);
+  });
+
+  test("countEventsUntil finds the events due by a time", () => {
+    expect(countEventsUntil(events, 0)).toBe(0);
+    expect(countEventsUntil(events, 1)).toBe(1);
+    expect(countEventsUntil(events, 31.2)).toBe(2);
+    expect(countEventsUntil(events, 100)).toBe(3);
+  });
+
+  test("parseResizeEvent reads COLSxROWS", () => {
+    expect(parseResizeEvent("120x40")).toEqual({ cols: 120, rows: 40 });
+    expect(parseResizeEvent("0x40")).toBeNull();
+    expect(parseResizeEvent("wide")).toBeNull();
+  });
+});
+
+describe("recording list", () => {
+  test("accepts only plain .cast file names", () => {
+    expect(isRecordingName("2026-10-18T09-30-05Z-0f8c2a52.cast")).toBe(true);
+    expect(isRecordingName("../secret.cast")).toBe(false);
+    expect(isRecordingName(".hidden.cast")).toBe(false);
+    expect(isRecordingName("notes.txt")).toBe(false);
+  });
+
+  test("drops malformed entries", () => {
+    const entry = { name: "a.cast", size: 10, modifiedAt: 1 };
+    expect(parseRecordingList({ recordings: [entry, { ...entry, name: "../a.cast" }, { name: "b.cast" }] })).toEqual([
+      entry,
+    ]);
+    expect(parseRecordingList(null)).toEqual([]);
+  });
+});
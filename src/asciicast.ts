@@ -0,0 +1,153 @@
+// Reading asciicast v2 recordings (see sessionRecorder.ts for the writing side)
+// and the listing served by GET /api/recordings, shared by the server and the
+// /recordings player.
+
+export interface RecordingEntry {
+  // File name inside --record-dir, e.g. "2026-10-18T09-30-05Z-0f8c2a52.cast"
+  name: string;
+  size: number;
+  modifiedAt: number;
+}
+
+export interface AsciicastEvent {
+  // Seconds since the start of the recording
+  time: number;
+  // "o" output, "r" resize ("COLSxROWS"); other event types are dropped
+  type: "o" | "r";
+  data: string;
+}
+
+export interface Asciicast {
+  width: number;
+  height: number;
+  title: string | null;
+  // Unix seconds when recording started
+  timestamp: number | null;
+  events: AsciicastEvent[];
+}
+
+// No path separators and no leading dot: a name is always a file directly in
+// the recording directory.
+const RECORDING_NAME_RE = /^[0-9A-Za-z][0-9A-Za-z._-]*\.cast$/;
+
+export function isRecordingName(name: string): boolean {
+  return RECORDING_NAME_RE.test(name);
+}
+
+function isRecordingEntry(value: unknown): value is RecordingEntry {
+  if (typeof value !== "object" || value === null) return false;
+  const r = value as Record<string, unknown>;
+  return (
+    typeof r.name === "string" &&
+    isRecordingName(r.name) &&
+    typeof r.size === "number" &&
+    typeof r.modifiedAt === "number"
+  );
+}
+
+/** Picks the recording list out of a /api/recordings response body, dropping malformed entries. */
+export function parseRecordingList(json: unknown): RecordingEntry[] {
+  if (typeof json !== "object" || json === null) return [];
+  const recordings = (json as { recordings?: unknown }).recordings;
+  if (!Array.isArray(recordings)) return [];
+  return recordings.filter(isRecordingEntry);
+}
+
+export async function loadRecordings(): Promise<RecordingEntry[]> {
+  const res = await fetch("/api/recordings");
+  if (res.status === 401) {
+    window.location.href = "/login";
+    return [];
+  }
+  if (!res.ok) {
+    throw new Error(`Failed to fetch recordings: ${res.status} ${res.statusText}`);
+  }
+  return parseRecordingList(await res.json());
+}
+
+/**
+ * Parses an asciicast v2 file. Throws on a missing or non-v2 header; event
+ * lines that don't parse are skipped, so a recording cut short by a crash
+ * still plays up to where it stops.
+ */
+export function parseAsciicast(text: string): Asciicast {
+  const lines = text.split("\n");
+  let header: unknown;
+  try {
+    header = JSON.parse(lines[0] ?? "");
+  } catch {
+    throw new Error("Not an asciicast file (no JSON header)");
+  }
+  if (typeof header !== "object" || header === null) {
+    throw new Error("Not an asciicast file (no JSON header)");
+  }
+  const h = header as Record<string, unknown>;
+  if (h.version !== 2 || typeof h.width !== "number" || typeof h.height !== "number") {
+    throw new Error("Unsupported asciicast file (expected version 2 with width and height)");
+  }
+
+  const events: AsciicastEvent[] = [];
+  for (const line of lines.slice(1)) {
+    if (line.trim() === "") continue;
+    let event: unknown;
+    try {
+      event = JSON.parse(line);
+    } catch {
+      continue;
+    }
+    if (!Array.isArray(event)) continue;
+    const [time, type, data] = event;
+    if (typeof time !== "number" || typeof data !== "string") continue;
+    if (type === "o" || type === "r") {
+      events.push({ time, type, data });
+    }
+  }
+
+  return {
+    width: h.width,
+    height: h.height,
+    title: typeof h.title === "string" ? h.title : null,
+    timestamp: typeof h.timestamp === "number" ? h.timestamp : null,
+    events,
+  };
+}
+
+/** "120x40" → { cols: 120, rows: 40 }, null if malformed. */
+export function parseResizeEvent(data: string): { cols: number; rows: number } | null {
+  const match = /^(\d+)x(\d+)$/.exec(data);
+  if (!match) return null;
+  const cols = Number(match[1]);
+  const rows = Number(match[2]);
+  return cols > 0 && rows > 0 ? { cols, rows } : null;
+}
+
+/**
+ * Shortens every pause between events to at most `maxIdleSeconds` (like
+ * asciinema's --idle-time-limit), or returns the events unchanged for null.
+ */
+export function compressIdle(events: AsciicastEvent[], maxIdleSeconds: number | null): AsciicastEvent[] {
+  if (maxIdleSeconds === null) return events;
+  let previous = 0;
+  let shifted = 0;
+  return events.map((event) => {
+    const gap = event.time - previous;
+    previous = event.time;
+    shifted += Math.min(Math.max(0, gap), maxIdleSeconds);
+    return { ...event, time: shifted };
+  });
+}
+
+/** Number of events at or before `time` (events are in time order). */
+export function countEventsUntil(events: AsciicastEvent[], time: number): number {
+  let low = 0;
+  let high = events.length;
+  while (low < high) {
+    const mid = (low + high) >>> 1;
+    if ((events[mid]?.time ?? 0) <= time) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  return low;
+}
@@ -1,7 +1,7 @@
 export { initHtpasswd, verifyCredentials } from "./htpasswd";
 
-const SESSION_TTL_SECONDS = 60 * 60 * 24; // 1 day
-const SESSION_TTL_MS = SESSION_TTL_SECONDS * 1000;
+// How long a login lasts without activity; [timeouts] login-session in --config.
+export const DEFAULT_SESSION_TTL_MS = 24 * 60 * 60 * 1000; // 1 day
 const PURGE_INTERVAL_MS = 60 * 60 * 1000; // 1 hour
 
 interface SessionData {
@@ -10,6 +10,7 @@ interface SessionData {
 }
 
 const validTokens = new Map<string, SessionData>();
+let sessionTtlMs = DEFAULT_SESSION_TTL_MS;
 
 const COOKIE_NAME = "mywebterm_session";
 
@@ -43,10 +44,18 @@ function purgeExpiredTokens(): void {
 
 setInterval(purgeExpiredTokens, PURGE_INTERVAL_MS).unref();
 
+// Applies from each token's next use; existing expiry times are left alone.
+export function setSessionTtl(ms: number): void {
+  if (!Number.isFinite(ms) || ms <= 0) {
+    throw new Error("Session TTL must be a positive number of milliseconds");
+  }
+  sessionTtlMs = ms;
+}
+
 export function createSession(username: string): string {
   purgeExpiredTokens();
   const token = crypto.randomUUID();
-  validTokens.set(token, { expiresAt: Date.now() + SESSION_TTL_MS, username });
+  validTokens.set(token, { expiresAt: Date.now() + sessionTtlMs, username });
   return token;
 }
 
@@ -60,10 +69,15 @@ export function isValidSession(token: string): boolean {
   // Refresh TTL on activity rather than rotating the token. createSession()
   // issues a fresh token on each login, which prevents classic session fixation.
   // The cookie is HttpOnly + SameSite=Strict (+ Secure over HTTPS).
-  data.expiresAt = Date.now() + SESSION_TTL_MS;
+  data.expiresAt = Date.now() + sessionTtlMs;
   return true;
 }
 
+/** Who logged in with the token, or null when it is not (or no longer) valid. */
+export function getSessionUser(token: string): string | null {
+  return isValidSession(token) ? (validTokens.get(token)?.username ?? null) : null;
+}
+
 export function invalidateSession(token: string): void {
   validTokens.delete(token);
 }
@@ -0,0 +1,55 @@
+import { describe, expect, test } from "bun:test";
+
+import { createClipboardOscHandler, formatClipboardPreview, parseClipboardOsc } from "./clipboardOsc";
+
+function base64(text: string): string {
+  return btoa(String.fromCharCode(...new TextEncoder().encode(text)));
+}
+
+describe("parseClipboardOsc", () => {
+  test("decodes writes for any selection, UTF-8 included", () => {
+    expect(parseClipboardOsc(`c;${base64("yanked")}`)).toEqual({ kind: "write", text: "yanked" });
+    expect(parseClipboardOsc(`;${base64("héllo ✓")}`)).toEqual({ kind: "write", text: "héllo ✓" });
+  });
+
+  test("recognizes reads", () => {
+    expect(parseClipboardOsc("c;?")).toEqual({ kind: "read" });
+  });
+
+  test("ignores clears, malformed and oversized payloads", () => {
+    expect(parseClipboardOsc("c;")).toBeNull();
+    expect(parseClipboardOsc("no-separator")).toBeNull();
+    expect(parseClipboardOsc("c;not base64!")).toBeNull();
+    expect(parseClipboardOsc(`c;${"A".repeat(2 * 1024 * 1024)}`)).toBeNull();
+  });
+});
+
+describe("createClipboardOscHandler", () => {
+  test("dispatches requests and always consumes the sequence", () => {
+    const writes: string[] = [];
+    let reads = 0;
+    const handler = createClipboardOscHandler({
+      onWriteRequest: (text) => writes.push(text),
+      onReadRequest: () => {
+        reads += 1;
+      },
+    });
+    expect(handler(`c;${base64("x")}`)).toBe(true);
+    expect(handler("c;?")).toBe(true);
+    expect(handler("garbage")).toBe(true);
+    expect(writes).toEqual(["x"]);
+    expect(reads).toBe(1);
+  });
+});
+
+describe("formatClipboardPreview", () => {
+  test("shows short single lines as they are", () => {
+    expect(formatClipboardPreview("hello")).toBe("hello");
+    expect(formatClipboardPreview("hello\n")).toBe("hello");
+  });
+
+  test("clips long or multi-line text and gives its length", () => {
+    expect(formatClipboardPreview("line one\nline two")).toBe("line one… (17 chars)");
+    expect(formatClipboardPreview("x".repeat(2000))).toBe(`${"x".repeat(80)}… (2,000 chars)`);
+  });
+});
@@ -0,0 +1,67 @@
+// OSC 52 — programs on the far side (tmux, neovim, `osc52` helpers) setting
+// the clipboard of the browser viewing the terminal:
+//
+//   OSC 52 ; <selection> ; <base64 text> BEL    set
+//   OSC 52 ; <selection> ; ? BEL                query (read back)
+//
+// <selection> ("c", "p", "s", "0"-"7", or empty) names X11 selections; the
+// browser has one clipboard, so it is ignored. Terminal output must not be able
+// to fill the clipboard unnoticed, so a write is confirmed by the user (or
+// allowed for the rest of the session), and reads are always refused: a
+// program should never see what the viewer copied elsewhere.
+
+export const CLIPBOARD_OSC = 52;
+
+// Decoded size cap; more than this is not a yank from an editor.
+const MAX_CLIPBOARD_BYTES = 1024 * 1024;
+const MAX_PREVIEW_LENGTH = 80;
+
+export type ClipboardOscRequest = { kind: "write"; text: string } | { kind: "read" };
+
+/** Parses an OSC 52 payload; null when it is malformed, empty, or too large. */
+export function parseClipboardOsc(data: string): ClipboardOscRequest | null {
+  const semicolonIndex = data.indexOf(";");
+  if (semicolonIndex === -1) return null;
+  const payload = data.slice(semicolonIndex + 1);
+  if (payload === "?") return { kind: "read" };
+  // Empty (or non-base64) data means "clear the selection" to xterm; there is
+  // nothing worth confirming in that.
+  if (payload === "" || payload.length > Math.ceil(MAX_CLIPBOARD_BYTES / 3) * 4) return null;
+  try {
+    const bytes = Uint8Array.from(atob(payload), (c) => c.charCodeAt(0));
+    return { kind: "write", text: new TextDecoder().decode(bytes) };
+  } catch {
+    return null;
+  }
+}
+
+interface ClipboardOscHandlers {
+  /** A program wants `text` on the clipboard. */
+  onWriteRequest: (text: string) => void;
+  /** A program asked to read the clipboard. */
+  onReadRequest: () => void;
+}
+
+/**
+ * Builds the OSC 52 handler. Always returns true so the sequence never falls
+ * through to the terminal as text, whether or not it was acted on.
+ */
+export function createClipboardOscHandler(handlers: ClipboardOscHandlers): (data: string) => boolean {
+  return (data: string) => {
+    const request = parseClipboardOsc(data);
+    if (request?.kind === "write") {
+      handlers.onWriteRequest(request.text);
+    } else if (request?.kind === "read") {
+      handlers.onReadRequest();
+    }
+    return true;
+  };
+}
+
+/** One-line preview for the confirmation toast: "first line… (1,234 chars)". */
+export function formatClipboardPreview(text: string): string {
+  const firstLine = text.split(/\r?\n/, 1)[0] ?? "";
+  const clipped = firstLine.length > MAX_PREVIEW_LENGTH || firstLine.length < text.trimEnd().length;
+  const shown = firstLine.length > MAX_PREVIEW_LENGTH ? firstLine.slice(0, MAX_PREVIEW_LENGTH) : firstLine;
+  return clipped ? `${shown}… (${text.length.toLocaleString("en-US")} chars)` : shown;
+}
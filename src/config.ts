@@ -5,6 +5,8 @@ export class AuthError extends Error {
   }
 }
 
+import type { SessionProfileSummary } from "./sessionProfiles";
+
 export const DEFAULT_APP_TITLE = "MyWebTerm";
 
 export interface TtyConfig {
@@ -15,6 +17,18 @@ export interface TtyConfig {
   authEnabled: boolean;
   // Host aliases from the --ssh-config file, offered on the start screen
   sshHosts: string[];
+  // Session profiles from the --config file, offered on the start screen
+  profiles: SessionProfileSummary[];
+  // Directories (--cwd-roots) a session may be started in; empty when none
+  cwdRoots: string[];
+  // Server runs with --record-dir, so sessions can be recorded
+  recordingEnabled: boolean;
+}
+
+function isProfileSummary(value: unknown): value is SessionProfileSummary {
+  if (typeof value !== "object" || value === null) return false;
+  const p = value as Record<string, unknown>;
+  return typeof p.id === "string" && typeof p.name === "string" && (p.icon === null || typeof p.icon === "string");
 }
 
 function toWebSocketProtocol(protocol: string): "ws:" | "wss:" {
@@ -34,6 +48,9 @@ export async function loadTtyConfig(locationLike: Pick<Location, "origin"> = win
   let shellCommand: string[] = [];
   let authEnabled = true;
   let sshHosts: string[] = [];
+  let profiles: SessionProfileSummary[] = [];
+  let cwdRoots: string[] = [];
+  let recordingEnabled = false;
   const controller = new AbortController();
   const timeoutId = setTimeout(() => controller.abort(), 4000);
   try {
@@ -50,6 +67,9 @@ export async function loadTtyConfig(locationLike: Pick<Location, "origin"> = win
       shellCommand = Array.isArray(json.shellCommand) ? json.shellCommand : [];
       authEnabled = typeof json.authEnabled === "boolean" ? json.authEnabled : true;
       sshHosts = Array.isArray(json.sshHosts) ? json.sshHosts.filter((h: unknown) => typeof h === "string") : [];
+      profiles = Array.isArray(json.profiles) ? json.profiles.filter(isProfileSummary) : [];
+      cwdRoots = Array.isArray(json.cwdRoots) ? json.cwdRoots.filter((d: unknown) => typeof d === "string") : [];
+      recordingEnabled = json.recordingEnabled === true;
     }
   } catch (err) {
     if (err instanceof AuthError) throw err;
@@ -65,5 +85,8 @@ export async function loadTtyConfig(locationLike: Pick<Location, "origin"> = win
     shellCommand,
     authEnabled,
     sshHosts,
+    profiles,
+    cwdRoots,
+    recordingEnabled,
   };
 }
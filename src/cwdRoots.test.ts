@@ -0,0 +1,48 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdirSync, mkdtempSync, realpathSync, rmSync, symlinkSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import { listSubdirectories, resolveAllowedDirectory } from "./cwdRoots";
+
+let dir: string;
+let root: string;
+
+beforeEach(() => {
+  dir = realpathSync(mkdtempSync(join(tmpdir(), "mywebterm-roots-")));
+  root = join(dir, "root");
+  mkdirSync(join(root, "src", "app"), { recursive: true });
+  mkdirSync(join(root, ".cache"));
+  mkdirSync(join(dir, "outside"));
+  writeFileSync(join(root, "notes.txt"), "");
+  symlinkSync(join(dir, "outside"), join(root, "escape"));
+  symlinkSync(join(root, "src"), join(root, "code"));
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe("resolveAllowedDirectory", () => {
+  test("accepts directories at or below a root", () => {
+    expect(resolveAllowedDirectory(root, [root])).toBe(root);
+    expect(resolveAllowedDirectory(join(root, "src", "app"), [root])).toBe(join(root, "src", "app"));
+    expect(resolveAllowedDirectory(join(root, "code"), [root])).toBe(join(root, "src"));
+  });
+
+  test("rejects anything else", () => {
+    expect(resolveAllowedDirectory(join(dir, "outside"), [root])).toBeNull();
+    expect(resolveAllowedDirectory(join(root, "escape"), [root])).toBeNull();
+    expect(resolveAllowedDirectory(join(root, "..", "outside"), [root])).toBeNull();
+    expect(resolveAllowedDirectory(`${root}-other`, [root])).toBeNull();
+    expect(resolveAllowedDirectory(join(root, "notes.txt"), [root])).toBeNull();
+    expect(resolveAllowedDirectory("root/src", [root])).toBeNull();
+    expect(resolveAllowedDirectory(root, [])).toBeNull();
+  });
+});
+
+describe("listSubdirectories", () => {
+  test("lists directories and links to them, sorted", () => {
+    expect(listSubdirectories(root)).toEqual([".cache", "code", "escape", "src"]);
+  });
+});
@@ -0,0 +1,48 @@
+// Where clients may start sessions: a handshake's cwd (the start screen's
+// directory field, New Session Here) and GET /api/directories are confined to
+// the `--cwd-roots` directories and everything below them. Paths are compared
+// after resolving symlinks, so a link inside a root cannot lead out of it.
+// Profile and --cwd directories come from the operator and are not checked.
+
+import { readdirSync, realpathSync, statSync } from "node:fs";
+import { isAbsolute, sep } from "node:path";
+
+// Enough for autocomplete; a directory with more is narrowed by typing.
+export const MAX_LISTED_DIRECTORIES = 500;
+
+function isWithin(path: string, root: string): boolean {
+  return path === root || path.startsWith(root.endsWith(sep) ? root : root + sep);
+}
+
+/**
+ * The real path of `requested` if it is an existing directory inside one of
+ * `roots` (which must themselves be real paths), otherwise null.
+ */
+export function resolveAllowedDirectory(requested: string, roots: readonly string[]): string | null {
+  if (!isAbsolute(requested) || requested.includes("\0")) return null;
+  let real: string;
+  try {
+    real = realpathSync(requested);
+    if (!statSync(real).isDirectory()) return null;
+  } catch {
+    return null;
+  }
+  return roots.some((root) => isWithin(real, root)) ? real : null;
+}
+
+/** Names of the directories directly in `dir` (symlinks to directories included), sorted. */
+export function listSubdirectories(dir: string): string[] {
+  const names: string[] = [];
+  for (const entry of readdirSync(dir, { withFileTypes: true })) {
+    let isDirectory = entry.isDirectory();
+    if (entry.isSymbolicLink()) {
+      try {
+        isDirectory = statSync(`${dir}${sep}${entry.name}`).isDirectory();
+      } catch {
+        // dangling link
+      }
+    }
+    if (isDirectory) names.push(entry.name);
+  }
+  return names.sort((a, b) => a.localeCompare(b)).slice(0, MAX_LISTED_DIRECTORIES);
+}
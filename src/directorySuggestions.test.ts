@@ -0,0 +1,33 @@
+import { describe, expect, test } from "bun:test";
+
+import { buildDirectorySuggestions, splitDirectoryQuery } from "./directorySuggestions";
+
+describe("splitDirectoryQuery", () => {
+  test("splits off the last segment", () => {
+    expect(splitDirectoryQuery("/home/me/sr")).toEqual({ parent: "/home/me", prefix: "sr" });
+    expect(splitDirectoryQuery("/home/me/")).toEqual({ parent: "/home/me", prefix: "" });
+    expect(splitDirectoryQuery("/ho")).toEqual({ parent: "/", prefix: "ho" });
+  });
+
+  test("needs an absolute path", () => {
+    expect(splitDirectoryQuery("src")).toBeNull();
+    expect(splitDirectoryQuery("")).toBeNull();
+  });
+});
+
+describe("buildDirectorySuggestions", () => {
+  const names = [".cache", ".config", "scratch", "src", "work"];
+
+  test("keeps matches as full paths", () => {
+    expect(buildDirectorySuggestions({ parent: "/home/me", prefix: "s" }, names)).toEqual([
+      "/home/me/scratch",
+      "/home/me/src",
+    ]);
+    expect(buildDirectorySuggestions({ parent: "/", prefix: "w" }, names)).toEqual(["/work"]);
+  });
+
+  test("shows hidden directories only for a dot prefix", () => {
+    expect(buildDirectorySuggestions({ parent: "/h", prefix: "" }, names)).toEqual(["/h/scratch", "/h/src", "/h/work"]);
+    expect(buildDirectorySuggestions({ parent: "/h", prefix: ".c" }, names)).toEqual(["/h/.cache", "/h/.config"]);
+  });
+});
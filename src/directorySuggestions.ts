@@ -0,0 +1,43 @@
+// Autocomplete for the start screen's directory field, backed by
+// GET /api/directories (which only lists directories under the server's cwd
+// roots).
+
+export interface DirectoryQuery {
+  // Directory to list
+  parent: string;
+  // What the last path segment starts with
+  prefix: string;
+}
+
+const MAX_SUGGESTIONS = 50;
+
+/** "/home/me/sr" → list "/home/me" for names starting "sr"; null unless absolute. */
+export function splitDirectoryQuery(input: string): DirectoryQuery | null {
+  if (!input.startsWith("/")) return null;
+  const slash = input.lastIndexOf("/");
+  return { parent: input.slice(0, slash) || "/", prefix: input.slice(slash + 1) };
+}
+
+/**
+ * Full paths for the query's matches. Hidden directories only show once the
+ * prefix starts with a dot.
+ */
+export function buildDirectorySuggestions(query: DirectoryQuery, directories: readonly string[]): string[] {
+  const base = query.parent.endsWith("/") ? query.parent : `${query.parent}/`;
+  return directories
+    .filter((name) => name.startsWith(query.prefix) && (query.prefix.startsWith(".") || !name.startsWith(".")))
+    .slice(0, MAX_SUGGESTIONS)
+    .map((name) => `${base}${name}`);
+}
+
+/** Subdirectory names of `path`, or [] when it is not listable. */
+export async function loadSubdirectories(path: string, signal?: AbortSignal): Promise<string[]> {
+  const res = await fetch(`/api/directories?path=${encodeURIComponent(path)}`, { signal });
+  if (res.status === 401) {
+    window.location.href = "/login";
+    return [];
+  }
+  if (!res.ok) return [];
+  const json = (await res.json()) as { directories?: unknown };
+  return Array.isArray(json.directories) ? json.directories.filter((d): d is string => typeof d === "string") : [];
+}
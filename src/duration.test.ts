@@ -0,0 +1,46 @@
+import { describe, expect, test } from "bun:test";
+
+import { formatDuration, parseDuration, parseTimeout } from "./duration";
+
+describe("parseDuration", () => {
+  test("parses single units and bare seconds", () => {
+    expect(parseDuration("90s")).toBe(90_000);
+    expect(parseDuration("5m")).toBe(300_000);
+    expect(parseDuration("2H")).toBe(7_200_000);
+    expect(parseDuration("1d")).toBe(86_400_000);
+    expect(parseDuration("300")).toBe(300_000);
+  });
+
+  test("combines units largest first", () => {
+    expect(parseDuration("1h30m")).toBe(5_400_000);
+    expect(parseDuration("1d2h3m4s")).toBe(93_784_000);
+  });
+
+  test("rejects malformed values", () => {
+    expect(() => parseDuration("")).toThrow("value is empty");
+    expect(() => parseDuration("5 minutes")).toThrow("expected e.g.");
+    expect(() => parseDuration("m5")).toThrow("expected e.g.");
+    expect(() => parseDuration("-5m")).toThrow("expected e.g.");
+    expect(() => parseDuration("30m1h")).toThrow("misorders units");
+    expect(() => parseDuration("5m5m")).toThrow("repeats");
+  });
+});
+
+describe("parseTimeout", () => {
+  test("treats never and zero as no limit", () => {
+    expect(parseTimeout("never")).toBeNull();
+    expect(parseTimeout(" Never ")).toBeNull();
+    expect(parseTimeout("0")).toBeNull();
+    expect(parseTimeout("10m")).toBe(600_000);
+  });
+});
+
+describe("formatDuration", () => {
+  test("round-trips parsed values", () => {
+    for (const text of ["5m", "1h30m", "1d", "45s", "2d3h"]) {
+      expect(formatDuration(parseDuration(text))).toBe(text);
+    }
+    expect(formatDuration(null)).toBe("never");
+    expect(formatDuration(0)).toBe("0s");
+  });
+});
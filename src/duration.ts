@@ -0,0 +1,72 @@
+// Parsing for durations given on the command line, such as `--detach-timeout`.
+//
+// Accepted forms:
+//   90s  5m  2h  1d      a number with a unit
+//   1h30m                units combined, largest first
+//   300                  a bare number is seconds
+//   never                no limit (only where the option allows it)
+
+const UNIT_MS: Record<string, number> = {
+  s: 1000,
+  m: 60_000,
+  h: 3_600_000,
+  d: 86_400_000,
+};
+const UNIT_ORDER = "dhms";
+
+const PART_RE = /(\d+)([dhms])/gy;
+
+/**
+ * Parses a duration into milliseconds. Throws an `Error` whose message
+ * completes the sentence "invalid --<option> value: ..." — the caller turns
+ * that into an exit.
+ */
+export function parseDuration(raw: string): number {
+  const text = raw.trim().toLowerCase();
+  if (text === "") throw new Error("value is empty");
+  if (/^\d+$/.test(text)) return Number(text) * 1000;
+
+  let total = 0;
+  let lastUnit = -1;
+  let consumed = 0;
+  PART_RE.lastIndex = 0;
+  for (let match = PART_RE.exec(text); match !== null; match = PART_RE.exec(text)) {
+    const [, amount, unit] = match;
+    if (amount === undefined || unit === undefined) break;
+    const order = UNIT_ORDER.indexOf(unit);
+    if (order <= lastUnit) {
+      throw new Error(`${JSON.stringify(raw)} repeats or misorders units (write e.g. 1h30m)`);
+    }
+    lastUnit = order;
+    total += Number(amount) * (UNIT_MS[unit] ?? 0);
+    consumed = PART_RE.lastIndex;
+  }
+  if (consumed !== text.length) {
+    throw new Error(`${JSON.stringify(raw)} (expected e.g. 90s, 5m, 2h, 1d, or 1h30m)`);
+  }
+  return total;
+}
+
+/** Like parseDuration, but also accepts "never" (and 0) for "no limit", returned as null. */
+export function parseTimeout(raw: string): number | null {
+  if (raw.trim().toLowerCase() === "never") return null;
+  const ms = parseDuration(raw);
+  return ms === 0 ? null : ms;
+}
+
+/** Compact form for logs and help text: "5m", "1h30m", "never". */
+export function formatDuration(ms: number | null): string {
+  if (ms === null) return "never";
+  let rest = Math.round(ms / 1000);
+  if (rest === 0) return "0s";
+  let text = "";
+  for (const unit of UNIT_ORDER) {
+    const unitSeconds = (UNIT_MS[unit] ?? 1000) / 1000;
+    const amount = Math.floor(rest / unitSeconds);
+    if (amount > 0) {
+      text += `${amount}${unit}`;
+      rest -= amount * unitSeconds;
+    }
+  }
+  return text;
+}
@@ -0,0 +1,56 @@
+import { describe, expect, test } from "bun:test";
+
+import {
+  applyEnvOverrides,
+  findSshHostOverrides,
+  NO_ENV_OVERRIDES,
+  parseEnvOverrides,
+  parseSshHostOverrides,
+} from "./envOverrides";
+
+describe("parseEnvOverrides", () => {
+  test("reads env and unset, ignoring other keys", () => {
+    expect(parseEnvOverrides({ name: "x", env: { COLORTERM: "truecolor" }, unset: ["DISPLAY"] })).toEqual({
+      env: { COLORTERM: "truecolor" },
+      unset: ["DISPLAY"],
+    });
+    expect(parseEnvOverrides({})).toEqual(NO_ENV_OVERRIDES);
+  });
+
+  test("names the offending variable", () => {
+    expect(() => parseEnvOverrides({ env: { EDITOR: 1 } })).toThrow("env.EDITOR: expected a string");
+    expect(() => parseEnvOverrides({ unset: "DISPLAY" })).toThrow("unset: expected a list of variable names");
+    expect(() => parseEnvOverrides({ unset: ["A B"] })).toThrow('unset: "A B" is not a valid variable name');
+    expect(() => parseEnvOverrides({ env: { A: "1" }, unset: ["A"] })).toThrow("unset: A is also set in env");
+  });
+});
+
+describe("ssh host overrides", () => {
+  const hosts = parseSshHostOverrides({
+    web1: { unset: ["DISPLAY"] },
+    "deploy@web1:2222": { env: { COLORTERM: "truecolor" } },
+  });
+
+  test("prefers the exact target, then the host", () => {
+    expect(findSshHostOverrides(hosts, "deploy@web1:2222")).toEqual({ env: { COLORTERM: "truecolor" }, unset: [] });
+    expect(findSshHostOverrides(hosts, "me@web1")).toEqual({ env: {}, unset: ["DISPLAY"] });
+    expect(findSshHostOverrides(hosts, "web2")).toBe(NO_ENV_OVERRIDES);
+  });
+
+  test("names the offending host and key", () => {
+    expect(() => parseSshHostOverrides({ web1: { user: "me" } })).toThrow("web1.user: unknown host setting");
+    expect(() => parseSshHostOverrides({ web1: { env: { "A-B": "1" } } })).toThrow(
+      "web1.env.A-B: not a valid variable name",
+    );
+    expect(() => parseSshHostOverrides({ "-oProxyCommand=x": {} })).toThrow("not an ssh target");
+  });
+});
+
+describe("applyEnvOverrides", () => {
+  test("removes, then sets", () => {
+    expect(applyEnvOverrides({ DISPLAY: ":0", PATH: "/bin" }, { env: { EDITOR: "hx" }, unset: ["DISPLAY"] })).toEqual({
+      PATH: "/bin",
+      EDITOR: "hx",
+    });
+  });
+});
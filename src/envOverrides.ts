@@ -0,0 +1,96 @@
+// Environment changes for new sessions, declared in the --config file for a
+// profile (in its [profiles.<id>] table) or for ssh sessions to a host:
+//
+//   [ssh-hosts."prod-bastion"]      # a target as typed, or just its host
+//   env = { COLORTERM = "truecolor" }
+//   unset = ["DISPLAY"]
+//
+// For ssh they apply to the local ssh process; the remote shell only sees
+// TERM and whatever ssh itself forwards (SendEnv / SetEnv in the ssh config).
+
+import { parseSshTarget } from "./ttyProtocol";
+
+export interface EnvOverrides {
+  // Added to (or replacing) the server's environment
+  env: Record<string, string>;
+  // Removed from it
+  unset: string[];
+}
+
+export const NO_ENV_OVERRIDES: EnvOverrides = { env: {}, unset: [] };
+
+const ENV_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+const SSH_HOST_KEYS = ["env", "unset"];
+
+function isTable(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Reads the `env` and `unset` keys of a profile or host table (other keys are
+ * the caller's). Throws an `Error` such as `env.A-B: not a valid variable name`.
+ */
+export function parseEnvOverrides(table: Record<string, unknown>): EnvOverrides {
+  const env: Record<string, string> = {};
+  if (table.env !== undefined) {
+    if (!isTable(table.env)) throw new Error("env: expected a table of strings");
+    for (const [name, value] of Object.entries(table.env)) {
+      if (!ENV_NAME_PATTERN.test(name)) throw new Error(`env.${name}: not a valid variable name`);
+      if (typeof value !== "string") throw new Error(`env.${name}: expected a string`);
+      env[name] = value;
+    }
+  }
+  const unset: string[] = [];
+  if (table.unset !== undefined) {
+    if (!Array.isArray(table.unset)) throw new Error("unset: expected a list of variable names");
+    for (const name of table.unset) {
+      if (typeof name !== "string" || !ENV_NAME_PATTERN.test(name)) {
+        throw new Error(`unset: ${JSON.stringify(name)} is not a valid variable name`);
+      }
+      if (name in env) throw new Error(`unset: ${name} is also set in env`);
+      unset.push(name);
+    }
+  }
+  return { env, unset };
+}
+
+/** Validates the config file's `ssh-hosts` table: host or target → overrides. */
+export function parseSshHostOverrides(value: unknown): Record<string, EnvOverrides> {
+  if (!isTable(value)) throw new Error("expected a table of hosts");
+  const hosts: Record<string, EnvOverrides> = {};
+  for (const [host, table] of Object.entries(value)) {
+    if (parseSshTarget(host) === null) throw new Error(`${host}: not an ssh target`);
+    if (!isTable(table)) throw new Error(`${host}: expected a table`);
+    for (const key of Object.keys(table)) {
+      if (!SSH_HOST_KEYS.includes(key)) throw new Error(`${host}.${key}: unknown host setting`);
+    }
+    try {
+      hosts[host] = parseEnvOverrides(table);
+    } catch (err) {
+      throw new Error(`${host}.${err instanceof Error ? err.message : err}`);
+    }
+  }
+  return hosts;
+}
+
+/**
+ * The overrides for an ssh target: an entry for the target exactly as typed
+ * ("deploy@web1:2222"), else one for its host ("web1").
+ */
+export function findSshHostOverrides(hosts: Record<string, EnvOverrides>, target: string): EnvOverrides {
+  if (Object.hasOwn(hosts, target)) return hosts[target] as EnvOverrides;
+  const parsed = parseSshTarget(target);
+  if (parsed === null) return NO_ENV_OVERRIDES;
+  const host = parsed.destination.slice(parsed.destination.lastIndexOf("@") + 1);
+  return Object.hasOwn(hosts, host) ? (hosts[host] as EnvOverrides) : NO_ENV_OVERRIDES;
+}
+
+/** `base` with the overrides applied; unset first, so a name in both ends up set. */
+export function applyEnvOverrides(
+  base: Record<string, string | undefined>,
+  overrides: EnvOverrides,
+): Record<string, string | undefined> {
+  const env = { ...base };
+  for (const name of overrides.unset) delete env[name];
+  return { ...env, ...overrides.env };
+}
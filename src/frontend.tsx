@@ -8,16 +8,13 @@
 import { StrictMode } from "react";
 import { createRoot } from "react-dom/client";
 import { App } from "./App";
+import { RecordingsPage } from "./RecordingsPage";
 
 const elem = document.getElementById("root");
 if (!elem) {
   throw new Error("Root element '#root' not found");
 }
-const app = (
-  <StrictMode>
-    <App />
-  </StrictMode>
-);
+const app = <StrictMode>{window.location.pathname === "/recordings" ? <RecordingsPage /> : <App />}</StrictMode>;
 
 if (import.meta.hot) {
   // With hot module reloading, `import.meta.hot.data` is persisted.
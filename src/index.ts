@@ -1,5 +1,4 @@
-import { chmodSync, statSync, unlinkSync } from "node:fs";
-import { resolve } from "node:path";
+import { chmodSync, readFileSync, statSync, unlinkSync } from "node:fs";
 import { parseArgs } from "node:util";
 import { type Server, type ServerWebSocket, serve } from "bun";
 import appleTouchIconPath from "./apple-touch-icon.png" with { type: "file" };
@@ -8,37 +7,65 @@ import {
   createSession as createAuthSession,
   extractSessionToken,
   getSessionCookie,
+  getSessionUser,
   initHtpasswd,
   invalidateSession,
   isRequestAuthenticated,
+  setSessionTtl,
   verifyCredentials,
 } from "./auth";
+import { listSubdirectories, resolveAllowedDirectory } from "./cwdRoots";
+import { formatDuration } from "./duration";
 import boldFont from "./fonts/JetBrainsMonoNerdFontMono-Bold.woff2" with { type: "file" };
 import regularFont from "./fonts/JetBrainsMonoNerdFontMono-Regular.woff2" with { type: "file" };
 import symbolsFont from "./fonts/SymbolsNerdFontMono-Regular.woff2" with { type: "file" };
 import index from "./index.html";
-import { DEFAULT_LISTEN, describeListenTarget, parseListenTarget } from "./listenTarget";
+import { DEFAULT_LISTEN, describeListenTarget } from "./listenTarget";
 import { buildLoginPageHtml } from "./loginPage";
+import { changedRestartOnlySettings, loadConfigFile, resolveServerSettings, type ServerSettings } from "./serverConfig";
+import { setStateDir } from "./sessionArchive";
 import {
   attachSession,
   createSession,
+  DEFAULT_DETACH_TIMEOUT_MS,
+  DEFAULT_TERM,
   destroyAllSessions,
   destroySession,
-  detachSession,
+  detachClient,
   ENDED_CLOSE_CODE,
+  getBroadcastTargets,
   getSession,
   getSessionSummaries,
   handlePong,
+  noteSessionInput,
   registerShutdownHandlers,
-  resizeSession,
+  resizeClient,
   setCwd,
+  setCwdRoots,
+  setDetachTimeout,
+  setSessionBroadcast,
+  setSessionMonitor,
+  setSessionPinned,
+  setSessionProfiles,
+  setSessionRecording,
+  setSessionTuning,
   setShellCommand,
+  setSizePolicy,
   setSshConfigPath,
+  setSshHostEnvironment,
+  setTerminalPreferences,
+  setTerminalType,
+  startActivityMonitor,
+  startArchiving,
   startStaleSweep,
   type WsData,
 } from "./sessionManager";
+import { summarizeProfile } from "./sessionProfiles";
+import { isRecordingEnabled, listRecordings, recordingPath, setRecordDir } from "./sessionRecorder";
+import { DEFAULT_SIZE_POLICY, describeSizePolicy } from "./sizePolicy";
 import { parseSshConfigHosts } from "./sshConfig";
 import { ClientCommand, decodeFrame, parseClientControl } from "./ttyProtocol";
+import { getWorkspace, removeWorkspace, saveWorkspace, setWorkspaceDir } from "./workspaceStore";
 
 declare const BUILD_VERSION: string;
 const VERSION = typeof BUILD_VERSION !== "undefined" ? BUILD_VERSION : "dev";
@@ -48,6 +75,10 @@ const USAGE = `Usage: bun src/index.ts [options] [-- shell command...]
 Options:
   -h, --help          Show this help message
   -v, --version       Show version
+  -c, --config <path>  JSON or TOML (.toml) file of settings: any option below
+                           by its long name, the shell command, and [timeouts]
+                           and [limits] tables; options given here win. SIGHUP
+                           reloads it (see docs/architecture.md)
   -l, --listen <target>   Where to bind (default: ${DEFAULT_LISTEN}). One of:
                             8671                       port on 127.0.0.1
                             0.0.0.0:8671               host and port
@@ -58,21 +89,50 @@ Options:
       --no-auth       Disable authentication (loopback or unix socket only)
       --dev           Enable development mode (HMR)
       --title <s>     Set the terminal title (default: "MyWebTerm")
+      --preferences <path>  JSON file of terminal preferences pushed to every
+                           client (theme, fontSize, scrollback, cursorStyle,
+                           cursorBlink, minColumns, bell); users can still
+                           override them per device
       --cwd <path>    Set the working directory for the shell (default: $HOME)
+      --cwd-roots <dirs>  Colon-separated directories (and everything below
+                           them) that clients may start sessions in
+                           (default: $HOME)
+      --term <type>   TERM for new sessions (default: ${DEFAULT_TERM})
       --ssh-config <path>  OpenSSH client config for ssh sessions (passed to ssh -F);
-                           its Host aliases are offered on the start screen`;
+                           its Host aliases are offered on the start screen
+      --state-dir <path>  Keep each session's last screen here so clients can
+                           still read it after a server restart (off by default)
+      --record-dir <path>  Record every session here as an asciicast (.cast)
+                           file; recording can be stopped and restarted from
+                           the UI (off by default)
+      --size-policy <p>  PTY size when several clients share a session
+                           (default: ${DEFAULT_SIZE_POLICY}). One of:
+                            driver      the driver's viewport wins
+                            smallest    smallest client wins, like tmux
+                            120x40      fixed size
+      --detach-timeout <d>  How long a session with no clients keeps running
+                           before it is killed, e.g. 30m, 8h, 1d, or never
+                           (default: ${formatDuration(DEFAULT_DETACH_TIMEOUT_MS)}); pinned sessions never are`;
 
 const parseArgsOptions = {
   options: {
     help: { type: "boolean", short: "h" },
     version: { type: "boolean", short: "v" },
+    config: { type: "string", short: "c" },
     listen: { type: "string", short: "l" },
     "htpasswd-file": { type: "string" },
     "no-auth": { type: "boolean" },
     dev: { type: "boolean" },
     title: { type: "string" },
+    preferences: { type: "string" },
     cwd: { type: "string" },
+    "cwd-roots": { type: "string" },
+    term: { type: "string" },
     "ssh-config": { type: "string" },
+    "size-policy": { type: "string" },
+    "state-dir": { type: "string" },
+    "record-dir": { type: "string" },
+    "detach-timeout": { type: "string" },
   },
   strict: true,
   allowPositionals: true,
@@ -103,20 +163,25 @@ if (values.version) {
   process.exit(0);
 }
 
-const noAuth = !!values["no-auth"];
+const cli = { values, positionals };
 
-const listenTarget = (() => {
+function loadSettings(): ServerSettings {
+  return resolveServerSettings(values.config ? loadConfigFile(values.config) : null, cli);
+}
+
+// Restart-only settings (see RESTART_ONLY_SETTINGS) keep their startup values
+// here; everything else follows SIGHUP reloads.
+let settings = (() => {
   try {
-    const target = parseListenTarget(values.listen ?? DEFAULT_LISTEN);
-    // Resolve here rather than in the parser so the parser stays pure and the
-    // socket path in errors and in the startup line is the one actually bound.
-    return target.kind === "unix" ? { ...target, path: resolve(target.path) } : target;
+    return loadSettings();
   } catch (err) {
-    console.error(`Invalid --listen value: ${err instanceof Error ? err.message : err}`);
+    console.error(err instanceof Error ? err.message : err);
     process.exit(1);
   }
 })();
 
+const noAuth = settings.noAuth;
+const listenTarget = settings.listen;
 const unixSocket = listenTarget.kind === "unix" ? listenTarget : null;
 
 // Prevent unauthenticated access on non-loopback interfaces. A unix socket is
@@ -127,16 +192,6 @@ if (noAuth && listenTarget.kind === "tcp" && !listenTarget.isLoopback) {
   process.exit(1);
 }
 
-if (!noAuth) {
-  const htpasswdPath = values["htpasswd-file"] ?? process.env.HTPASSWD_FILE ?? ".htpasswd";
-  try {
-    initHtpasswd(htpasswdPath);
-  } catch (err) {
-    console.error(`Failed to load htpasswd file: ${err instanceof Error ? err.message : err}`);
-    process.exit(1);
-  }
-}
-
 // Embed font and icon files into memory at startup so they work without
 // the source directories on the filesystem at runtime.
 const fontBuffers = new Map<string, ArrayBuffer>([
@@ -146,46 +201,97 @@ const fontBuffers = new Map<string, ArrayBuffer>([
 ]);
 const appleTouchIcon = await Bun.file(appleTouchIconPath).arrayBuffer();
 
-const command = positionals.length > 0 ? positionals : [process.env.SHELL || "/bin/sh", "-l"];
-const appTitle = values.title ?? "MyWebTerm";
-
 let nextConnectionId = 0;
 function createConnectionId(): string {
   nextConnectionId += 1;
   return `${Date.now()}-${nextConnectionId}`;
 }
 
-setShellCommand(command);
-if (values.cwd) {
-  try {
-    const stat = statSync(values.cwd);
-    if (!stat.isDirectory()) {
-      console.error(`Invalid --cwd: ${values.cwd} is not a directory`);
-      process.exit(1);
+let sshHosts: string[] = [];
+
+// Applies the settings that can change while running. Everything that can
+// fail comes first, so a bad reload changes nothing.
+function applySettings(next: ServerSettings): void {
+  if (!noAuth) {
+    try {
+      initHtpasswd(next.htpasswdFile);
+    } catch (err) {
+      throw new Error(`Failed to load htpasswd file: ${err instanceof Error ? err.message : err}`);
     }
-  } catch {
-    console.error(`Invalid --cwd: ${values.cwd} does not exist`);
-    process.exit(1);
   }
-}
-setCwd(values.cwd || process.env.HOME || undefined);
+  const nextSshHosts = next.sshConfig ? parseSshConfigHosts(readFileSync(next.sshConfig, "utf-8")) : [];
 
-let sshHosts: string[] = [];
-if (values["ssh-config"]) {
+  setShellCommand(next.command);
+  setCwd(next.cwd);
+  setCwdRoots(next.cwdRoots);
+  setSizePolicy(next.sizePolicy);
+  setDetachTimeout(next.detachTimeoutMs);
   // Absolute path: the PTY spawns with its own cwd, so a relative -F would
   // resolve against the wrong directory.
-  const sshConfigPath = resolve(values["ssh-config"]);
-  const sshConfigFile = Bun.file(sshConfigPath);
-  if (!(await sshConfigFile.exists())) {
-    console.error(`Invalid --ssh-config: ${values["ssh-config"]} does not exist`);
+  setSshConfigPath(next.sshConfig);
+  sshHosts = nextSshHosts;
+  setTerminalPreferences(next.preferences);
+  setSessionProfiles(next.profiles);
+  setTerminalType(next.term);
+  setSshHostEnvironment(next.sshHostEnvironment);
+  setSessionTuning(next.tuning);
+  setSessionTtl(next.loginSessionMs);
+}
+
+try {
+  applySettings(settings);
+} catch (err) {
+  console.error(err instanceof Error ? err.message : err);
+  process.exit(1);
+}
+
+if (settings.stateDir) {
+  try {
+    setStateDir(settings.stateDir);
+    setWorkspaceDir(settings.stateDir);
+  } catch (err) {
+    console.error(`Invalid --state-dir: ${err instanceof Error ? err.message : err}`);
+    process.exit(1);
+  }
+}
+
+if (settings.recordDir) {
+  try {
+    setRecordDir(settings.recordDir);
+  } catch (err) {
+    console.error(`Invalid --record-dir: ${err instanceof Error ? err.message : err}`);
     process.exit(1);
   }
-  setSshConfigPath(sshConfigPath);
-  sshHosts = parseSshConfigHosts(await sshConfigFile.text());
 }
 
+// Re-read the config file (flags still win). A bad file is reported and the
+// running settings are kept.
+process.on("SIGHUP", () => {
+  let next: ServerSettings;
+  try {
+    next = loadSettings();
+    applySettings(next);
+  } catch (err) {
+    console.error(`Reload failed, keeping the current settings: ${err instanceof Error ? err.message : err}`);
+    return;
+  }
+  const pending = changedRestartOnlySettings(settings, next);
+  settings = {
+    ...next,
+    listen: settings.listen,
+    noAuth: settings.noAuth,
+    stateDir: settings.stateDir,
+    recordDir: settings.recordDir,
+  };
+  console.log(
+    pending.length > 0 ? `Settings reloaded; ${pending.join(", ")} will change on restart` : "Settings reloaded",
+  );
+});
+
 registerShutdownHandlers();
 startStaleSweep();
+startArchiving();
+startActivityMonitor();
 
 function handleWsMessage(ws: ServerWebSocket<WsData>, message: string | Buffer): void {
   // Text messages are control messages (JSON)
@@ -203,18 +309,46 @@ function handleWsMessage(ws: ServerWebSocket<WsData>, message: string | Buffer):
 
     switch (ctrl.type) {
       case "handshake":
-        createSession(ws, ctrl.columns, ctrl.rows, ctrl.sshTarget);
+        createSession(ws, ctrl.columns, ctrl.rows, { sshTarget: ctrl.sshTarget, cwd: ctrl.cwd, profile: ctrl.profile });
         return;
       case "reconnect":
-        attachSession(ctrl.sessionId, ws, ctrl.columns, ctrl.rows);
+        attachSession(ctrl.sessionId, ws, ctrl.columns, ctrl.rows, ctrl.role ?? "driver");
         return;
       case "pong":
-        if (ws.data.sessionId) {
-          handlePong(ws.data.sessionId);
+        handlePong(ws);
+        return;
+      case "pin": {
+        // Pinning changes the session's lifetime, so it is a driver action like terminate.
+        const session = ws.data.sessionId ? getSession(ws.data.sessionId) : undefined;
+        if (session && ws.data.role === "driver") {
+          setSessionPinned(session, ctrl.pinned);
+        }
+        return;
+      }
+      case "record": {
+        const session = ws.data.sessionId ? getSession(ws.data.sessionId) : undefined;
+        if (session && ws.data.role === "driver") {
+          setSessionRecording(session, ctrl.recording);
+        }
+        return;
+      }
+      case "monitor": {
+        const session = ws.data.sessionId ? getSession(ws.data.sessionId) : undefined;
+        if (session && ws.data.role === "driver") {
+          setSessionMonitor(session, ctrl.monitor);
         }
         return;
+      }
+      case "broadcast": {
+        const session = ws.data.sessionId ? getSession(ws.data.sessionId) : undefined;
+        if (session && ws.data.role === "driver") {
+          setSessionBroadcast(session, ctrl.targets);
+        }
+        return;
+      }
       case "terminate":
-        if (ws.data.sessionId) {
+        // Only the driver may end the session; a viewer leaves by closing its socket.
+        if (ws.data.sessionId && ws.data.role === "driver") {
           destroySession(ws.data.sessionId, ENDED_CLOSE_CODE);
         }
         return;
@@ -247,7 +381,20 @@ function handleWsMessage(ws: ServerWebSocket<WsData>, message: string | Buffer):
 
   switch (frame.command) {
     case ClientCommand.INPUT:
-      terminal.write(frame.payload);
+    case ClientCommand.USER_INPUT:
+      // Viewers are read-only.
+      if (ws.data.role === "driver") {
+        noteSessionInput(session);
+        terminal.write(frame.payload);
+        // Synchronize input: the same keystrokes and pastes go to every
+        // session it broadcasts to, whoever is driving those. The terminal's
+        // own replies answer this session's program only.
+        if (frame.command !== ClientCommand.USER_INPUT) break;
+        for (const target of getBroadcastTargets(session)) {
+          noteSessionInput(target);
+          target.proc?.terminal?.write(frame.payload);
+        }
+      }
       break;
 
     case ClientCommand.RESIZE_TERMINAL: {
@@ -258,7 +405,9 @@ function handleWsMessage(ws: ServerWebSocket<WsData>, message: string | Buffer):
         break;
       }
 
-      resizeSession(session, resize.columns, resize.rows);
+      // Every client reports its viewport; the size policy decides whether it
+      // affects the PTY.
+      resizeClient(session, ws, resize.columns, resize.rows);
       break;
     }
 
@@ -268,24 +417,22 @@ function handleWsMessage(ws: ServerWebSocket<WsData>, message: string | Buffer):
 }
 
 function handleLoginPage(): Response {
-  return new Response(buildLoginPageHtml(appTitle), {
+  return new Response(buildLoginPageHtml(settings.title), {
     headers: { "Content-Type": "text/html; charset=utf-8" },
   });
 }
 
-const LOGIN_MAX_ATTEMPTS = 5;
-const LOGIN_WINDOW_MS = 60_000;
 const loginAttempts = new Map<string, { count: number; resetAt: number }>();
 
 function checkLoginRateLimit(ip: string): boolean {
   const now = Date.now();
   const record = loginAttempts.get(ip);
   if (!record || now >= record.resetAt) {
-    loginAttempts.set(ip, { count: 1, resetAt: now + LOGIN_WINDOW_MS });
+    loginAttempts.set(ip, { count: 1, resetAt: now + settings.loginWindowMs });
     return true;
   }
   record.count += 1;
-  return record.count <= LOGIN_MAX_ATTEMPTS;
+  return record.count <= settings.loginAttempts;
 }
 
 function clearLoginAttempts(ip: string): void {
@@ -355,7 +502,17 @@ function handleWebSocketUpgrade(req: Request, srv: Server<WsData>): Response | u
 
   const connectionId = createConnectionId();
   const upgraded = srv.upgrade(req, {
-    data: { sessionId: null, connectionId, handshakeTimer: null },
+    data: {
+      sessionId: null,
+      connectionId,
+      handshakeTimer: null,
+      role: "driver",
+      cols: 0,
+      rows: 0,
+      attachPending: null,
+      heartbeatTimer: null,
+      heartbeatPending: false,
+    },
   });
 
   if (!upgraded) {
@@ -368,10 +525,90 @@ function handleWebSocketUpgrade(req: Request, srv: Server<WsData>): Response | u
 function handleConfig(): Response {
   return Response.json({
     version: VERSION,
-    appTitle,
-    shellCommand: command,
+    appTitle: settings.title,
+    shellCommand: settings.command,
     authEnabled: !noAuth,
     sshHosts,
+    profiles: settings.profiles.map(summarizeProfile),
+    cwdRoots: settings.cwdRoots,
+    recordingEnabled: isRecordingEnabled(),
+  });
+}
+
+// Subdirectories for the start screen's directory field. Anything outside the
+// cwd roots is reported as missing, like a directory that does not exist.
+function handleDirectories(url: URL): Response {
+  const requested = url.searchParams.get("path");
+  if (requested === null) {
+    return Response.json({ error: "Missing path" }, { status: 400 });
+  }
+  const dir = resolveAllowedDirectory(requested, settings.cwdRoots);
+  if (dir === null) {
+    return Response.json({ error: "Not found" }, { status: 404 });
+  }
+  try {
+    return Response.json({ path: dir, directories: listSubdirectories(dir) });
+  } catch {
+    return Response.json({ error: "Cannot read directory" }, { status: 403 });
+  }
+}
+
+// Whose workspace a request reads or writes: the logged-in user, or the one
+// shared workspace without auth.
+function workspaceUser(req: Request): string | null {
+  if (noAuth) return "";
+  const token = extractSessionToken(req);
+  return token === null ? null : getSessionUser(token);
+}
+
+function handleGetWorkspace(req: Request): Response {
+  const user = workspaceUser(req);
+  if (user === null) {
+    return Response.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  return Response.json({ workspace: getWorkspace(user) }, { headers: { "Cache-Control": "no-store" } });
+}
+
+async function handlePutWorkspace(req: Request): Promise<Response> {
+  const user = workspaceUser(req);
+  if (user === null) {
+    return Response.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  try {
+    saveWorkspace(user, await req.text());
+  } catch (err) {
+    return Response.json({ error: err instanceof Error ? err.message : String(err) }, { status: 400 });
+  }
+  return Response.json({ ok: true });
+}
+
+function handleDeleteWorkspace(req: Request): Response {
+  const user = workspaceUser(req);
+  if (user === null) {
+    return Response.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  removeWorkspace(user);
+  return Response.json({ ok: true });
+}
+
+function handleRecordings(): Response {
+  return Response.json({ recordings: listRecordings() });
+}
+
+async function handleRecordingFile(name: string): Promise<Response> {
+  let decoded: string;
+  try {
+    decoded = decodeURIComponent(name);
+  } catch {
+    return new Response("Not Found", { status: 404 });
+  }
+  const path = recordingPath(decoded);
+  const file = path === null ? null : Bun.file(path);
+  if (file === null || !(await file.exists())) {
+    return new Response("Not Found", { status: 404 });
+  }
+  return new Response(file, {
+    headers: { "Content-Type": "application/x-asciicast", "Cache-Control": "no-store" },
   });
 }
 
@@ -446,6 +683,7 @@ if (unixSocket) {
 serve<WsData>({
   routes: {
     "/": index,
+    "/recordings": index,
     "/login": handleLoginPage,
     "/api/auth/login": { POST: handleLoginPost },
     "/api/auth/logout": { POST: handleLogout },
@@ -460,7 +698,7 @@ serve<WsData>({
         if (!ws.data.sessionId) {
           ws.close(4003, "Handshake timeout");
         }
-      }, 30_000);
+      }, settings.handshakeTimeoutMs);
     },
     message(ws, message) {
       handleWsMessage(ws, message);
@@ -477,10 +715,8 @@ serve<WsData>({
       const session = getSession(sessionId);
       if (!session) return;
 
-      // Detach (keep PTY alive) instead of destroying
-      if (session.attachedWs === ws) {
-        detachSession(session);
-      }
+      // Detach this client (keep PTY alive) instead of destroying
+      detachClient(session, ws);
     },
   },
 
@@ -489,7 +725,8 @@ serve<WsData>({
     : { hostname: listenTarget.hostname, port: listenTarget.port }),
 
   fetch(req, srv) {
-    const pathname = new URL(req.url).pathname;
+    const url = new URL(req.url);
+    const pathname = url.pathname;
 
     // Serve font files (always public).
     if (pathname.endsWith(".woff2")) {
@@ -528,6 +765,21 @@ serve<WsData>({
     if (pathname === "/api/sessions" && req.method === "GET") {
       return handleSessions();
     }
+    if (pathname === "/api/directories" && req.method === "GET") {
+      return handleDirectories(url);
+    }
+    if (pathname === "/api/workspace") {
+      if (req.method === "GET") return handleGetWorkspace(req);
+      if (req.method === "PUT") return handlePutWorkspace(req);
+      if (req.method === "DELETE") return handleDeleteWorkspace(req);
+      return new Response("Method Not Allowed", { status: 405, headers: { Allow: "GET, PUT, DELETE" } });
+    }
+    if (pathname === "/api/recordings" && req.method === "GET") {
+      return handleRecordings();
+    }
+    if (pathname.startsWith("/api/recordings/") && req.method === "GET") {
+      return handleRecordingFile(pathname.slice("/api/recordings/".length));
+    }
     if (pathname === "/api/restart" && req.method === "POST") {
       return handleRestart();
     }
@@ -555,4 +807,6 @@ if (unixSocket) {
   });
 }
 
-console.log(`Server running at ${describeListenTarget(listenTarget)} (command: ${JSON.stringify(command)})`);
+console.log(
+  `Server running at ${describeListenTarget(listenTarget)} (command: ${JSON.stringify(settings.command)}, size policy: ${describeSizePolicy(settings.sizePolicy)}, detach timeout: ${formatDuration(settings.detachTimeoutMs)})`,
+);
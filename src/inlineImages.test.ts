@@ -0,0 +1,154 @@
+import { describe, expect, test } from "bun:test";
+import { SerializeAddon } from "@xterm/addon-serialize";
+import { Terminal } from "@xterm/headless";
+
+import { createInlineImages, replayableKittyCommand, spliceInlineImages } from "./inlineImages";
+import { createShellIntegration, formatShellMark } from "./shellIntegration";
+
+function write(terminal: Terminal, data: string): Promise<void> {
+  return new Promise((resolve) => terminal.write(data, resolve));
+}
+
+function shadow(limitBytes = 1024) {
+  const terminal = new Terminal({ cols: 20, rows: 5, scrollback: 100, allowProposedApi: true });
+  const serialize = new SerializeAddon();
+  terminal.loadAddon(serialize);
+  const images = createInlineImages(terminal, limitBytes);
+  const shell = createShellIntegration(terminal);
+  const snapshot = () =>
+    spliceInlineImages(
+      serialize.serialize({ excludeAltBuffer: true, excludeModes: true }),
+      images.placements(),
+      terminal.buffer.normal,
+      shell.marks().map((mark) => ({ line: mark.line, sequence: formatShellMark(mark) })),
+    );
+  return { terminal, images, snapshot };
+}
+
+const SIXEL = '\x1bP0;1;0q"1;1;4;4#0~~~~\x1b\\';
+const IIP = "\x1b]1337;File=inline=1:QUJD\x07";
+const PROMPT = "\x1b]133;A\x07";
+const OUTPUT = "\x1b]133;C\x07";
+const END = "\x1b]133;D;0\x07";
+
+// What the client's terminal makes of a snapshot, its addon drawing each
+// sixel three rows high
+async function replay(snapshot: string) {
+  const terminal = new Terminal({ cols: 20, rows: 10, allowProposedApi: true });
+  const shell = createShellIntegration(terminal);
+  await write(terminal, snapshot.replaceAll(SIXEL, "\n\n\n"));
+  return { terminal, marks: shell.marks() };
+}
+
+describe("replayableKittyCommand", () => {
+  test("makes commands quiet and leaves out queries", () => {
+    expect(replayableKittyCommand("a=T,f=100;QUJD")).toBe("\x1b_Ga=T,f=100,q=2;QUJD\x1b\\");
+    expect(replayableKittyCommand("a=T,q=1,i=3;QUJD")).toBe("\x1b_Ga=T,i=3,q=2;QUJD\x1b\\");
+    expect(replayableKittyCommand("m=0;QUJD")).toBe("\x1b_Gm=0,q=2;QUJD\x1b\\");
+    expect(replayableKittyCommand("a=q,i=31;AAAA")).toBeNull();
+  });
+});
+
+describe("createInlineImages", () => {
+  test("keeps sixel, IIP and kitty images where they were drawn", async () => {
+    const { terminal, images } = shadow();
+    await write(terminal, `one\r\nab${SIXEL}\r\n${IIP}\x1b_Ga=T,f=100;QUJD\x1b\\\x1b]1337;SetMark\x07`);
+    expect(images.placements()).toEqual([
+      { line: 1, column: 2, sequence: SIXEL },
+      { line: 2, column: 0, sequence: IIP },
+      { line: 2, column: 0, sequence: "\x1b_Ga=T,f=100,q=2;QUJD\x1b\\" },
+    ]);
+  });
+
+  test("forgets images that are erased, scrolled out or over budget", async () => {
+    const { terminal, images } = shadow(SIXEL.length * 2);
+    await write(terminal, `${SIXEL}\r\n${SIXEL}\r\n${SIXEL}`);
+    expect(images.placements().map((image) => image.line)).toEqual([1, 2]);
+
+    await write(terminal, "\x1b[2J");
+    expect(images.placements()).toEqual([]);
+
+    await write(terminal, `${SIXEL}${"\r\n".repeat(110)}`);
+    expect(images.placements()).toEqual([]);
+  });
+
+  test("drops kitty images on a deletion, and ignores the alternate screen", async () => {
+    const { terminal, images } = shadow();
+    await write(terminal, `\x1b_Ga=T;QUJD\x1b\\${SIXEL}\x1b_Ga=d,d=A\x1b\\`);
+    expect(images.placements().map((image) => image.sequence)).toEqual([SIXEL]);
+
+    await write(terminal, `\x1b[?1049h${SIXEL}\x1b[?1049l`);
+    expect(images.placements()).toHaveLength(1);
+  });
+
+  test("keeps a chunked kitty transfer as one image, evicted whole", async () => {
+    const chunks = ["a=T,f=100,m=1;QUJD", "m=1;QUJD", "m=0;QUJD"];
+    const replayed = chunks.map(replayableKittyCommand).join("");
+    // Room for the transfer or a sixel beside it, not both
+    const { terminal, images } = shadow(replayed.length + SIXEL.length - 1);
+    await write(terminal, `${SIXEL}${chunks.map((chunk) => `\x1b_G${chunk}\x1b\\`).join("")}`);
+    expect(images.placements().map((image) => image.sequence)).toEqual([replayed]);
+
+    await write(terminal, SIXEL);
+    expect(images.placements().map((image) => image.sequence)).toEqual([SIXEL]);
+  });
+
+  test("counts the budget in bytes", async () => {
+    const named = "\x1b]1337;File=name=résumé.png;inline=1:QUJD\x07";
+    const { terminal, images } = shadow(named.length);
+    await write(terminal, named);
+    expect(images.placements()).toEqual([]);
+  });
+
+  test("keeps nothing without a budget", async () => {
+    const { terminal, images } = shadow(0);
+    await write(terminal, SIXEL);
+    expect(images.placements()).toEqual([]);
+  });
+});
+
+describe("spliceInlineImages", () => {
+  test("draws each image right after the row it was on", async () => {
+    const { terminal, snapshot } = shadow();
+    await write(terminal, `$ cat\r\n${SIXEL}\r\n$ `);
+    expect(snapshot()).toBe(`$ cat\r\n\r${SIXEL}\r\n$ `);
+  });
+
+  test("puts the column back, and skips wrapped rows", async () => {
+    const { terminal, snapshot } = shadow();
+    await write(terminal, `ab${SIXEL}${"x".repeat(30)}\r\nnext`);
+    expect(snapshot()).toBe(`ab${"x".repeat(18)}${"x".repeat(12)}\r\x1b[2C${SIXEL}\r\nnext`);
+  });
+
+  test("places an image on the last rows from the cursor", async () => {
+    const { terminal, snapshot } = shadow();
+    await write(terminal, `$ show\r\n${SIXEL}`);
+    // The snapshot leaves out the blank row and moves the cursor down to it.
+    expect(snapshot()).toBe(`$ show\x1b[1B\x1b[6D\r${SIXEL}`);
+
+    await write(terminal, "\x1b[1;10H");
+    expect(snapshot()).toBe(`$ show\x1b[3C\x1b7\x1b[1B\r${SIXEL}\x1b8`);
+  });
+
+  test("writes shell marks on their rows, so they land below the image's rows", async () => {
+    const { terminal, snapshot } = shadow();
+    await write(terminal, `${PROMPT}$ show\r\n${OUTPUT}${SIXEL}\r\n${END}${PROMPT}$ `);
+    expect(snapshot()).toBe(`$ show${PROMPT}\r\n${OUTPUT}\r${SIXEL}\r\n$ ${END}${PROMPT}`);
+
+    const client = await replay(snapshot());
+    expect(client.terminal.buffer.active.getLine(5)?.translateToString(true)).toBe("$ ");
+    expect(client.marks).toEqual([
+      { kind: "prompt", line: 0, exitCode: null },
+      { kind: "output", line: 1, exitCode: null },
+      { kind: "end", line: 5, exitCode: 0 },
+      { kind: "prompt", line: 5, exitCode: null },
+    ]);
+  });
+
+  test("puts a mark back on its own row of a wrapped line", async () => {
+    const { terminal, snapshot } = shadow();
+    await write(terminal, `${"x".repeat(5)}${OUTPUT}${"y".repeat(25)}\r\n${SIXEL}\r\n$ `);
+    const client = await replay(snapshot());
+    expect(client.marks).toEqual([{ kind: "output", line: 0, exitCode: null }]);
+  });
+});
@@ -0,0 +1,241 @@
+// Inline images kept by the server for resume. The client draws sixel, iTerm2
+// (IIP) and kitty images with @xterm/addon-image; the shadow terminal cannot,
+// so it keeps the raw sequences instead, each with a marker on the line the
+// cursor was on and the column it was at:
+//
+//   DCS <params> q <sixels> ST        sixel
+//   OSC 1337 ; File=<args>:<data> BEL  IIP (and its MultipartFile/FilePart/FileEnd form)
+//   APC G <keys> ; <data> ST           kitty (a chunked transfer, m=1 … m=0, kept as one)
+//
+// A resume snapshot is text, so the images are spliced back into it right
+// after the rows they were drawn on: the client's addon then draws them where
+// they were and moves the cursor past them as it did the first time. The
+// shadow terminal never moved its cursor past an image, so the text that
+// followed lands below the image again.
+//
+// An image goes with its line when that leaves the scrollback, when the screen
+// or scrollback it is on is erased (ED 2/3, `clear`) or the terminal is reset,
+// and the oldest go first once the session's images exceed their memory
+// budget. Images drawn on the alternate screen are not kept: full-screen apps
+// redraw their own previews.
+
+import type { IMarker, Terminal } from "@xterm/headless";
+
+export const IIP_OSC = 1337;
+// The IIP forms the addon draws; other OSC 1337 commands (SetMark, CurrentDir…) are not images
+const IIP_PREFIXES = ["File=", "MultipartFile=", "FilePart=", "FileEnd"];
+
+/** A kept image sequence and where it was drawn, as an absolute buffer line. */
+export interface ImagePlacement {
+  line: number;
+  column: number;
+  sequence: string;
+}
+
+interface TrackedImage {
+  marker: IMarker;
+  column: number;
+  sequence: string;
+  // The sequence's size in UTF-8, as it arrived, which the budget counts
+  bytes: number;
+  kitty: boolean;
+}
+
+export interface InlineImages {
+  /** Live images, oldest first. */
+  placements(): ImagePlacement[];
+  dispose(): void;
+}
+
+// Sixel parameters may carry sub-parameters ("0:1"), which the parser hands
+// over as arrays.
+function formatParams(params: (number | number[])[]): string {
+  return params.map((param) => (Array.isArray(param) ? param.join(":") : String(param))).join(";");
+}
+
+/**
+ * The kitty command to replay, or null for one that must not be: a query
+ * (`a=q`) only asks whether images work. Replays are made quiet (`q=2`), so
+ * the client's addon does not answer the shell with an "OK" it never asked
+ * for this time.
+ */
+export function replayableKittyCommand(data: string): string | null {
+  const separator = data.indexOf(";");
+  const keys = (separator === -1 ? data : data.slice(0, separator)).split(",").filter((key) => key !== "");
+  if (keys.includes("a=q")) return null;
+  const quiet = [...keys.filter((key) => !key.startsWith("q=")), "q=2"].join(",");
+  return `\x1b_G${quiet}${separator === -1 ? "" : data.slice(separator)}\x1b\\`;
+}
+
+/**
+ * Starts keeping the image sequences written to `terminal`, at most
+ * `limitBytes` of them (0 keeps none).
+ */
+export function createInlineImages(terminal: Terminal, limitBytes: number): InlineImages {
+  if (limitBytes <= 0) {
+    return { placements: () => [], dispose() {} };
+  }
+
+  let tracked: TrackedImage[] = [];
+  let bytes = 0;
+  // A chunked kitty transfer (m=1 … m=0) so far, kept as one image once it
+  // ends; null between transfers. `replay` is false for one not to keep.
+  let transfer: { sequence: string; bytes: number; replay: boolean } | null = null;
+
+  const drop = (image: TrackedImage) => {
+    if (!tracked.includes(image)) return;
+    tracked = tracked.filter((other) => other !== image);
+    bytes -= image.bytes;
+    image.marker.dispose();
+  };
+
+  const keep = (sequence: string, kitty = false, size = Buffer.byteLength(sequence)) => {
+    if (terminal.buffer.active.type === "alternate" || size > limitBytes) return;
+    const marker = terminal.registerMarker(0);
+    if (!marker) return;
+    const image = { marker, column: terminal.buffer.active.cursorX, sequence, bytes: size, kitty };
+    tracked.push(image);
+    bytes += size;
+    marker.onDispose(() => drop(image));
+    while (bytes > limitBytes && tracked[0]) drop(tracked[0]);
+  };
+
+  const handlers = [
+    terminal.parser.registerDcsHandler({ final: "q" }, (data, params) => {
+      keep(`\x1bP${formatParams(params)}q${data}\x1b\\`);
+      return true;
+    }),
+    terminal.parser.registerOscHandler(IIP_OSC, (data) => {
+      if (!IIP_PREFIXES.some((prefix) => data.startsWith(prefix))) return false;
+      keep(`\x1b]${IIP_OSC};${data}\x07`);
+      return true;
+    }),
+    terminal.parser.registerApcHandler({ final: "G" }, (data) => {
+      // A deletion can name images, placements, cells or columns; forgetting
+      // every kitty image is simpler than telling which survive it, and never
+      // brings back one the program removed.
+      if (/(^|,)a=d(,|;|$)/.test(data)) {
+        for (const image of tracked.filter((other) => other.kitty)) drop(image);
+        return true;
+      }
+      const command = replayableKittyCommand(data);
+      const more = /(^|,)m=1(,|;|$)/.test(data);
+      if (transfer === null && !more) {
+        if (command !== null) keep(command, true);
+        return true;
+      }
+      // Later chunks carry only m= (and q=): the first one says what it is.
+      transfer ??= { sequence: "", bytes: 0, replay: command !== null };
+      if (transfer.replay && command !== null) {
+        transfer.sequence += command;
+        transfer.bytes += Buffer.byteLength(command);
+      }
+      if (transfer.bytes > limitBytes) transfer = { sequence: "", bytes: 0, replay: false };
+      if (!more) {
+        if (transfer.replay) keep(transfer.sequence, true, transfer.bytes);
+        transfer = null;
+      }
+      return true;
+    }),
+    // Erase in display: 2 clears the screen, 3 the scrollback. Returning false
+    // lets the terminal erase as usual.
+    terminal.parser.registerCsiHandler({ final: "J" }, (params) => {
+      const { type, baseY } = terminal.buffer.active;
+      if (type === "alternate") return false;
+      const mode = params[0];
+      if (mode === 2) for (const image of tracked.filter((i) => i.marker.line >= baseY)) drop(image);
+      if (mode === 3) for (const image of tracked.filter((i) => i.marker.line < baseY)) drop(image);
+      return false;
+    }),
+  ];
+
+  return {
+    placements: () =>
+      tracked
+        .filter((image) => !image.marker.isDisposed && image.marker.line >= 0)
+        .map((image) => ({ line: image.marker.line, column: image.column, sequence: image.sequence })),
+    dispose() {
+      for (const handler of handlers) handler.dispose();
+      for (const image of tracked) image.marker.dispose();
+      tracked = [];
+      bytes = 0;
+      transfer = null;
+    },
+  };
+}
+
+// The parts of a buffer the splice needs to find its rows in a snapshot.
+interface SnapshotBuffer {
+  readonly baseY: number;
+  readonly cursorY: number;
+  getLine(y: number): { readonly isWrapped: boolean } | undefined;
+}
+
+/** A sequence that takes no room, such as an OSC 133 mark, to write with the cursor on `line`. */
+export interface SnapshotMark {
+  line: number;
+  sequence: string;
+}
+
+/**
+ * Puts `images` (and `marks`) back into `snapshot`, the serialized normal
+ * buffer of `buffer` (the serialize addon's output with neither the alternate
+ * screen nor the modes). The addon writes a row break ("\r\n") before every
+ * row that does not continue a wrapped one and nowhere else, so an image goes
+ * in right before the break that ends its line. An image on the last rows,
+ * after the last break, goes after the snapshot instead, placed from the
+ * cursor the snapshot ends with; one on the cursor's row leaves the cursor past
+ * it, as when it was drawn.
+ *
+ * A mark goes in the same way, ahead of the images on its line, but on its own
+ * row of a wrapped line and without moving the cursor. Written into the text
+ * rather than sent as line numbers, it lands below the rows the client's addon
+ * adds for the images above it.
+ */
+export function spliceInlineImages(
+  snapshot: string,
+  images: readonly ImagePlacement[],
+  buffer: SnapshotBuffer,
+  marks: readonly SnapshotMark[] = [],
+): string {
+  // Sorted by line, marks first on theirs (the sort is stable).
+  const entries = [
+    ...marks.map((mark) => ({ ...mark, image: false })),
+    ...images.map((image) => ({
+      line: image.line,
+      sequence: `\r${image.column > 0 ? `\x1b[${image.column}C` : ""}${image.sequence}`,
+      image: true,
+    })),
+  ].sort((a, b) => a.line - b.line);
+  const moveBy = (rows: number) => (rows < 0 ? `\x1b[${-rows}A` : rows > 0 ? `\x1b[${rows}B` : "");
+
+  let result = "";
+  let copied = 0; // snapshot characters already in the result
+  // Position of the row break before `row`: -2 before the first search, -1
+  // once there are no more.
+  let breakAt = -2;
+  let row = 0;
+  let trailing = "";
+  let atCursor = ""; // after the others, which put the cursor back
+  for (const entry of entries) {
+    // The row break that ends the entry's line comes before the next row that is not wrapped.
+    while (breakAt !== -1 && (row <= entry.line || buffer.getLine(row)?.isWrapped)) {
+      row++;
+      if (buffer.getLine(row)?.isWrapped) continue;
+      breakAt = snapshot.indexOf("\r\n", breakAt + 2);
+    }
+    if (breakAt === -1) {
+      const rows = entry.line - (buffer.baseY + buffer.cursorY);
+      if (rows !== 0) trailing += `\x1b7${moveBy(rows)}${entry.sequence}\x1b8`;
+      else if (entry.image) atCursor += entry.sequence;
+      else trailing += entry.sequence;
+      continue;
+    }
+    // The break ends the last row of the line, `row - 1`.
+    const rows = entry.line - (row - 1);
+    const sequence = !entry.image && rows !== 0 ? `\x1b7${moveBy(rows)}${entry.sequence}\x1b8` : entry.sequence;
+    result += snapshot.slice(copied, breakAt) + sequence;
+    copied = breakAt;
+  }
+  return result + snapshot.slice(copied) + trailing + atCursor;
+}
@@ -1,5 +1,5 @@
 import { expect, test } from "bun:test";
-import { createMouseReportRepairer } from "./mouseReports";
+import { createMouseReportRepairer, isMouseReport } from "./mouseReports";
 
 const size = { cols: 80, rows: 24 };
 const repairer = () => createMouseReportRepairer(() => size);
@@ -60,3 +60,12 @@ test("never emits a zero coordinate for a degenerate terminal size", () => {
   const repair = createMouseReportRepairer(() => ({ cols: 0, rows: 0 }));
   expect(repair("\x1b[<65;NaN;NaNM")).toBe("\x1b[<65;1;1M");
 });
+
+test("tells mouse reports from keys", () => {
+  expect(isMouseReport("\x1b[<0;12;3M\x1b[<0;12;3m")).toBe(true);
+  expect(isMouseReport("\x1b[32;12;3M")).toBe(true);
+  expect(isMouseReport("\x1b[M !!")).toBe(true);
+  expect(isMouseReport("\x1b[A")).toBe(false);
+  expect(isMouseReport("\x1b[<0;12;3Mls")).toBe(false);
+  expect(isMouseReport("M")).toBe(false);
+});
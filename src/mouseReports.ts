@@ -23,6 +23,19 @@ const MOUSE_REPORT_PREFIX = "\x1b[<";
 // biome-ignore lint/complexity/useRegexLiterals: literal form triggers noControlCharactersInRegex
 const SGR_MOUSE_REPORT_RE = new RegExp("\\x1b\\[<(\\d+);(-?\\d+|NaN);(-?\\d+|NaN)([Mm])", "g");
 
+// One or more whole mouse reports, in any encoding xterm.js sends as data:
+// SGR, URXVT (ESC [ button ; col ; row M) and UTF-8 (ESC [ M and three characters).
+// biome-ignore lint/complexity/useRegexLiterals: literal form triggers noControlCharactersInRegex
+const MOUSE_REPORTS_RE = new RegExp(
+  "^(?:\\x1b\\[<\\d+;-?\\d+;-?\\d+[Mm]|\\x1b\\[\\d+;\\d+;\\d+M|\\x1b\\[M[\\s\\S]{3})+$",
+  "u",
+);
+
+/** Whether `data` holds nothing but mouse reports. */
+export function isMouseReport(data: string): boolean {
+  return MOUSE_REPORTS_RE.test(data);
+}
+
 function clamp(value: number, min: number, max: number): number {
   return Math.min(Math.max(value, min), max);
 }
@@ -0,0 +1,106 @@
+import { describe, expect, test } from "bun:test";
+
+import {
+  listPanes,
+  MAX_PANES_PER_TAB,
+  type PaneLayout,
+  placePanes,
+  ratioAt,
+  removePane,
+  sanitizePaneLayout,
+  setSplitRatio,
+  splitPane,
+  type TerminalPane,
+} from "./paneLayout";
+
+const pane = (id: string): TerminalPane => ({ type: "pane", id, session: null });
+const ids = (layout: PaneLayout) => listPanes(layout).map((p) => p.id);
+
+describe("splitPane and removePane", () => {
+  test("split puts the new pane after the old one", () => {
+    const layout = splitPane(pane("a"), "a", "row", pane("b"));
+    expect(layout).toMatchObject({
+      type: "split",
+      direction: "row",
+      ratio: 0.5,
+      first: { id: "a" },
+      second: { id: "b" },
+    });
+    expect(ids(splitPane(layout, "a", "column", pane("c")))).toEqual(["a", "c", "b"]);
+  });
+
+  test("split leaves a full layout alone", () => {
+    let layout: PaneLayout = pane("p0");
+    for (let i = 1; i < MAX_PANES_PER_TAB; i++) layout = splitPane(layout, `p${i - 1}`, "row", pane(`p${i}`));
+    expect(listPanes(layout)).toHaveLength(MAX_PANES_PER_TAB);
+    expect(splitPane(layout, "p0", "row", pane("extra"))).toBe(layout);
+  });
+
+  test("remove hands the space to the sibling", () => {
+    const layout = splitPane(splitPane(pane("a"), "a", "row", pane("b")), "b", "column", pane("c"));
+    expect(removePane(layout, "b")).toMatchObject({ type: "split", first: { id: "a" }, second: { id: "c" } });
+    expect(removePane(removePane(layout, "b") as PaneLayout, "a")).toEqual(pane("c"));
+    expect(removePane(pane("a"), "a")).toBeNull();
+    expect(removePane(layout, "gone")).toBe(layout);
+  });
+});
+
+describe("placePanes", () => {
+  const layout: PaneLayout = {
+    type: "split",
+    id: "s1",
+    direction: "row",
+    ratio: 0.25,
+    first: pane("a"),
+    second: { type: "split", id: "s2", direction: "column", ratio: 0.5, first: pane("b"), second: pane("c") },
+  };
+
+  test("divides the area along each split", () => {
+    const { panes, dividers } = placePanes(layout);
+    expect(panes).toEqual([
+      { id: "a", rect: { left: 0, top: 0, width: 0.25, height: 1 } },
+      { id: "b", rect: { left: 0.25, top: 0, width: 0.75, height: 0.5 } },
+      { id: "c", rect: { left: 0.25, top: 0.5, width: 0.75, height: 0.5 } },
+    ]);
+    expect(dividers.map((d) => d.splitId)).toEqual(["s1", "s2"]);
+  });
+
+  test("ratioAt maps a drag position into the split's own area, clamped", () => {
+    const inner = placePanes(layout).dividers[1];
+    if (!inner) throw new Error("missing divider");
+    expect(ratioAt(inner, 0.25)).toBe(0.25);
+    expect(ratioAt(inner, 1)).toBe(0.9);
+    expect(setSplitRatio(layout, "s1", 0)).toMatchObject({ ratio: 0.1 });
+  });
+});
+
+describe("sanitizePaneLayout", () => {
+  test("keeps a valid layout, clamping ratios", () => {
+    expect(
+      sanitizePaneLayout({
+        type: "split",
+        id: "s",
+        direction: "column",
+        ratio: 5,
+        first: { type: "pane", id: "a", session: { sessionId: "x", role: "viewer" } },
+        second: { type: "pane", id: "b", extra: true },
+      }),
+    ).toEqual({
+      type: "split",
+      id: "s",
+      direction: "column",
+      ratio: 0.9,
+      first: { type: "pane", id: "a", session: { sessionId: "x", role: "viewer" } },
+      second: pane("b"),
+    });
+  });
+
+  test("rejects malformed layouts and repeated ids", () => {
+    expect(sanitizePaneLayout({ type: "split", id: "s", direction: "row", ratio: 0.5, first: pane("a") })).toBeNull();
+    expect(
+      sanitizePaneLayout({ type: "split", id: "s", direction: "row", ratio: 0.5, first: pane("a"), second: pane("a") }),
+    ).toBeNull();
+    expect(sanitizePaneLayout({ type: "split", id: "s", direction: "diagonal", ratio: 0.5 })).toBeNull();
+    expect(sanitizePaneLayout({ type: "pane" })).toBeNull();
+  });
+});
@@ -0,0 +1,203 @@
+// Split panes within a tab: a binary tree whose leaves are panes, each bound
+// to its own PTY session, and whose inner nodes split their area between two
+// children, side by side ("row") or one above the other ("column").
+//
+// The browser lays panes out from placements computed here rather than from
+// nested elements, so splitting or closing a pane never remounts (and
+// reconnects) the terminals of the others.
+
+import type { StoredSession } from "./useTerminal";
+
+export type SplitDirection = "row" | "column";
+
+export interface TerminalPane {
+  type: "pane";
+  id: string;
+  session: StoredSession | null;
+  // How the session was started, kept for a handshake that has to be redone
+  // (the session ended while the server restarted): the same ssh target or
+  // profile again, never a surprise local shell. At most one is set.
+  sshTarget?: string;
+  profile?: string;
+  startDirectory?: string;
+}
+
+export interface PaneSplit {
+  type: "split";
+  id: string;
+  direction: SplitDirection;
+  // The first child's share of the area
+  ratio: number;
+  first: PaneLayout;
+  second: PaneLayout;
+}
+
+export type PaneLayout = TerminalPane | PaneSplit;
+
+// Fractions of the tab's terminal area, 0–1
+export interface PaneRect {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+export interface PanePlacement {
+  id: string;
+  rect: PaneRect;
+}
+
+export interface DividerPlacement {
+  splitId: string;
+  direction: SplitDirection;
+  // The area the split divides (not the divider itself)
+  area: PaneRect;
+  ratio: number;
+}
+
+export const MAX_PANES_PER_TAB = 8;
+const MIN_SPLIT_RATIO = 0.1;
+const MAX_LAYOUT_DEPTH = MAX_PANES_PER_TAB;
+
+export function createPane(): TerminalPane {
+  return { type: "pane", id: crypto.randomUUID(), session: null };
+}
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === "string" && value !== "" ? value : undefined;
+}
+
+function sanitizeSession(value: unknown): StoredSession | null {
+  if (typeof value !== "object" || value === null) return null;
+  const { sessionId, role } = value as Record<string, unknown>;
+  if (typeof sessionId !== "string" || sessionId === "") return null;
+  return { sessionId, role: role === "viewer" ? "viewer" : "driver" };
+}
+
+/** A pane from untrusted fields (sessionStorage); null without an id. */
+export function sanitizePane(value: unknown): TerminalPane | null {
+  if (typeof value !== "object" || value === null) return null;
+  const raw = value as Record<string, unknown>;
+  if (typeof raw.id !== "string" || raw.id === "") return null;
+  const pane: TerminalPane = { type: "pane", id: raw.id, session: sanitizeSession(raw.session) };
+  const sshTarget = optionalString(raw.sshTarget);
+  const profile = optionalString(raw.profile);
+  const startDirectory = optionalString(raw.startDirectory);
+  if (sshTarget !== undefined) pane.sshTarget = sshTarget;
+  else if (profile !== undefined) pane.profile = profile;
+  if (startDirectory !== undefined) pane.startDirectory = startDirectory;
+  return pane;
+}
+
+function clampRatio(ratio: number): number {
+  return Math.min(1 - MIN_SPLIT_RATIO, Math.max(MIN_SPLIT_RATIO, ratio));
+}
+
+/**
+ * Keeps a valid layout from untrusted input: null when anything in it is
+ * malformed, nested too deep, or uses an id twice.
+ */
+export function sanitizePaneLayout(value: unknown): PaneLayout | null {
+  const seen = new Set<string>();
+  const visit = (node: unknown, depth: number): PaneLayout | null => {
+    if (typeof node !== "object" || node === null || depth > MAX_LAYOUT_DEPTH) return null;
+    const raw = node as Record<string, unknown>;
+    if (typeof raw.id !== "string" || seen.has(raw.id)) return null;
+    seen.add(raw.id);
+    if (raw.type === "pane") return sanitizePane(raw);
+    if (raw.type !== "split" || (raw.direction !== "row" && raw.direction !== "column")) return null;
+    if (typeof raw.ratio !== "number" || !Number.isFinite(raw.ratio)) return null;
+    const first = visit(raw.first, depth + 1);
+    const second = visit(raw.second, depth + 1);
+    if (first === null || second === null) return null;
+    return { type: "split", id: raw.id, direction: raw.direction, ratio: clampRatio(raw.ratio), first, second };
+  };
+  const layout = visit(value, 0);
+  return layout !== null && listPanes(layout).length <= MAX_PANES_PER_TAB ? layout : null;
+}
+
+/** Panes in reading order: left before right, top before bottom. */
+export function listPanes(layout: PaneLayout): TerminalPane[] {
+  return layout.type === "pane" ? [layout] : [...listPanes(layout.first), ...listPanes(layout.second)];
+}
+
+export function findPane(layout: PaneLayout, id: string): TerminalPane | null {
+  return listPanes(layout).find((pane) => pane.id === id) ?? null;
+}
+
+// Children first, so what `fn` returns is never visited again.
+function mapLayout(layout: PaneLayout, fn: (node: PaneLayout) => PaneLayout): PaneLayout {
+  if (layout.type === "pane") return fn(layout);
+  const first = mapLayout(layout.first, fn);
+  const second = mapLayout(layout.second, fn);
+  return fn(first === layout.first && second === layout.second ? layout : { ...layout, first, second });
+}
+
+export function updatePane(layout: PaneLayout, id: string, change: Partial<TerminalPane>): PaneLayout {
+  return mapLayout(layout, (node) => (node.type === "pane" && node.id === id ? { ...node, ...change } : node));
+}
+
+/** Splits a pane in two, the new pane right of or below it; unchanged when the tab is full. */
+export function splitPane(
+  layout: PaneLayout,
+  id: string,
+  direction: SplitDirection,
+  newPane: TerminalPane,
+): PaneLayout {
+  if (listPanes(layout).length >= MAX_PANES_PER_TAB) return layout;
+  return mapLayout(layout, (node) =>
+    node.type === "pane" && node.id === id
+      ? { type: "split", id: crypto.randomUUID(), direction, ratio: 0.5, first: node, second: newPane }
+      : node,
+  );
+}
+
+/** The layout without a pane, its sibling taking the space; null when it was the only one. */
+export function removePane(layout: PaneLayout, id: string): PaneLayout | null {
+  if (layout.type === "pane") return layout.id === id ? null : layout;
+  const first = removePane(layout.first, id);
+  const second = removePane(layout.second, id);
+  if (first === null) return second;
+  if (second === null) return first;
+  return first === layout.first && second === layout.second ? layout : { ...layout, first, second };
+}
+
+export function setSplitRatio(layout: PaneLayout, splitId: string, ratio: number): PaneLayout {
+  return mapLayout(layout, (node) =>
+    node.type === "split" && node.id === splitId ? { ...node, ratio: clampRatio(ratio) } : node,
+  );
+}
+
+/** Where each pane and divider goes, as fractions of the whole area. */
+export function placePanes(layout: PaneLayout): { panes: PanePlacement[]; dividers: DividerPlacement[] } {
+  const panes: PanePlacement[] = [];
+  const dividers: DividerPlacement[] = [];
+  const place = (node: PaneLayout, area: PaneRect) => {
+    if (node.type === "pane") {
+      panes.push({ id: node.id, rect: area });
+      return;
+    }
+    dividers.push({ splitId: node.id, direction: node.direction, area, ratio: node.ratio });
+    if (node.direction === "row") {
+      const firstWidth = area.width * node.ratio;
+      place(node.first, { ...area, width: firstWidth });
+      place(node.second, { ...area, left: area.left + firstWidth, width: area.width - firstWidth });
+    } else {
+      const firstHeight = area.height * node.ratio;
+      place(node.first, { ...area, height: firstHeight });
+      place(node.second, { ...area, top: area.top + firstHeight, height: area.height - firstHeight });
+    }
+  };
+  place(layout, { left: 0, top: 0, width: 1, height: 1 });
+  return { panes, dividers };
+}
+
+/**
+ * The ratio a divider dragged to `position` (a fraction of the whole area,
+ * along the split's direction) gives its split.
+ */
+export function ratioAt(divider: DividerPlacement, position: number): number {
+  const [start, size] =
+    divider.direction === "row" ? [divider.area.left, divider.area.width] : [divider.area.top, divider.area.height];
+  return clampRatio((position - start) / size);
+}
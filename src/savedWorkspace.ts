@@ -0,0 +1,29 @@
+// The format of a saved workspace (see workspaceSync.ts), shared by the
+// browser that saves it and the server that keeps it (workspaceStore.ts).
+
+import { sanitizeTerminalPreferences } from "./terminalPreferences";
+import { sanitizeTabWorkspace, type TabWorkspace } from "./terminalTabs";
+
+export interface SavedWorkspace {
+  workspace: TabWorkspace;
+  // This device's overrides when it was saved; unset means the server default
+  fontSize?: number;
+  minColumns?: number;
+}
+
+// A saved workspace is a few hundred bytes per pane; this is far beyond any
+// real one.
+export const MAX_SAVED_WORKSPACE_BYTES = 64 * 1024;
+
+/** Keeps a valid saved workspace from untrusted JSON; null when it has no valid tab. */
+export function parseSavedWorkspace(value: unknown): SavedWorkspace | null {
+  if (typeof value !== "object" || value === null) return null;
+  const raw = value as Record<string, unknown>;
+  const workspace = sanitizeTabWorkspace(raw.workspace);
+  if (workspace === null) return null;
+  const { fontSize, minColumns } = sanitizeTerminalPreferences({ fontSize: raw.fontSize, minColumns: raw.minColumns });
+  const saved: SavedWorkspace = { workspace };
+  if (fontSize !== undefined) saved.fontSize = fontSize;
+  if (minColumns !== undefined) saved.minColumns = minColumns;
+  return saved;
+}
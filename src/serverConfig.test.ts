@@ -0,0 +1,122 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdirSync, mkdtempSync, realpathSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { type CommandLine, changedRestartOnlySettings, loadConfigFile, resolveServerSettings } from "./serverConfig";
+import { DEFAULT_SESSION_TUNING } from "./sessionManager";
+
+const env = { SHELL: "/bin/zsh", HOME: "/" };
+const noFlags: CommandLine = { values: {}, positionals: [] };
+
+let dir: string;
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), "mywebterm-config-"));
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+function writeConfig(name: string, content: string): string {
+  const path = join(dir, name);
+  writeFileSync(path, content);
+  return path;
+}
+
+describe("loadConfigFile", () => {
+  test("reads TOML and JSON", () => {
+    const toml = loadConfigFile(writeConfig("a.toml", 'title = "Dev"\n[limits]\nmax-cols = 300\n'));
+    expect(toml.values).toEqual({ title: "Dev", limits: { "max-cols": 300 } });
+    const json = loadConfigFile(writeConfig("a.json", '{"title": "Dev"}'));
+    expect(json.values).toEqual({ title: "Dev" });
+  });
+
+  test("names unknown keys and unreadable files", () => {
+    const path = writeConfig("a.toml", "titel = 1\n");
+    expect(() => loadConfigFile(path)).toThrow(`Invalid titel in ${path}: unknown setting`);
+    const nested = writeConfig("b.toml", "[timeouts]\nheartbeat = 5\n");
+    expect(() => loadConfigFile(nested)).toThrow(`Invalid timeouts.heartbeat in ${nested}: unknown setting`);
+    expect(() => loadConfigFile(join(dir, "missing.json"))).toThrow("Invalid --config:");
+    expect(() => loadConfigFile(writeConfig("c.json", "[1]"))).toThrow("expected a table of settings");
+  });
+});
+
+describe("resolveServerSettings", () => {
+  test("falls back to the defaults", () => {
+    const settings = resolveServerSettings(null, noFlags, env);
+    expect(settings.title).toBe("MyWebTerm");
+    expect(settings.command).toEqual(["/bin/zsh", "-l"]);
+    expect(settings.cwd).toBe("/");
+    expect(settings.htpasswdFile).toBe(".htpasswd");
+    expect(settings.cwdRoots).toEqual(["/"]);
+    expect(settings.tuning).toEqual(DEFAULT_SESSION_TUNING);
+    expect(settings.preferences).toEqual({});
+  });
+
+  test("reads the file, with flags on top", () => {
+    mkdirSync(join(dir, "work"));
+    const file = loadConfigFile(
+      writeConfig(
+        "a.toml",
+        [
+          'title = "Dev"',
+          'cwd = "work"',
+          'command = ["/bin/bash"]',
+          'detach-timeout = "never"',
+          "[timeouts]",
+          'heartbeat-interval = "1m"',
+          "kill-escalation = 2",
+          "[limits]",
+          "max-cols = 300",
+          "image-memory = 2",
+          "[preferences]",
+          'theme = "light"',
+        ].join("\n"),
+      ),
+    );
+    const settings = resolveServerSettings(file, { values: { title: "Ops" }, positionals: ["/bin/sh"] }, env);
+    expect(settings.title).toBe("Ops");
+    expect(settings.command).toEqual(["/bin/sh"]);
+    expect(settings.cwd).toBe(join(dir, "work"));
+    expect(settings.detachTimeoutMs).toBeNull();
+    expect(settings.tuning.heartbeatIntervalMs).toBe(60_000);
+    expect(settings.tuning.killEscalationMs).toBe(2000);
+    expect(settings.tuning.maxCols).toBe(300);
+    expect(settings.tuning.imageMemoryBytes).toBe(2 * 1024 * 1024);
+    expect(settings.preferences).toEqual({ theme: "light" });
+  });
+
+  test("reads cwd roots as a list or a colon-separated flag", () => {
+    mkdirSync(join(dir, "a"));
+    mkdirSync(join(dir, "b"));
+    const file = loadConfigFile(writeConfig("a.json", JSON.stringify({ "cwd-roots": ["a", "b"] })));
+    const real = realpathSync(dir);
+    expect(resolveServerSettings(file, noFlags, env).cwdRoots).toEqual([join(real, "a"), join(real, "b")]);
+    const flag = { values: { "cwd-roots": `${join(dir, "b")}:/` }, positionals: [] };
+    expect(resolveServerSettings(file, flag, env).cwdRoots).toEqual([join(real, "b"), "/"]);
+  });
+
+  test("names the offending flag or key", () => {
+    const path = writeConfig("a.toml", "[limits]\nmax-cols = 5\n");
+    expect(() => resolveServerSettings(loadConfigFile(path), noFlags, env)).toThrow(
+      `Invalid limits.max-cols in ${path}: expected an integer from 20 to 2000`,
+    );
+    const prefs = writeConfig("b.toml", "[preferences]\nfontSize = 100\n");
+    expect(() => resolveServerSettings(loadConfigFile(prefs), noFlags, env)).toThrow(
+      `Invalid preferences in ${prefs}: fontSize: expected an integer from 6 to 48`,
+    );
+    expect(() => resolveServerSettings(null, { values: { "size-policy": "big" }, positionals: [] }, env)).toThrow(
+      "Invalid --size-policy:",
+    );
+    expect(() => resolveServerSettings(null, { values: { cwd: join(dir, "missing") }, positionals: [] }, env)).toThrow(
+      `Invalid --cwd: ${join(dir, "missing")} does not exist`,
+    );
+  });
+
+  test("reports restart-only changes", () => {
+    const before = resolveServerSettings(null, noFlags, env);
+    const after = resolveServerSettings(null, { values: { listen: "9000", title: "Dev" }, positionals: [] }, env);
+    expect(changedRestartOnlySettings(before, after)).toEqual(["listen"]);
+  });
+});
@@ -0,0 +1,384 @@
+// Server settings: an optional --config file (JSON, or TOML when the name ends
+// in .toml) with the command-line flags on top. Every flag has a file key of
+// the same name, and the file can also set the shell command and the limits
+// and timeouts that are otherwise built in:
+//
+//   listen = "0.0.0.0:8671"
+//   title = "Dev"
+//   command = ["/usr/bin/fish", "-l"]
+//   detach-timeout = "8h"
+//
+//   [timeouts]
+//   heartbeat-interval = "30s"
+//
+//   [limits]
+//   max-cols = 300
+//
+//   [preferences]          # or: preferences = "preferences.json"
+//   theme = "light"
+//
+//   [profiles.repl]        # see sessionProfiles.ts
+//   name = "python3 REPL"
+//   command = ["python3"]
+//
+//   [ssh-hosts.web1]       # see envOverrides.ts
+//   unset = ["DISPLAY"]
+//
+// Relative paths in the file are relative to the file. Errors name the flag or
+// key at fault. index.ts resolves the settings again on SIGHUP; the settings in
+// RESTART_ONLY_SETTINGS keep their startup values until a restart.
+
+import { readFileSync, realpathSync, statSync } from "node:fs";
+import { dirname, resolve } from "node:path";
+import { DEFAULT_SESSION_TTL_MS } from "./auth";
+import { parseDuration, parseTimeout } from "./duration";
+import { type EnvOverrides, parseSshHostOverrides } from "./envOverrides";
+import { DEFAULT_LISTEN, type ListenTarget, parseListenTarget } from "./listenTarget";
+import { DEFAULT_DETACH_TIMEOUT_MS, DEFAULT_SESSION_TUNING, DEFAULT_TERM, type SessionTuning } from "./sessionManager";
+import { parseSessionProfiles, type SessionProfile } from "./sessionProfiles";
+import { DEFAULT_SIZE_POLICY, parseSizePolicy, type SizePolicy } from "./sizePolicy";
+import { parseTerminalPreferences, type TerminalPreferences } from "./terminalPreferences";
+
+export interface ServerSettings {
+  listen: ListenTarget;
+  htpasswdFile: string;
+  noAuth: boolean;
+  title: string;
+  cwd: string | undefined;
+  // Real paths of the directories clients may start sessions in (cwdRoots.ts)
+  cwdRoots: string[];
+  sshConfig: string | undefined;
+  stateDir: string | undefined;
+  recordDir: string | undefined;
+  sizePolicy: SizePolicy;
+  detachTimeoutMs: number | null;
+  preferences: TerminalPreferences;
+  command: string[];
+  // TERM for new sessions
+  term: string;
+  // File only: there are no flags for these
+  profiles: SessionProfile[];
+  sshHostEnvironment: Record<string, EnvOverrides>;
+  tuning: SessionTuning;
+  handshakeTimeoutMs: number;
+  loginSessionMs: number;
+  loginWindowMs: number;
+  loginAttempts: number;
+}
+
+// The flags, as parsed by index.ts (all optional strings or booleans).
+export interface CommandLine {
+  values: Record<string, string | boolean | undefined>;
+  positionals: string[];
+}
+
+export interface ConfigFile {
+  path: string;
+  values: Record<string, unknown>;
+}
+
+export const RESTART_ONLY_SETTINGS = ["listen", "no-auth", "state-dir", "record-dir"] as const;
+
+const DEFAULT_HANDSHAKE_TIMEOUT_MS = 30_000;
+const DEFAULT_LOGIN_WINDOW_MS = 60_000;
+const DEFAULT_LOGIN_ATTEMPTS = 5;
+
+type Parser<T> = (value: unknown, baseDir: string) => T;
+
+// --- Value parsers (each throws an Error describing the problem) ---
+
+const text: Parser<string> = (value) => {
+  if (typeof value !== "string" || value.trim() === "") throw new Error("expected a non-empty string");
+  return value;
+};
+
+const flag: Parser<boolean> = (value) => {
+  if (typeof value !== "boolean") throw new Error("expected true or false");
+  return value;
+};
+
+// A duration string, or a number of seconds.
+const duration: Parser<number> = (value) => {
+  const ms = typeof value === "number" ? value * 1000 : parseDuration(text(value, ""));
+  if (!Number.isFinite(ms) || ms <= 0) throw new Error("expected a duration longer than 0, e.g. 30s or 5m");
+  return ms;
+};
+
+const timeout: Parser<number | null> = (value) =>
+  typeof value === "number" ? duration(value, "") : parseTimeout(text(value, ""));
+
+function count(min: number, max: number): Parser<number> {
+  return (value) => {
+    if (typeof value !== "number" || !Number.isInteger(value) || value < min || value > max) {
+      throw new Error(`expected an integer from ${min} to ${max}`);
+    }
+    return value;
+  };
+}
+
+// A whole number of megabytes, as bytes.
+function megabytes(max: number): Parser<number> {
+  const parse = count(0, max);
+  return (value, baseDir) => parse(value, baseDir) * 1024 * 1024;
+}
+
+const path: Parser<string> = (value, baseDir) => resolve(baseDir, text(value, baseDir));
+
+const existingFile: Parser<string> = (value, baseDir) => {
+  const resolved = path(value, baseDir);
+  try {
+    if (!statSync(resolved).isFile()) throw new Error(`${resolved} is not a file`);
+  } catch (err) {
+    if (err instanceof Error && err.message.endsWith("is not a file")) throw err;
+    throw new Error(`${resolved} does not exist`);
+  }
+  return resolved;
+};
+
+const directory: Parser<string> = (value, baseDir) => {
+  const resolved = path(value, baseDir);
+  let isDirectory: boolean;
+  try {
+    isDirectory = statSync(resolved).isDirectory();
+  } catch {
+    throw new Error(`${resolved} does not exist`);
+  }
+  if (!isDirectory) throw new Error(`${resolved} is not a directory`);
+  return resolved;
+};
+
+// A list in the file, or a colon-separated string (like PATH) as a flag.
+const directories: Parser<string[]> = (value, baseDir) => {
+  const list = typeof value === "string" ? value.split(":").filter((dir) => dir !== "") : value;
+  if (!Array.isArray(list)) throw new Error("expected a list of directories");
+  return list.map((dir) => realpathSync(directory(dir, baseDir)));
+};
+
+const listen: Parser<ListenTarget> = (value) => {
+  const target = parseListenTarget(text(value, ""));
+  // Resolve here rather than in the parser so the parser stays pure and the
+  // socket path in errors and in the startup line is the one actually bound.
+  return target.kind === "unix" ? { ...target, path: resolve(target.path) } : target;
+};
+
+const term: Parser<string> = (value) => {
+  if (typeof value !== "string" || !/^[A-Za-z0-9][A-Za-z0-9._+-]*$/.test(value)) {
+    throw new Error("expected a terminal type such as xterm-256color");
+  }
+  return value;
+};
+
+const sizePolicy: Parser<SizePolicy> = (value) => parseSizePolicy(text(value, ""));
+
+const command: Parser<string[]> = (value) => {
+  if (!Array.isArray(value) || value.length === 0 || !value.every((arg) => typeof arg === "string" && arg !== "")) {
+    throw new Error("expected a non-empty list of non-empty strings");
+  }
+  return value;
+};
+
+// Inline in the config file, or the path of a JSON file of them.
+const preferences: Parser<TerminalPreferences> = (value, baseDir) => {
+  if (typeof value !== "string") return parseTerminalPreferences(value);
+  const file = existingFile(value, baseDir);
+  let json: unknown;
+  try {
+    json = JSON.parse(readFileSync(file, "utf-8"));
+  } catch (err) {
+    throw new Error(`${file}: ${err instanceof Error ? err.message : err}`);
+  }
+  try {
+    return parseTerminalPreferences(json);
+  } catch (err) {
+    throw new Error(`${file}: ${err instanceof Error ? err.message : err}`);
+  }
+};
+
+// --- Keys ---
+
+// Keys of the [timeouts] and [limits] tables, and of the file's top level;
+// top-level keys are also flags.
+const TIMEOUT_KEYS = [
+  "handshake",
+  "heartbeat-interval",
+  "heartbeat-timeout",
+  "kill-escalation",
+  "stale-sweep-interval",
+  "archive-interval",
+  "shutdown-archive",
+  "login-session",
+  "login-window",
+] as const;
+const LIMIT_KEYS = ["max-cols", "max-rows", "scrollback", "pending-alerts", "image-memory", "login-attempts"] as const;
+const TOP_LEVEL_KEYS = [
+  "listen",
+  "htpasswd-file",
+  "no-auth",
+  "title",
+  "cwd",
+  "cwd-roots",
+  "ssh-config",
+  "state-dir",
+  "record-dir",
+  "size-policy",
+  "detach-timeout",
+  "preferences",
+  "command",
+  "term",
+  "profiles",
+  "ssh-hosts",
+  "timeouts",
+  "limits",
+] as const;
+
+function invalid(origin: string, problem: unknown): Error {
+  return new Error(`Invalid ${origin}: ${problem instanceof Error ? problem.message : problem}`);
+}
+
+function isTable(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function checkKeys(file: ConfigFile): void {
+  for (const key of Object.keys(file.values)) {
+    if (!(TOP_LEVEL_KEYS as readonly string[]).includes(key)) {
+      throw invalid(`${key} in ${file.path}`, "unknown setting");
+    }
+  }
+  for (const [table, keys] of [
+    ["timeouts", TIMEOUT_KEYS],
+    ["limits", LIMIT_KEYS],
+  ] as const) {
+    const values = file.values[table];
+    if (values === undefined) continue;
+    if (!isTable(values)) throw invalid(`${table} in ${file.path}`, "expected a table");
+    for (const key of Object.keys(values)) {
+      if (!(keys as readonly string[]).includes(key)) {
+        throw invalid(`${table}.${key} in ${file.path}`, "unknown setting");
+      }
+    }
+  }
+}
+
+/** Reads a --config file: TOML when its name ends in .toml, JSON otherwise. */
+export function loadConfigFile(configPath: string): ConfigFile {
+  const absolute = resolve(configPath);
+  let content: string;
+  try {
+    content = readFileSync(absolute, "utf-8");
+  } catch {
+    throw invalid("--config", `${configPath} does not exist`);
+  }
+  let values: unknown;
+  try {
+    values = absolute.endsWith(".toml") ? Bun.TOML.parse(content) : JSON.parse(content);
+  } catch (err) {
+    throw invalid("--config", `${configPath}: ${err instanceof Error ? err.message : err}`);
+  }
+  if (!isTable(values)) throw invalid("--config", `${configPath}: expected a table of settings`);
+  const file = { path: absolute, values };
+  checkKeys(file);
+  return file;
+}
+
+// $HOME, if it exists.
+function defaultCwdRoots(env: Record<string, string | undefined>): string[] {
+  try {
+    return env.HOME ? [realpathSync(env.HOME)] : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Resolves every setting: a flag if given, else the file's key, else the
+ * default. Throws an `Error` whose message starts "Invalid <flag or key>: ".
+ */
+export function resolveServerSettings(
+  file: ConfigFile | null,
+  cli: CommandLine,
+  env: Record<string, string | undefined> = process.env,
+): ServerSettings {
+  const fileDir = file ? dirname(file.path) : process.cwd();
+
+  const pick = <T>(key: string, parse: Parser<T>, fallback: T): T => {
+    const cliValue = cli.values[key];
+    if (cliValue !== undefined) {
+      try {
+        return parse(cliValue, process.cwd());
+      } catch (err) {
+        throw invalid(`--${key}`, err);
+      }
+    }
+    const [table, name] = key.includes(".") ? key.split(".") : [undefined, key];
+    const values = table === undefined ? file?.values : file?.values[table];
+    if (name !== undefined && isTable(values) && values[name] !== undefined) {
+      try {
+        return parse(values[name], fileDir);
+      } catch (err) {
+        throw invalid(`${key} in ${file?.path}`, err);
+      }
+    }
+    return fallback;
+  };
+
+  const pickCommand = (): string[] => {
+    if (cli.positionals.length > 0) return cli.positionals;
+    return pick("command", command, [env.SHELL || "/bin/sh", "-l"]);
+  };
+
+  const tuning: SessionTuning = {
+    shadowScrollback: pick("limits.scrollback", count(0, 100_000), DEFAULT_SESSION_TUNING.shadowScrollback),
+    heartbeatIntervalMs: pick("timeouts.heartbeat-interval", duration, DEFAULT_SESSION_TUNING.heartbeatIntervalMs),
+    heartbeatTimeoutMs: pick("timeouts.heartbeat-timeout", duration, DEFAULT_SESSION_TUNING.heartbeatTimeoutMs),
+    staleSweepIntervalMs: pick("timeouts.stale-sweep-interval", duration, DEFAULT_SESSION_TUNING.staleSweepIntervalMs),
+    archiveIntervalMs: pick("timeouts.archive-interval", duration, DEFAULT_SESSION_TUNING.archiveIntervalMs),
+    shutdownArchiveTimeoutMs: pick(
+      "timeouts.shutdown-archive",
+      duration,
+      DEFAULT_SESSION_TUNING.shutdownArchiveTimeoutMs,
+    ),
+    killEscalationMs: pick("timeouts.kill-escalation", duration, DEFAULT_SESSION_TUNING.killEscalationMs),
+    maxCols: pick("limits.max-cols", count(20, 2000), DEFAULT_SESSION_TUNING.maxCols),
+    maxRows: pick("limits.max-rows", count(5, 1000), DEFAULT_SESSION_TUNING.maxRows),
+    maxPendingAlerts: pick("limits.pending-alerts", count(0, 1000), DEFAULT_SESSION_TUNING.maxPendingAlerts),
+    imageMemoryBytes: pick("limits.image-memory", megabytes(1024), DEFAULT_SESSION_TUNING.imageMemoryBytes),
+  };
+
+  return {
+    listen: pick("listen", listen, listen(DEFAULT_LISTEN, fileDir)),
+    htpasswdFile: pick("htpasswd-file", path, env.HTPASSWD_FILE ?? ".htpasswd"),
+    noAuth: pick("no-auth", flag, false),
+    title: pick("title", text, "MyWebTerm"),
+    cwd: pick("cwd", directory, env.HOME || undefined),
+    cwdRoots: pick("cwd-roots", directories, defaultCwdRoots(env)),
+    sshConfig: pick("ssh-config", existingFile, undefined),
+    stateDir: pick("state-dir", path, undefined),
+    recordDir: pick("record-dir", path, undefined),
+    sizePolicy: pick("size-policy", sizePolicy, parseSizePolicy(DEFAULT_SIZE_POLICY)),
+    detachTimeoutMs: pick("detach-timeout", timeout, DEFAULT_DETACH_TIMEOUT_MS),
+    preferences: pick("preferences", preferences, {}),
+    command: pickCommand(),
+    term: pick("term", term, DEFAULT_TERM),
+    profiles: pick("profiles", parseSessionProfiles, []),
+    sshHostEnvironment: pick("ssh-hosts", parseSshHostOverrides, {}),
+    tuning,
+    handshakeTimeoutMs: pick("timeouts.handshake", duration, DEFAULT_HANDSHAKE_TIMEOUT_MS),
+    loginSessionMs: pick("timeouts.login-session", duration, DEFAULT_SESSION_TTL_MS),
+    loginWindowMs: pick("timeouts.login-window", duration, DEFAULT_LOGIN_WINDOW_MS),
+    loginAttempts: pick("limits.login-attempts", count(1, 1000), DEFAULT_LOGIN_ATTEMPTS),
+  };
+}
+
+/** The restart-only settings that differ between two resolutions, by key. */
+export function changedRestartOnlySettings(before: ServerSettings, after: ServerSettings): string[] {
+  const values = (s: ServerSettings) => ({
+    listen: JSON.stringify(s.listen),
+    "no-auth": String(s.noAuth),
+    "state-dir": String(s.stateDir),
+    "record-dir": String(s.recordDir),
+  });
+  const a = values(before);
+  const b = values(after);
+  return RESTART_ONLY_SETTINGS.filter((key) => a[key] !== b[key]);
+}
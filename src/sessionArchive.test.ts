@@ -0,0 +1,91 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { existsSync, mkdtempSync, rmSync, utimesSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import {
+  type ArchivedSession,
+  isArchiveEnabled,
+  parseArchive,
+  pruneArchives,
+  readArchive,
+  removeArchive,
+  setStateDir,
+  writeArchive,
+} from "./sessionArchive";
+
+const archive: ArchivedSession = {
+  sessionId: "0f8c2a52-8d7e-4a43-9c55-3d2f3a1b6e10",
+  command: ["/bin/bash", "-l"],
+  sshTarget: null,
+  cols: 120,
+  rows: 40,
+  createdAt: 1,
+  lastActivityAt: 2,
+  savedAt: 3,
+  snapshot: "\x1b[1mbuild ok\x1b[0m\r\n$ ",
+};
+
+let stateDir: string;
+
+beforeEach(() => {
+  stateDir = mkdtempSync(join(tmpdir(), "mywebterm-archive-"));
+  setStateDir(stateDir);
+});
+
+afterEach(() => {
+  setStateDir(undefined);
+  rmSync(stateDir, { recursive: true, force: true });
+});
+
+describe("session archive", () => {
+  test("round-trips a session through the state directory", () => {
+    expect(isArchiveEnabled()).toBe(true);
+    writeArchive(archive);
+    expect(existsSync(join(stateDir, "sessions", `${archive.sessionId}.json`))).toBe(true);
+    expect(readArchive(archive.sessionId)).toEqual(archive);
+
+    removeArchive(archive.sessionId);
+    expect(readArchive(archive.sessionId)).toBeNull();
+  });
+
+  test("never turns a non-uuid session id into a path", () => {
+    writeArchive({ ...archive, sessionId: "../escape" });
+    expect(existsSync(join(stateDir, "escape.json"))).toBe(false);
+    expect(readArchive("../sessions/x")).toBeNull();
+  });
+
+  test("does nothing when disabled", () => {
+    setStateDir(undefined);
+    expect(isArchiveEnabled()).toBe(false);
+    writeArchive(archive);
+    expect(readArchive(archive.sessionId)).toBeNull();
+  });
+
+  test("prunes archives older than the retention period", () => {
+    writeArchive(archive);
+    const other = { ...archive, sessionId: "6a1d2c3b-0000-4000-8000-000000000001" };
+    writeArchive(other);
+    const oldTime = new Date(Date.now() - 10 * 60_000);
+    utimesSync(join(stateDir, "sessions", `${other.sessionId}.json`), oldTime, oldTime);
+
+    pruneArchives(5 * 60_000);
+    expect(readArchive(archive.sessionId)).toEqual(archive);
+    expect(readArchive(other.sessionId)).toBeNull();
+  });
+
+  test("ignores corrupt or foreign files", () => {
+    writeFileSync(join(stateDir, "sessions", `${archive.sessionId}.json`), "{not json");
+    expect(readArchive(archive.sessionId)).toBeNull();
+  });
+});
+
+describe("parseArchive", () => {
+  test("accepts the current format and rejects others", () => {
+    expect(parseArchive({ version: 1, ...archive })).toEqual(archive);
+    expect(parseArchive({ version: 2, ...archive })).toBeNull();
+    expect(parseArchive({ version: 1, ...archive, snapshot: 5 })).toBeNull();
+    expect(parseArchive({ version: 1, ...archive, sshTarget: undefined })).toBeNull();
+    expect(parseArchive(null)).toBeNull();
+  });
+});
@@ -0,0 +1,148 @@
+// Opt-in persistence of session screen state (`--state-dir`). The server
+// periodically writes each session's serialized shadow terminal plus a little
+// metadata to <state-dir>/sessions/<sessionId>.json. The PTY itself cannot
+// survive a restart, but a client reconnecting to a session the new server
+// process doesn't know gets that last screen as a read-only view instead of a
+// bare "not found".
+
+import { mkdirSync, readdirSync, readFileSync, renameSync, rmSync, statSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+
+export interface ArchivedSession {
+  sessionId: string;
+  command: string[];
+  sshTarget: string | null;
+  cols: number;
+  rows: number;
+  createdAt: number;
+  lastActivityAt: number;
+  savedAt: number;
+  // Serialized shadow terminal, replayable into a fresh xterm
+  snapshot: string;
+}
+
+const ARCHIVE_FORMAT_VERSION = 1;
+// Archives of sessions nobody came back for are dropped after this long.
+export const ARCHIVE_RETENTION_MS = 7 * 24 * 60 * 60_000;
+// Session ids are server-minted UUIDs; anything else never becomes a path.
+const SESSION_ID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+let archiveDir: string | null = null;
+
+/** Enables archiving under `dir` (created if missing), or disables it when undefined. */
+export function setStateDir(dir: string | undefined): void {
+  if (dir === undefined) {
+    archiveDir = null;
+    return;
+  }
+  const sessionsDir = join(dir, "sessions");
+  mkdirSync(sessionsDir, { recursive: true, mode: 0o700 });
+  archiveDir = sessionsDir;
+}
+
+export function isArchiveEnabled(): boolean {
+  return archiveDir !== null;
+}
+
+function archivePath(sessionId: string): string | null {
+  if (archiveDir === null || !SESSION_ID_RE.test(sessionId)) return null;
+  return join(archiveDir, `${sessionId}.json`);
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((v) => typeof v === "string");
+}
+
+/** Validates a parsed archive file; null for other versions or malformed data. */
+export function parseArchive(json: unknown): ArchivedSession | null {
+  if (typeof json !== "object" || json === null) return null;
+  const a = json as Record<string, unknown>;
+  if (a.version !== ARCHIVE_FORMAT_VERSION) return null;
+  if (
+    typeof a.sessionId !== "string" ||
+    !isStringArray(a.command) ||
+    (a.sshTarget !== null && typeof a.sshTarget !== "string") ||
+    typeof a.cols !== "number" ||
+    typeof a.rows !== "number" ||
+    typeof a.createdAt !== "number" ||
+    typeof a.lastActivityAt !== "number" ||
+    typeof a.savedAt !== "number" ||
+    typeof a.snapshot !== "string"
+  ) {
+    return null;
+  }
+  return {
+    sessionId: a.sessionId,
+    command: a.command,
+    sshTarget: a.sshTarget,
+    cols: a.cols,
+    rows: a.rows,
+    createdAt: a.createdAt,
+    lastActivityAt: a.lastActivityAt,
+    savedAt: a.savedAt,
+    snapshot: a.snapshot,
+  };
+}
+
+// Written synchronously (and atomically, via rename) so the shutdown path can
+// archive every session before the process exits.
+export function writeArchive(record: ArchivedSession): void {
+  const path = archivePath(record.sessionId);
+  if (path === null) return;
+  const tmpPath = `${path}.tmp`;
+  try {
+    writeFileSync(tmpPath, JSON.stringify({ version: ARCHIVE_FORMAT_VERSION, ...record }), { mode: 0o600 });
+    renameSync(tmpPath, path);
+  } catch (err) {
+    console.error(`[session ${record.sessionId}] failed to write archive:`, err);
+  }
+}
+
+export function readArchive(sessionId: string): ArchivedSession | null {
+  const path = archivePath(sessionId);
+  if (path === null) return null;
+  let text: string;
+  try {
+    text = readFileSync(path, "utf8");
+  } catch {
+    return null;
+  }
+  try {
+    const archive = parseArchive(JSON.parse(text));
+    return archive?.sessionId === sessionId ? archive : null;
+  } catch {
+    return null;
+  }
+}
+
+export function removeArchive(sessionId: string): void {
+  const path = archivePath(sessionId);
+  if (path === null) return;
+  try {
+    rmSync(path, { force: true });
+  } catch {
+    // Best effort; the retention prune catches leftovers.
+  }
+}
+
+/** Deletes archives (and interrupted writes) last modified more than `maxAgeMs` ago. */
+export function pruneArchives(maxAgeMs: number = ARCHIVE_RETENTION_MS, now: number = Date.now()): void {
+  if (archiveDir === null) return;
+  let names: string[];
+  try {
+    names = readdirSync(archiveDir);
+  } catch {
+    return;
+  }
+  for (const name of names) {
+    if (!name.endsWith(".json") && !name.endsWith(".json.tmp")) continue;
+    const path = join(archiveDir, name);
+    try {
+      if (now - statSync(path).mtimeMs > maxAgeMs) {
+        rmSync(path, { force: true });
+      }
+    } catch {
+      // Raced with another removal
+    }
+  }
+}
@@ -1,5 +1,11 @@
 import { describe, expect, test } from "bun:test";
-import { buildSessionCommand, buildSpawnEnv, setShellCommand, setSshConfigPath } from "./sessionManager";
+import {
+  buildSessionCommand,
+  buildSpawnEnv,
+  setSessionProfiles,
+  setShellCommand,
+  setSshConfigPath,
+} from "./sessionManager";
 
 describe("buildSessionCommand", () => {
   test("returns the configured shell command unchanged when no ssh target is given", () => {
@@ -53,6 +59,18 @@ describe("buildSessionCommand", () => {
     }
   });
 
+  test("resolves a profile id to its command, never to anything else", () => {
+    setSessionProfiles([
+      { id: "repl", name: "python3 REPL", icon: null, command: ["python3", "-q"], cwd: undefined, env: {}, unset: [] },
+    ]);
+    try {
+      expect(buildSessionCommand(undefined, "repl")).toEqual(["python3", "-q"]);
+      expect(() => buildSessionCommand(undefined, "/bin/sh")).toThrow("Unknown profile");
+    } finally {
+      setSessionProfiles([]);
+    }
+  });
+
   test("throws on invalid targets", () => {
     expect(() => buildSessionCommand("-oProxyCommand=evil")).toThrow();
     expect(() => buildSessionCommand("host name")).toThrow();
@@ -83,6 +101,18 @@ describe("buildSpawnEnv", () => {
     expect(env.PATH).toBe(process.env.PATH);
   });
 
+  test("puts a profile's or host's overrides on top", () => {
+    process.env.WEBTERM_TEST_UNSET = "1";
+    try {
+      const env = buildSpawnEnv(false, { env: { EDITOR: "hx", TERM: "xterm" }, unset: ["WEBTERM_TEST_UNSET"] });
+      expect(env.EDITOR).toBe("hx");
+      expect(env.TERM).toBe("xterm");
+      expect(env.WEBTERM_TEST_UNSET).toBeUndefined();
+    } finally {
+      delete process.env.WEBTERM_TEST_UNSET;
+    }
+  });
+
   test("preserves browser-related variables in local sessions", () => {
     const saved = {
       BROWSER: process.env.BROWSER,
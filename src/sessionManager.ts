@@ -1,7 +1,44 @@
+import { hostname } from "node:os";
 import { SerializeAddon } from "@xterm/addon-serialize";
-import { Terminal as ShadowTerminal } from "@xterm/headless";
+import { type IMarker, Terminal as ShadowTerminal } from "@xterm/headless";
 import type { ServerWebSocket } from "bun";
-import { encodeServerControl, parseSshTarget } from "./ttyProtocol";
+import {
+  checkSilence,
+  createMonitorState,
+  isMonitoring,
+  type MonitorState,
+  noteInput,
+  noteOutput,
+  updateMonitor,
+} from "./activityMonitor";
+import { resolveAllowedDirectory } from "./cwdRoots";
+import { applyEnvOverrides, type EnvOverrides, findSshHostOverrides, NO_ENV_OVERRIDES } from "./envOverrides";
+import { createInlineImages, type InlineImages, spliceInlineImages } from "./inlineImages";
+import { isArchiveEnabled, pruneArchives, readArchive, removeArchive, writeArchive } from "./sessionArchive";
+import type { SessionProfile } from "./sessionProfiles";
+import {
+  isRecordingEnabled,
+  type Recording,
+  recordOutput,
+  recordResize,
+  startRecording,
+  stopRecording,
+} from "./sessionRecorder";
+import type { SessionState, SessionSummary } from "./sessionSummary";
+import { createShellIntegration, formatShellMark, type ShellIntegration } from "./shellIntegration";
+import { type ClientSize, computeEffectiveSize, type SizePolicy } from "./sizePolicy";
+import type { TerminalPreferences } from "./terminalPreferences";
+import {
+  type ClientRole,
+  encodeServerControl,
+  type MonitorAlert,
+  parseSshTarget,
+  type ServerControlMessage,
+  type SessionBroadcast,
+  type SessionEnvironment,
+  type SessionMonitor,
+} from "./ttyProtocol";
+import { formatWorkingDirectory, parseWorkingDirectoryOsc, WORKING_DIRECTORY_OSC } from "./workingDirectory";
 
 // --- Types ---
 
@@ -9,45 +46,117 @@ export interface WsData {
   sessionId: string | null;
   connectionId: string;
   handshakeTimer: ReturnType<typeof setTimeout> | null;
+  // A session has at most one driver and any number of viewers.
+  role: ClientRole;
+  // The size this client's viewport asked for. The PTY gets whatever the size
+  // policy derives from all clients' sizes (see applySizePolicy).
+  cols: number;
+  rows: number;
+  // Non-null while this client's attach snapshot is being prepared: live PTY
+  // output is queued here so it reaches the client only after the snapshot.
+  attachPending: Uint8Array[] | null;
+  heartbeatTimer: ReturnType<typeof setInterval> | null;
+  heartbeatPending: boolean;
 }
 
 export interface PtySession {
   sessionId: string;
   proc: ReturnType<typeof Bun.spawn> | null;
+  command: string[];
+  sshTarget: string | null;
+  // Id of the session profile it was started from, if any
+  profile: string | null;
   cols: number;
   rows: number;
   shadowTerm: ShadowTerminal;
   serializeAddon: SerializeAddon;
-  // Non-null while an attach snapshot is being prepared: live PTY output is
-  // queued here so it reaches the client only after the snapshot.
-  attachPending: Uint8Array[] | null;
-  attachedWs: ServerWebSocket<WsData> | null;
+  // OSC 133 prompt marks in the shadow terminal, sent after each resume snapshot
+  shellIntegration: ShellIntegration<IMarker>;
+  // Image sequences in the shadow terminal, spliced into each resume snapshot
+  inlineImages: InlineImages;
+  // Last directory the shell reported with OSC 7 ("host:/path" when remote)
+  cwd: string | null;
+  // Window title set by the shell or a program (OSC 0/2); null when unset
+  title: string | null;
+  // Shown in the client's info dialog
+  environment: SessionEnvironment;
+  // Every connected client, driver included.
+  clients: Set<ServerWebSocket<WsData>>;
+  driverWs: ServerWebSocket<WsData> | null;
   createdAt: number;
   lastActivityAt: number;
   lastDetachedAt: number | null;
-  state: "spawning" | "attached" | "detached" | "dead";
-  heartbeatTimer: ReturnType<typeof setInterval> | null;
-  heartbeatPending: boolean;
+  // When the screen was last written to the state directory (0 = never)
+  lastArchivedAt: number;
+  // Exempt from the stale sweep: keeps running however long it stays detached
+  pinned: boolean;
+  // Open asciicast file while the session is being recorded (--record-dir)
+  recording: Recording | null;
+  monitor: MonitorState;
+  // Monitor alerts raised while no client was attached, oldest first
+  pendingAlerts: { alert: MonitorAlert; at: number }[];
+  // Sessions its driver input is also written to (synchronize input)
+  broadcastTo: Set<string>;
+  state: SessionState;
 }
 
 // --- Constants ---
 
-const SHADOW_SCROLLBACK_LINES = 5000; // matches the client terminal's scrollback
-const HEARTBEAT_INTERVAL_MS = 30_000;
-const HEARTBEAT_TIMEOUT_MS = 10_000;
-const STALE_SWEEP_INTERVAL_MS = 60_000;
-const SESSION_IDLE_TIMEOUT_MS = 5 * 60_000; // 5 minutes
-const KILL_ESCALATION_MS = 5_000;
-const MAX_COLS = 500;
-const MAX_ROWS = 200;
+// Limits and timings an operator can change (the [limits] and [timeouts]
+// tables of --config); see setSessionTuning.
+export interface SessionTuning {
+  shadowScrollback: number;
+  heartbeatIntervalMs: number;
+  heartbeatTimeoutMs: number;
+  staleSweepIntervalMs: number;
+  archiveIntervalMs: number;
+  shutdownArchiveTimeoutMs: number;
+  killEscalationMs: number;
+  maxCols: number;
+  maxRows: number;
+  maxPendingAlerts: number;
+  imageMemoryBytes: number;
+}
+
+export const DEFAULT_SESSION_TUNING: SessionTuning = {
+  shadowScrollback: 5000, // matches the client terminal's default scrollback
+  heartbeatIntervalMs: 30_000,
+  heartbeatTimeoutMs: 10_000,
+  staleSweepIntervalMs: 60_000,
+  archiveIntervalMs: 15_000,
+  shutdownArchiveTimeoutMs: 2_000,
+  killEscalationMs: 5_000,
+  maxCols: 500,
+  maxRows: 200,
+  maxPendingAlerts: 10,
+  imageMemoryBytes: 8 * 1024 * 1024, // per session, for inline images kept for resume
+};
+
+const MONITOR_INTERVAL_MS = 1_000;
+const RECORDING_FLUSH_TIMEOUT_MS = 2_000;
+// TERM for sessions when neither --term nor a profile or ssh host sets one
+export const DEFAULT_TERM = "xterm-256color";
+// How long a session with no clients survives before the stale sweep kills
+// it, unless pinned; --detach-timeout overrides it (null = never).
+export const DEFAULT_DETACH_TIMEOUT_MS = 5 * 60_000; // 5 minutes
 const OUTPUT_PREFIX = 0x30; // "0" — ServerCommand.OUTPUT
+const WINDOW_TITLE_PREFIX = 0x31; // "1" — ServerCommand.SET_WINDOW_TITLE
+const PREFERENCES_PREFIX = 0x32; // "2" — ServerCommand.SET_PREFERENCES
 const RESTART_CLOSE_CODE = 4000;
 const HEARTBEAT_CLOSE_CODE = 4001;
+// Another connection attached to the same session and took it over.
+const REPLACED_CLOSE_CODE = 4002;
 // Session ended deliberately by the user — the client returns to the start
 // screen instead of auto-reconnecting.
 const ENDED_CLOSE_CODE = 4004;
+// Reconnect found only the archived screen of a session from before a server
+// restart; the client keeps showing it read-only.
+const ARCHIVED_CLOSE_CODE = 4005;
+// Server shutting down with archiving on: clients keep their session id and
+// reconnect, so they get the archived screen once the server is back.
+const SHUTDOWN_CLOSE_CODE = 1001;
 
-export { RESTART_CLOSE_CODE, ENDED_CLOSE_CODE };
+export { RESTART_CLOSE_CODE, REPLACED_CLOSE_CODE, ENDED_CLOSE_CODE, ARCHIVED_CLOSE_CODE };
 
 // --- Shadow terminal ---
 
@@ -55,20 +164,40 @@ export { RESTART_CLOSE_CODE, ENDED_CLOSE_CODE };
 // client receives a serialized snapshot of its full state (buffers, cursor,
 // and DEC private modes such as alt-screen and mouse tracking) instead of a
 // raw byte replay, so apps like zellij keep working across reconnects.
-function createShadowTerminal(cols: number, rows: number): { term: ShadowTerminal; addon: SerializeAddon } {
+function createShadowTerminal(
+  cols: number,
+  rows: number,
+): { term: ShadowTerminal; addon: SerializeAddon; shell: ShellIntegration<IMarker>; images: InlineImages } {
   const term = new ShadowTerminal({
     cols,
     rows,
-    scrollback: SHADOW_SCROLLBACK_LINES,
+    scrollback: tuning.shadowScrollback,
     allowProposedApi: true,
   });
   const addon = new SerializeAddon();
   term.loadAddon(addon);
-  return { term, addon };
+  return {
+    term,
+    addon,
+    shell: createShellIntegration(term),
+    images: createInlineImages(term, tuning.imageMemoryBytes),
+  };
 }
 
-function buildSnapshot(session: PtySession): Uint8Array {
+// Archives leave the images and OSC 133 marks out: they are rewritten every
+// few seconds, and only read.
+function serializeScreen(session: PtySession, forResume = false): string {
   let snapshot = session.serializeAddon.serialize();
+  const images = forResume ? session.inlineImages.placements() : [];
+  const marks = forResume
+    ? session.shellIntegration.marks().map((mark) => ({ line: mark.line, sequence: formatShellMark(mark) }))
+    : [];
+  if (images.length > 0 || marks.length > 0) {
+    // They go into the normal buffer's part, before the alternate screen and the modes.
+    const normal = session.serializeAddon.serialize({ excludeAltBuffer: true, excludeModes: true });
+    const buffer = session.shadowTerm.buffer.normal;
+    snapshot = spliceInlineImages(normal, images, buffer, marks) + snapshot.slice(normal.length);
+  }
 
   // The serialize addon restores mouse *tracking* modes but not the mouse
   // *encoding* protocol (DECSET 1006/1016), which zellij and friends rely on.
@@ -81,16 +210,79 @@ function buildSnapshot(session: PtySession): Uint8Array {
     snapshot += "\x1b[?1016h";
   }
 
-  return new TextEncoder().encode(snapshot);
+  return snapshot;
+}
+
+function buildSnapshot(session: PtySession): Uint8Array {
+  return new TextEncoder().encode(serializeScreen(session, true));
 }
 
 // --- Module state ---
 
 const sessions = new Map<string, PtySession>();
 let staleSweepTimer: ReturnType<typeof setInterval> | null = null;
+let archiveTimer: ReturnType<typeof setInterval> | null = null;
+let monitorTimer: ReturnType<typeof setInterval> | null = null;
+let shuttingDown = false;
 let shellCommand: string[] = ["/bin/sh"];
 let spawnCwd: string | undefined;
 let sshConfigPath: string | undefined;
+let sizePolicy: SizePolicy = { kind: "driver" };
+let detachTimeoutMs: number | null = DEFAULT_DETACH_TIMEOUT_MS;
+let terminalPreferences: TerminalPreferences = {};
+let tuning: SessionTuning = DEFAULT_SESSION_TUNING;
+let sessionProfiles = new Map<string, SessionProfile>();
+let cwdRoots: string[] = [];
+let terminalType = DEFAULT_TERM;
+let sshHostEnvironment: Record<string, EnvOverrides> = {};
+
+export function setDetachTimeout(ms: number | null): void {
+  if (ms !== null && (!Number.isFinite(ms) || ms <= 0)) {
+    throw new Error("Detach timeout must be a positive number of milliseconds or null");
+  }
+  detachTimeoutMs = ms;
+}
+
+export function setSizePolicy(policy: SizePolicy): void {
+  sizePolicy = policy;
+}
+
+// Connected clients get the new preferences right away.
+export function setTerminalPreferences(preferences: TerminalPreferences): void {
+  terminalPreferences = preferences;
+  for (const session of sessions.values()) {
+    for (const ws of session.clients) sendPreferencesFrame(ws);
+  }
+}
+
+// Limits apply from the next resize or new session, heartbeat timings from the
+// next connection; the sweep and archive timers restart at their new interval.
+export function setSessionTuning(next: SessionTuning): void {
+  const previous = tuning;
+  tuning = next;
+  if (staleSweepTimer !== null && next.staleSweepIntervalMs !== previous.staleSweepIntervalMs) {
+    stopStaleSweep();
+    startStaleSweep();
+  }
+  if (archiveTimer !== null && next.archiveIntervalMs !== previous.archiveIntervalMs) {
+    stopArchiving();
+    startArchiving();
+  }
+}
+
+// Sessions already running keep what they were started with.
+export function setSessionProfiles(profiles: SessionProfile[]): void {
+  sessionProfiles = new Map(profiles.map((profile) => [profile.id, profile]));
+}
+
+// TERM for new sessions, unless a profile or ssh host sets its own.
+export function setTerminalType(term: string): void {
+  terminalType = term;
+}
+
+export function setSshHostEnvironment(hosts: Record<string, EnvOverrides>): void {
+  sshHostEnvironment = hosts;
+}
 
 export function setSshConfigPath(path: string | undefined): void {
   if (path !== undefined && (typeof path !== "string" || path.length === 0)) {
@@ -106,6 +298,11 @@ export function setCwd(cwd: string | undefined): void {
   spawnCwd = cwd;
 }
 
+// Real paths (see cwdRoots.ts); empty means clients cannot choose a directory.
+export function setCwdRoots(roots: string[]): void {
+  cwdRoots = roots;
+}
+
 export function setShellCommand(cmd: string[]): void {
   if (!Array.isArray(cmd) || cmd.length === 0) {
     throw new Error("Shell command must be a non-empty array");
@@ -122,11 +319,17 @@ export function setShellCommand(cmd: string[]): void {
 }
 
 // Resolve the argv for a new session: ssh to a remote host when a target is
-// given, the configured shell command otherwise. The keepalive options make a
-// hung ssh (dead network, unreachable host) exit on its own instead of
-// lingering until the stale sweep kills it. MyWebTerm deliberately does not
-// wrap either command or inject setup into the remote login.
-export function buildSessionCommand(sshTarget: string | undefined): string[] {
+// given, the profile's command when a profile id is, the configured shell
+// command otherwise. The keepalive options make a hung ssh (dead network,
+// unreachable host) exit on its own instead of lingering until the stale sweep
+// kills it. MyWebTerm deliberately does not wrap either command or inject
+// setup into the remote login.
+export function buildSessionCommand(sshTarget: string | undefined, profileId?: string): string[] {
+  if (profileId !== undefined) {
+    const profile = sessionProfiles.get(profileId);
+    if (!profile) throw new Error(`Unknown profile: ${profileId}`);
+    return [...profile.command];
+  }
   if (sshTarget === undefined) return [...shellCommand];
   const parsed = parseSshTarget(sshTarget);
   if (!parsed) {
@@ -151,9 +354,13 @@ export function buildSessionCommand(sshTarget: string | undefined): string[] {
 // generated — producing setlocale warnings on every login. Strip them for ssh
 // sessions so the remote host falls back to its own default locale. Browser-
 // and display-related variables pass through unchanged; their policy belongs
-// to the process manager or shell configuration.
-export function buildSpawnEnv(isSsh: boolean): Record<string, string | undefined> {
-  const env: Record<string, string | undefined> = { ...process.env, TERM: "xterm-256color" };
+// to the process manager or shell configuration. The overrides (a profile's
+// or ssh host's) go on top of everything.
+export function buildSpawnEnv(
+  isSsh: boolean,
+  overrides: EnvOverrides = NO_ENV_OVERRIDES,
+): Record<string, string | undefined> {
+  const env: Record<string, string | undefined> = { ...process.env, TERM: terminalType };
   if (isSsh) {
     for (const key of Object.keys(env)) {
       if (key === "LANG" || key === "LANGUAGE" || key.startsWith("LC_")) {
@@ -161,7 +368,7 @@ export function buildSpawnEnv(isSsh: boolean): Record<string, string | undefined
       }
     }
   }
-  return env;
+  return applyEnvOverrides(env, overrides);
 }
 
 // --- Helpers ---
@@ -176,94 +383,218 @@ function closeClientSocket(ws: ServerWebSocket<WsData>, code?: number, reason?:
   }
 }
 
-function sendOutputFrame(ws: ServerWebSocket<WsData>, data: Uint8Array): void {
+function sendFrame(ws: ServerWebSocket<WsData>, prefix: number, data: Uint8Array): void {
   if (ws.readyState !== WebSocket.OPEN) return;
   const frame = new Uint8Array(data.length + 1);
-  frame[0] = OUTPUT_PREFIX;
+  frame[0] = prefix;
   frame.set(data, 1);
   ws.send(frame);
 }
 
-function stopHeartbeat(session: PtySession): void {
-  if (session.heartbeatTimer !== null) {
-    clearInterval(session.heartbeatTimer);
-    session.heartbeatTimer = null;
+function sendOutputFrame(ws: ServerWebSocket<WsData>, data: Uint8Array): void {
+  sendFrame(ws, OUTPUT_PREFIX, data);
+}
+
+// Sent on every attach, so a client always has the current --preferences.
+function sendPreferencesFrame(ws: ServerWebSocket<WsData>): void {
+  sendFrame(ws, PREFERENCES_PREFIX, new TextEncoder().encode(JSON.stringify(terminalPreferences)));
+}
+
+// An empty title tells the client to go back to its own.
+function sendTitleFrame(ws: ServerWebSocket<WsData>, title: string | null): void {
+  sendFrame(ws, WINDOW_TITLE_PREFIX, new TextEncoder().encode(title ?? ""));
+}
+
+function clientSizes(session: PtySession): ClientSize[] {
+  return [...session.clients].map((ws) => ({ role: ws.data.role, cols: ws.data.cols, rows: ws.data.rows }));
+}
+
+function sendEffectiveSize(session: PtySession, ws: ServerWebSocket<WsData>): void {
+  if (ws.readyState !== WebSocket.OPEN) return;
+  ws.send(encodeServerControl({ type: "effective_size", columns: session.cols, rows: session.rows }));
+}
+
+// Resize the PTY to what the size policy derives from the connected clients,
+// and tell every client the result so viewports of a different size can
+// letterbox instead of reflowing. Returns whether the size changed.
+function applySizePolicy(session: PtySession): boolean {
+  const target = computeEffectiveSize(sizePolicy, clientSizes(session));
+  if (!target) return false;
+
+  const cols = clampDimension(target.cols, 80, tuning.maxCols);
+  const rows = clampDimension(target.rows, 24, tuning.maxRows);
+  if (session.cols === cols && session.rows === rows) return false;
+
+  session.cols = cols;
+  session.rows = rows;
+  try {
+    session.proc?.terminal?.resize(cols, rows);
+  } catch {
+    // Terminal may be in an odd state
+  }
+  try {
+    session.shadowTerm.resize(cols, rows);
+  } catch {
+    // Shadow terminal may already be disposed
+  }
+  if (session.recording) recordResize(session.recording, cols, rows);
+  for (const client of session.clients) {
+    sendEffectiveSize(session, client);
+  }
+  return true;
+}
+
+function stopHeartbeat(ws: ServerWebSocket<WsData>): void {
+  if (ws.data.heartbeatTimer !== null) {
+    clearInterval(ws.data.heartbeatTimer);
+    ws.data.heartbeatTimer = null;
   }
-  session.heartbeatPending = false;
+  ws.data.heartbeatPending = false;
 }
 
-function startHeartbeat(session: PtySession): void {
-  stopHeartbeat(session);
+function startHeartbeat(session: PtySession, ws: ServerWebSocket<WsData>): void {
+  stopHeartbeat(ws);
 
-  session.heartbeatTimer = setInterval(() => {
-    const ws = session.attachedWs;
-    if (!ws || ws.readyState !== WebSocket.OPEN) {
-      stopHeartbeat(session);
+  ws.data.heartbeatTimer = setInterval(() => {
+    if (!session.clients.has(ws) || ws.readyState !== WebSocket.OPEN) {
+      stopHeartbeat(ws);
       return;
     }
 
-    if (session.heartbeatPending) {
+    if (ws.data.heartbeatPending) {
       // Pong not received within interval — force detach
-      console.log(`[session ${session.sessionId}] heartbeat timeout, detaching`);
-      detachSession(session, HEARTBEAT_CLOSE_CODE, "Heartbeat timeout");
+      console.log(`[session ${session.sessionId}] heartbeat timeout, detaching ${ws.data.connectionId}`);
+      detachClient(session, ws, HEARTBEAT_CLOSE_CODE, "Heartbeat timeout");
       return;
     }
 
-    session.heartbeatPending = true;
+    ws.data.heartbeatPending = true;
     ws.send(encodeServerControl({ type: "ping", timestamp: Date.now() }));
 
-    // Schedule timeout check: if still pending after HEARTBEAT_TIMEOUT_MS, detach
+    // Schedule timeout check: if still pending after the heartbeat timeout, detach
     setTimeout(() => {
-      if (session.heartbeatPending && session.attachedWs === ws) {
-        console.log(`[session ${session.sessionId}] heartbeat pong timeout, detaching`);
-        detachSession(session, HEARTBEAT_CLOSE_CODE, "Heartbeat timeout");
+      if (ws.data.heartbeatPending && session.clients.has(ws)) {
+        console.log(`[session ${session.sessionId}] heartbeat pong timeout, detaching ${ws.data.connectionId}`);
+        detachClient(session, ws, HEARTBEAT_CLOSE_CODE, "Heartbeat timeout");
       }
-    }, HEARTBEAT_TIMEOUT_MS);
-  }, HEARTBEAT_INTERVAL_MS);
+    }, tuning.heartbeatTimeoutMs);
+  }, tuning.heartbeatIntervalMs);
+}
+
+// Drop every client of a session that is going away, closing each socket.
+// `beforeClose` runs first for clients that are still open (e.g. to send
+// session_ended).
+function releaseClients(
+  session: PtySession,
+  closeCode: number,
+  closeReason: string,
+  beforeClose?: (ws: ServerWebSocket<WsData>) => void,
+): void {
+  for (const ws of session.clients) {
+    stopHeartbeat(ws);
+    ws.data.attachPending = null;
+    if (beforeClose && ws.readyState === WebSocket.OPEN) beforeClose(ws);
+    closeClientSocket(ws, closeCode, closeReason);
+  }
+  session.clients.clear();
+  session.driverWs = null;
 }
 
 // --- Session lifecycle ---
 
-export function createSession(ws: ServerWebSocket<WsData>, cols: number, rows: number, sshTarget?: string): void {
+// The directory the client asked to start in, if it exists and is under one
+// of the cwd roots; otherwise the fallback, the profile's directory or --cwd
+// (the operator's own choice, so not checked against the roots).
+function resolveSpawnCwd(
+  sessionId: string,
+  requested: string | undefined,
+  fallback: string | undefined,
+): string | undefined {
+  if (requested === undefined) return fallback;
+  const allowed = resolveAllowedDirectory(requested, cwdRoots);
+  if (allowed !== null) return allowed;
+  console.log(
+    `[session ${sessionId}] cannot start in ${JSON.stringify(requested)} (not a directory under the cwd roots), using the default directory`,
+  );
+  return fallback;
+}
+
+// What a handshake asked for: ssh to sshTarget, or run a profile, or the
+// shell; cwd only applies to local sessions.
+export interface SessionStart {
+  sshTarget?: string;
+  cwd?: string;
+  profile?: string;
+}
+
+export function createSession(ws: ServerWebSocket<WsData>, cols: number, rows: number, start: SessionStart = {}): void {
+  const { sshTarget, cwd } = start;
+  const profile = start.profile !== undefined ? sessionProfiles.get(start.profile) : undefined;
+  const overrides =
+    sshTarget !== undefined ? findSshHostOverrides(sshHostEnvironment, sshTarget) : (profile ?? NO_ENV_OVERRIDES);
+  const env = buildSpawnEnv(sshTarget !== undefined, overrides);
   let command: string[];
   try {
-    command = buildSessionCommand(sshTarget);
+    command = buildSessionCommand(sshTarget, start.profile);
   } catch {
-    ws.send(encodeServerControl({ type: "error", message: "Invalid ssh target" }));
-    closeClientSocket(ws, 1008, "Invalid ssh target");
+    const message = start.profile !== undefined ? "Unknown profile" : "Invalid ssh target";
+    ws.send(encodeServerControl({ type: "error", message }));
+    closeClientSocket(ws, 1008, message);
     return;
   }
 
   const sessionId = crypto.randomUUID();
-  const clampedCols = clampDimension(cols, 80, MAX_COLS);
-  const clampedRows = clampDimension(rows, 24, MAX_ROWS);
+  ws.data.role = "driver";
+  ws.data.cols = clampDimension(cols, 80, tuning.maxCols);
+  ws.data.rows = clampDimension(rows, 24, tuning.maxRows);
+  const initial = computeEffectiveSize(sizePolicy, [{ role: "driver", cols: ws.data.cols, rows: ws.data.rows }]);
+  const clampedCols = clampDimension(initial?.cols, ws.data.cols, tuning.maxCols);
+  const clampedRows = clampDimension(initial?.rows, ws.data.rows, tuning.maxRows);
 
   const shadow = createShadowTerminal(clampedCols, clampedRows);
 
   const session: PtySession = {
     sessionId,
     proc: null,
+    command,
+    sshTarget: sshTarget ?? null,
+    profile: profile?.id ?? null,
     cols: clampedCols,
     rows: clampedRows,
     shadowTerm: shadow.term,
     serializeAddon: shadow.addon,
-    attachPending: null,
-    attachedWs: ws,
+    shellIntegration: shadow.shell,
+    inlineImages: shadow.images,
+    cwd: null,
+    title: null,
+    environment: { term: env.TERM ?? "", set: overrides.env, unset: overrides.unset },
+    clients: new Set([ws]),
+    driverWs: ws,
     createdAt: Date.now(),
     lastActivityAt: Date.now(),
     lastDetachedAt: null,
+    lastArchivedAt: 0,
+    pinned: false,
+    recording: null,
+    monitor: createMonitorState(Date.now()),
+    pendingAlerts: [],
+    broadcastTo: new Set(),
     state: "spawning",
-    heartbeatTimer: null,
-    heartbeatPending: false,
   };
 
   sessions.set(sessionId, session);
   ws.data.sessionId = sessionId;
+  shadow.term.parser.registerOscHandler(WORKING_DIRECTORY_OSC, (data) => {
+    const reported = parseWorkingDirectoryOsc(data);
+    if (reported) setSessionCwd(session, formatWorkingDirectory(reported, hostname()));
+    return true;
+  });
+  shadow.term.onTitleChange((title) => setSessionTitle(session, title));
 
   let proc: ReturnType<typeof Bun.spawn>;
   try {
     proc = Bun.spawn(command, {
-      cwd: spawnCwd,
+      cwd: sshTarget === undefined ? resolveSpawnCwd(sessionId, cwd, profile?.cwd ?? spawnCwd) : spawnCwd,
       terminal: {
         cols: clampedCols,
         rows: clampedRows,
@@ -272,14 +603,19 @@ export function createSession(ws: ServerWebSocket<WsData>, cols: number, rows: n
           if (!current) return;
 
           current.lastActivityAt = Date.now();
+          const alert = noteOutput(current.monitor, current.lastActivityAt);
+          if (alert) raiseAlert(current, alert, current.lastActivityAt);
           // Copy: xterm queues writes without copying, and Bun may reuse `data`'s buffer.
           const chunk = data.slice();
           current.shadowTerm.write(chunk);
-
-          if (current.attachPending) {
-            current.attachPending.push(chunk);
-          } else if (current.attachedWs && current.state === "attached") {
-            sendOutputFrame(current.attachedWs, data);
+          if (current.recording) recordOutput(current.recording, chunk);
+
+          for (const client of current.clients) {
+            if (client.data.attachPending) {
+              client.data.attachPending.push(chunk);
+            } else {
+              sendOutputFrame(client, chunk);
+            }
           }
         },
         exit(_terminal, exitCode, signal) {
@@ -289,27 +625,30 @@ export function createSession(ws: ServerWebSocket<WsData>, cols: number, rows: n
           console.log(`[session ${sessionId}] PTY exited (code=${exitCode}, signal=${signal})`);
           current.state = "dead";
           current.proc = null;
-          current.attachPending = null;
           current.shadowTerm.dispose();
-          stopHeartbeat(current);
-
-          if (current.attachedWs) {
-            current.attachedWs.send(
-              encodeServerControl({ type: "session_ended", exitCode: exitCode ?? null, signal: signal ?? null }),
-            );
-            closeClientSocket(current.attachedWs, 1000, "Session destroyed");
-            current.attachedWs = null;
-          }
+          endRecording(current);
+
+          const ended = encodeServerControl({
+            type: "session_ended",
+            exitCode: exitCode ?? null,
+            signal: signal ?? null,
+          });
+          releaseClients(current, 1000, "Session destroyed", (client) => client.send(ended));
 
           sessions.delete(sessionId);
+          stopBroadcasts(current);
+          // The shell is gone for good; its last screen was already delivered.
+          if (!shuttingDown) removeArchive(sessionId);
         },
       },
-      env: buildSpawnEnv(sshTarget !== undefined),
+      env,
     });
   } catch (error) {
     console.error(`[session ${sessionId}] Failed to spawn PTY:`, error);
     session.shadowTerm.dispose();
     sessions.delete(sessionId);
+    session.clients.clear();
+    session.driverWs = null;
     ws.data.sessionId = null;
     closeClientSocket(ws, 1011, "Failed to spawn shell");
     return;
@@ -318,89 +657,171 @@ export function createSession(ws: ServerWebSocket<WsData>, cols: number, rows: n
   session.proc = proc;
   session.state = "attached";
   console.log(`[session ${sessionId}] spawned pid=${proc.pid} (${JSON.stringify(command)})`);
-
-  ws.send(encodeServerControl({ type: "session_info", sessionId }));
-  startHeartbeat(session);
+  if (isRecordingEnabled()) beginRecording(session);
+
+  ws.send(
+    encodeServerControl({
+      type: "session_info",
+      sessionId,
+      role: "driver",
+      pinned: false,
+      recording: session.recording !== null,
+      monitor: session.monitor.settings,
+      broadcast: broadcastState(session),
+      cwd: session.cwd,
+      environment: session.environment,
+    }),
+  );
+  sendPreferencesFrame(ws);
+  // Clears whatever title the client kept from its previous session.
+  sendTitleFrame(ws, null);
+  sendEffectiveSize(session, ws);
+  startHeartbeat(session, ws);
 }
 
-export function attachSession(sessionId: string, ws: ServerWebSocket<WsData>, cols: number, rows: number): void {
+// Attach a client to a running session. A driver attach takes input over from
+// any previous driver (closed with REPLACED_CLOSE_CODE); viewers join alongside
+// whoever is there. Either way the client's size joins the size policy.
+export function attachSession(
+  sessionId: string,
+  ws: ServerWebSocket<WsData>,
+  cols: number,
+  rows: number,
+  role: ClientRole = "driver",
+): void {
   const session = sessions.get(sessionId);
   if (!session || session.state === "dead") {
     ws.data.sessionId = null;
-    ws.send(encodeServerControl({ type: "error", message: "Session not found or already dead" }));
+    if (!sendArchivedSession(sessionId, ws)) {
+      ws.send(encodeServerControl({ type: "error", message: "Session not found or already dead" }));
+    }
     return;
   }
 
-  // Detach previous client if still connected
-  if (session.attachedWs && session.attachedWs !== ws) {
-    closeClientSocket(session.attachedWs, 4002, "Replaced by new connection");
-  }
-
-  session.attachedWs = ws;
+  session.clients.add(ws);
   session.state = "attached";
   session.lastDetachedAt = null;
   session.lastActivityAt = Date.now();
   ws.data.sessionId = sessionId;
+  ws.data.role = role;
+  ws.data.cols = clampDimension(cols, 80, tuning.maxCols);
+  ws.data.rows = clampDimension(rows, 24, tuning.maxRows);
+
+  if (role === "driver") {
+    const previous = session.driverWs;
+    session.driverWs = ws;
+    if (previous && previous !== ws) {
+      detachClient(session, previous, REPLACED_CLOSE_CODE, "Replaced by new connection");
+    }
+  }
 
-  resizeSession(session, cols, rows);
-
-  // Send session info
-  ws.send(encodeServerControl({ type: "session_info", sessionId }));
+  console.log(`[session ${sessionId}] ${ws.data.connectionId} attached as ${role} (${session.clients.size} connected)`);
+  ws.send(
+    encodeServerControl({
+      type: "session_info",
+      sessionId,
+      role,
+      pinned: session.pinned,
+      recording: session.recording !== null,
+      monitor: session.monitor.settings,
+      broadcast: broadcastState(session),
+      cwd: session.cwd,
+      environment: session.environment,
+    }),
+  );
+  sendPreferencesFrame(ws);
+  for (const { alert, at } of session.pendingAlerts) {
+    ws.send(encodeServerControl({ type: "monitor_alert", alert, at }));
+  }
+  session.pendingAlerts = [];
+  if (!applySizePolicy(session)) {
+    sendEffectiveSize(session, ws);
+  }
 
   // Send a full-state snapshot once the shadow terminal has parsed all PTY
   // output received so far. Live output arriving in the meantime is queued in
-  // attachPending and flushed after the snapshot, preserving byte order.
+  // this client's attachPending and flushed after the snapshot, preserving
+  // byte order. Other clients keep receiving output directly.
   const pending: Uint8Array[] = [];
-  session.attachPending = pending;
+  ws.data.attachPending = pending;
   session.shadowTerm.write("", () => {
-    if (session.attachPending !== pending) return; // superseded by a newer attach, detach, or destroy
-    session.attachPending = null;
-    if (session.attachedWs !== ws) return;
+    if (ws.data.attachPending !== pending) return; // superseded by a newer attach, detach, or destroy
+    ws.data.attachPending = null;
+    if (!session.clients.has(ws)) return;
 
     const snapshot = buildSnapshot(session);
     if (snapshot.length > 0) {
       sendOutputFrame(ws, snapshot);
     }
+    // The snapshot does not carry the title.
+    sendTitleFrame(ws, session.title);
     for (const chunk of pending) {
       sendOutputFrame(ws, chunk);
     }
   });
 
-  startHeartbeat(session);
+  startHeartbeat(session, ws);
 }
 
-export function resizeSession(session: PtySession, cols: number | undefined, rows: number | undefined): void {
-  const clampedCols = clampDimension(cols, 80, MAX_COLS);
-  const clampedRows = clampDimension(rows, 24, MAX_ROWS);
-  if (session.cols === clampedCols && session.rows === clampedRows) return;
-
-  session.cols = clampedCols;
-  session.rows = clampedRows;
-  try {
-    session.proc?.terminal?.resize(clampedCols, clampedRows);
-  } catch {
-    // Terminal may be in an odd state
-  }
-  try {
-    session.shadowTerm.resize(clampedCols, clampedRows);
-  } catch {
-    // Shadow terminal may already be disposed
-  }
+// A session from before a server restart: hand the client its last screen
+// (read-only, at its old size) and close. Returns false when there is none.
+function sendArchivedSession(sessionId: string, ws: ServerWebSocket<WsData>): boolean {
+  const archive = readArchive(sessionId);
+  if (!archive) return false;
+
+  console.log(`[session ${sessionId}] ${ws.data.connectionId} sent archived screen`);
+  ws.send(
+    encodeServerControl({
+      type: "session_archived",
+      sessionId,
+      command: archive.command,
+      sshTarget: archive.sshTarget,
+      savedAt: archive.savedAt,
+    }),
+  );
+  ws.send(encodeServerControl({ type: "effective_size", columns: archive.cols, rows: archive.rows }));
+  sendOutputFrame(ws, new TextEncoder().encode(archive.snapshot));
+  closeClientSocket(ws, ARCHIVED_CLOSE_CODE, "Session archived");
+  return true;
 }
 
-export function detachSession(session: PtySession, closeCode?: number, closeReason?: string): void {
-  stopHeartbeat(session);
-  session.attachPending = null;
+// Record a client's new viewport size and re-apply the size policy.
+export function resizeClient(
+  session: PtySession,
+  ws: ServerWebSocket<WsData>,
+  cols: number | undefined,
+  rows: number | undefined,
+): void {
+  ws.data.cols = clampDimension(cols, 80, tuning.maxCols);
+  ws.data.rows = clampDimension(rows, 24, tuning.maxRows);
+  applySizePolicy(session);
+}
 
-  if (session.attachedWs) {
-    closeClientSocket(session.attachedWs, closeCode, closeReason);
-    session.attachedWs = null;
+// Remove one client from a session, closing its socket. The session is only
+// considered detached (and eligible for the idle sweep) once no clients remain.
+export function detachClient(
+  session: PtySession,
+  ws: ServerWebSocket<WsData>,
+  closeCode?: number,
+  closeReason?: string,
+): void {
+  stopHeartbeat(ws);
+  ws.data.attachPending = null;
+  closeClientSocket(ws, closeCode, closeReason);
+
+  if (!session.clients.delete(ws)) return;
+  if (session.driverWs === ws) {
+    session.driverWs = null;
   }
 
-  if (session.state !== "dead") {
+  if (session.state === "dead") return;
+  if (session.clients.size === 0) {
     session.state = "detached";
     session.lastDetachedAt = Date.now();
     console.log(`[session ${session.sessionId}] detached`);
+  } else {
+    // The departed client may have been the one holding the size down.
+    applySizePolicy(session);
   }
 }
 
@@ -409,20 +830,25 @@ export function destroySession(sessionId: string, closeCode: number = RESTART_CL
   if (!session) return;
 
   console.log(`[session ${sessionId}] destroying`);
-  // Deregister and close the client socket before touching the process:
+  // Deregister and close the client sockets before touching the process:
   // terminal.close() invokes the PTY exit callback synchronously, which would
-  // otherwise find the session still registered and close the socket itself
+  // otherwise find the session still registered and close the sockets itself
   // with code 1000, clobbering `closeCode`.
   sessions.delete(sessionId);
-  stopHeartbeat(session);
   session.state = "dead";
-  session.attachPending = null;
+  stopBroadcasts(session);
   session.shadowTerm.dispose();
-
-  if (session.attachedWs) {
-    closeClientSocket(session.attachedWs, closeCode, closeCode === ENDED_CLOSE_CODE ? "Session ended" : "Restart");
-    session.attachedWs = null;
-  }
+  endRecording(session);
+  const closeReason =
+    closeCode === ENDED_CLOSE_CODE
+      ? "Session ended"
+      : closeCode === SHUTDOWN_CLOSE_CODE
+        ? "Server shutting down"
+        : "Restart";
+  releaseClients(session, closeCode, closeReason);
+  // Archives outlive only a server shutdown; ending, restarting, or reaping a
+  // session throws its screen away.
+  if (!shuttingDown) removeArchive(sessionId);
 
   if (session.proc) {
     const proc = session.proc;
@@ -444,39 +870,198 @@ export function destroySession(sessionId: string, closeCode: number = RESTART_CL
       } catch {
         // Process may already be dead
       }
-    }, KILL_ESCALATION_MS);
+    }, tuning.killEscalationMs);
     void proc.exited.finally(() => clearTimeout(killTimer));
     session.proc = null;
   }
 }
 
-export function destroyAllSessions(): void {
+export function destroyAllSessions(closeCode: number = RESTART_CLOSE_CODE): void {
   for (const sessionId of [...sessions.keys()]) {
-    destroySession(sessionId);
+    destroySession(sessionId, closeCode);
   }
 }
 
-export function handlePong(sessionId: string): void {
-  const session = sessions.get(sessionId);
-  if (session) {
-    session.heartbeatPending = false;
-  }
+export function handlePong(ws: ServerWebSocket<WsData>): void {
+  ws.data.heartbeatPending = false;
 }
 
 export function getSession(sessionId: string): PtySession | undefined {
   return sessions.get(sessionId);
 }
 
-export function getSessionSummaries(): {
-  sessionId: string;
-  state: string;
-  pid: number | undefined;
-  lastActivityAt: number;
-}[] {
+function broadcastControl(session: PtySession, msg: ServerControlMessage): void {
+  const message = encodeServerControl(msg);
+  for (const ws of session.clients) {
+    if (ws.readyState === WebSocket.OPEN) ws.send(message);
+  }
+}
+
+export function setSessionPinned(session: PtySession, pinned: boolean): void {
+  if (session.pinned === pinned) return;
+  session.pinned = pinned;
+  console.log(`[session ${session.sessionId}] ${pinned ? "pinned" : "unpinned"}`);
+  broadcastControl(session, { type: "pinned", pinned });
+}
+
+function setSessionCwd(session: PtySession, cwd: string): void {
+  if (session.cwd === cwd) return;
+  session.cwd = cwd;
+  broadcastControl(session, { type: "cwd", cwd });
+}
+
+function setSessionTitle(session: PtySession, title: string): void {
+  const next = title.length > 0 ? title : null;
+  if (session.title === next) return;
+  session.title = next;
+  for (const ws of session.clients) sendTitleFrame(ws, next);
+}
+
+// --- Recording ---
+
+function beginRecording(session: PtySession): void {
+  const { sessionId, command, cols, rows, environment } = session;
+  session.recording = startRecording({ sessionId, command, cols, rows, term: environment.term });
+  if (session.recording) {
+    console.log(`[session ${session.sessionId}] recording to ${session.recording.path}`);
+  }
+}
+
+function endRecording(session: PtySession): void {
+  if (!session.recording) return;
+  void stopRecording(session.recording);
+  console.log(`[session ${session.sessionId}] recording saved to ${session.recording.path}`);
+  session.recording = null;
+}
+
+// Starting again after a stop begins a new file. A no-op without --record-dir.
+export function setSessionRecording(session: PtySession, recording: boolean): void {
+  if (!isRecordingEnabled() || (session.recording !== null) === recording) return;
+  if (recording) {
+    beginRecording(session);
+  } else {
+    endRecording(session);
+  }
+  broadcastControl(session, { type: "recording", recording: session.recording !== null });
+}
+
+// --- Synchronize input ---
+
+function broadcastState(session: PtySession): SessionBroadcast {
+  const sources: string[] = [];
+  for (const other of sessions.values()) {
+    if (other.broadcastTo.has(session.sessionId)) sources.push(other.sessionId);
+  }
+  return { targets: [...session.broadcastTo], sources };
+}
+
+function announceBroadcast(sessionIds: Iterable<string>): void {
+  for (const sessionId of sessionIds) {
+    const session = sessions.get(sessionId);
+    if (session) broadcastControl(session, { type: "broadcast", broadcast: broadcastState(session) });
+  }
+}
+
+// Unknown and ended sessions are left out, as is the session itself. Both
+// sides of every change are told, so each affected terminal shows it.
+export function setSessionBroadcast(session: PtySession, targets: string[]): void {
+  const next = new Set(targets.filter((id) => id !== session.sessionId && sessions.has(id)));
+  const affected = new Set([session.sessionId, ...session.broadcastTo, ...next]);
+  session.broadcastTo = next;
+  console.log(
+    `[session ${session.sessionId}] ${next.size > 0 ? `broadcasting input to ${next.size} session(s)` : "not broadcasting input"}`,
+  );
+  announceBroadcast(affected);
+}
+
+/** The live sessions a session's driver input is also written to. */
+export function getBroadcastTargets(session: PtySession): PtySession[] {
+  const targets: PtySession[] = [];
+  for (const id of session.broadcastTo) {
+    const target = sessions.get(id);
+    if (target?.proc?.terminal) targets.push(target);
+  }
+  return targets;
+}
+
+// A session going away stops broadcasting, and stops being broadcast to.
+function stopBroadcasts(session: PtySession): void {
+  const affected = new Set(session.broadcastTo);
+  session.broadcastTo = new Set();
+  for (const other of sessions.values()) {
+    if (other.broadcastTo.delete(session.sessionId)) affected.add(other.sessionId);
+  }
+  announceBroadcast(affected);
+}
+
+// --- Activity and silence monitoring ---
+
+export function setSessionMonitor(session: PtySession, monitor: SessionMonitor): void {
+  updateMonitor(session.monitor, monitor, Date.now());
+  if (!isMonitoring(monitor)) session.pendingAlerts = [];
+  broadcastControl(session, { type: "monitor", monitor });
+}
+
+// Driver input, so the echo of typing is not mistaken for activity.
+export function noteSessionInput(session: PtySession): void {
+  noteInput(session.monitor, Date.now());
+}
+
+// Sent to every client, or held for the next attach while there are none.
+function raiseAlert(session: PtySession, alert: MonitorAlert, at: number): void {
+  if (session.clients.size > 0) {
+    broadcastControl(session, { type: "monitor_alert", alert, at });
+    return;
+  }
+  session.pendingAlerts.push({ alert, at });
+  if (session.pendingAlerts.length > tuning.maxPendingAlerts) session.pendingAlerts.shift();
+}
+
+function checkSilentSessions(): void {
+  const now = Date.now();
+  for (const session of sessions.values()) {
+    if (session.state === "dead") continue;
+    const alert = checkSilence(session.monitor, now);
+    if (alert) raiseAlert(session, alert, now);
+  }
+}
+
+export function startActivityMonitor(): void {
+  if (monitorTimer !== null) return;
+  monitorTimer = setInterval(checkSilentSessions, MONITOR_INTERVAL_MS);
+}
+
+export function stopActivityMonitor(): void {
+  if (monitorTimer !== null) {
+    clearInterval(monitorTimer);
+    monitorTimer = null;
+  }
+}
+
+// Milliseconds until the stale sweep may reap this session, or null when it
+// won't be (attached, pinned, or no detach timeout).
+function reapInMs(session: PtySession, now: number): number | null {
+  if (session.state !== "detached" || session.lastDetachedAt === null) return null;
+  if (session.pinned || detachTimeoutMs === null) return null;
+  return Math.max(0, session.lastDetachedAt + detachTimeoutMs - now);
+}
+
+export function getSessionSummaries(): SessionSummary[] {
+  const now = Date.now();
   return [...sessions.values()].map((s) => ({
     sessionId: s.sessionId,
     state: s.state,
     pid: s.proc?.pid,
+    command: s.command,
+    sshTarget: s.sshTarget,
+    profile: s.profile,
+    driverAttached: s.driverWs !== null,
+    viewerCount: s.clients.size - (s.driverWs !== null ? 1 : 0),
+    pinned: s.pinned,
+    cwd: s.cwd,
+    title: s.title,
+    reapInMs: reapInMs(s, now),
+    createdAt: s.createdAt,
     lastActivityAt: s.lastActivityAt,
   }));
 }
@@ -486,19 +1071,17 @@ export function getSessionSummaries(): {
 function sweepStaleSessions(): void {
   const now = Date.now();
   for (const [sessionId, session] of sessions) {
-    if (session.state === "detached" && session.lastDetachedAt !== null) {
+    if (reapInMs(session, now) === 0 && session.lastDetachedAt !== null) {
       const idleMs = now - session.lastDetachedAt;
-      if (idleMs >= SESSION_IDLE_TIMEOUT_MS) {
-        console.log(`[session ${sessionId}] stale (detached for ${Math.round(idleMs / 1000)}s), destroying`);
-        destroySession(sessionId);
-      }
+      console.log(`[session ${sessionId}] stale (detached for ${Math.round(idleMs / 1000)}s), destroying`);
+      destroySession(sessionId);
     }
   }
 }
 
 export function startStaleSweep(): void {
   if (staleSweepTimer !== null) return;
-  staleSweepTimer = setInterval(sweepStaleSessions, STALE_SWEEP_INTERVAL_MS);
+  staleSweepTimer = setInterval(sweepStaleSessions, tuning.staleSweepIntervalMs);
 }
 
 export function stopStaleSweep(): void {
@@ -508,12 +1091,79 @@ export function stopStaleSweep(): void {
   }
 }
 
+// --- Screen archiving (--state-dir) ---
+
+function archiveSession(session: PtySession): void {
+  if (session.state === "dead") return;
+  writeArchive({
+    sessionId: session.sessionId,
+    command: session.command,
+    sshTarget: session.sshTarget,
+    cols: session.cols,
+    rows: session.rows,
+    createdAt: session.createdAt,
+    lastActivityAt: session.lastActivityAt,
+    savedAt: Date.now(),
+    snapshot: serializeScreen(session),
+  });
+  session.lastArchivedAt = Date.now();
+}
+
+// Archive a session once the shadow terminal has parsed everything received so far.
+function archiveWhenParsed(session: PtySession): Promise<void> {
+  return new Promise((resolve) => {
+    session.shadowTerm.write("", () => {
+      archiveSession(session);
+      resolve();
+    });
+  });
+}
+
+function archiveChangedSessions(): void {
+  for (const session of sessions.values()) {
+    if (session.state !== "dead" && session.lastActivityAt > session.lastArchivedAt) {
+      void archiveWhenParsed(session);
+    }
+  }
+  pruneArchives();
+}
+
+export function startArchiving(): void {
+  if (archiveTimer !== null || !isArchiveEnabled()) return;
+  pruneArchives();
+  archiveTimer = setInterval(archiveChangedSessions, tuning.archiveIntervalMs);
+}
+
+export function stopArchiving(): void {
+  if (archiveTimer !== null) {
+    clearInterval(archiveTimer);
+    archiveTimer = null;
+  }
+}
+
 // --- Graceful shutdown ---
 
-function gracefulShutdown(): void {
-  console.log("Shutting down: destroying all sessions");
+async function gracefulShutdown(): Promise<void> {
+  if (shuttingDown) return;
+  shuttingDown = true;
   stopStaleSweep();
-  destroyAllSessions();
+  stopArchiving();
+  stopActivityMonitor();
+  const recordings = [...sessions.values()].flatMap((session) => (session.recording ? [session.recording] : []));
+
+  if (isArchiveEnabled()) {
+    console.log("Shutting down: archiving and destroying all sessions");
+    const archived = Promise.all([...sessions.values()].map(archiveWhenParsed));
+    await Promise.race([archived, Bun.sleep(tuning.shutdownArchiveTimeoutMs)]);
+    destroyAllSessions(SHUTDOWN_CLOSE_CODE);
+  } else {
+    console.log("Shutting down: destroying all sessions");
+    destroyAllSessions();
+  }
+  // Recordings write in the background; let them finish their files.
+  if (recordings.length > 0) {
+    await Promise.race([Promise.all(recordings.map(stopRecording)), Bun.sleep(RECORDING_FLUSH_TIMEOUT_MS)]);
+  }
   process.exit(0);
 }
 
@@ -522,6 +1172,6 @@ let shutdownHandlersRegistered = false;
 export function registerShutdownHandlers(): void {
   if (shutdownHandlersRegistered) return;
   shutdownHandlersRegistered = true;
-  process.on("SIGTERM", gracefulShutdown);
-  process.on("SIGINT", gracefulShutdown);
+  process.on("SIGTERM", () => void gracefulShutdown());
+  process.on("SIGINT", () => void gracefulShutdown());
 }
@@ -0,0 +1,55 @@
+import { describe, expect, test } from "bun:test";
+import { homedir, tmpdir } from "node:os";
+
+import { parseSessionProfiles, summarizeProfile } from "./sessionProfiles";
+
+describe("parseSessionProfiles", () => {
+  test("reads profiles in order, resolving cwd", () => {
+    const profiles = parseSessionProfiles(
+      {
+        src: {
+          name: "fish in ~/src",
+          icon: "🐟",
+          command: ["fish", "-l"],
+          cwd: "~",
+          env: { EDITOR: "hx" },
+          unset: ["DISPLAY"],
+        },
+        repl: { name: "python3 REPL", command: ["python3"], cwd: "." },
+      },
+      tmpdir(),
+    );
+    expect(profiles).toEqual([
+      {
+        id: "src",
+        name: "fish in ~/src",
+        icon: "🐟",
+        command: ["fish", "-l"],
+        cwd: homedir(),
+        env: { EDITOR: "hx" },
+        unset: ["DISPLAY"],
+      },
+      { id: "repl", name: "python3 REPL", icon: null, command: ["python3"], cwd: tmpdir(), env: {}, unset: [] },
+    ]);
+    expect(profiles.map(summarizeProfile)).toEqual([
+      { id: "src", name: "fish in ~/src", icon: "🐟" },
+      { id: "repl", name: "python3 REPL", icon: null },
+    ]);
+  });
+
+  test("names the offending profile and key", () => {
+    const parse = (value: unknown) => () => parseSessionProfiles(value, tmpdir());
+    expect(parse({ repl: { name: "REPL" } })).toThrow("repl.command: expected a non-empty list of strings");
+    expect(parse({ repl: { name: "REPL", command: ["python3"], args: [] } })).toThrow(
+      "repl.args: unknown profile setting",
+    );
+    expect(parse({ repl: { name: "REPL", command: ["python3"], env: { "A-B": "1" } } })).toThrow(
+      "repl.env.A-B: not a valid variable name",
+    );
+    expect(parse({ repl: { name: "REPL", command: ["python3"], cwd: "/nonexistent-dir" } })).toThrow(
+      "repl.cwd: /nonexistent-dir does not exist",
+    );
+    expect(parse({ Repl: { name: "REPL", command: ["python3"] } })).toThrow("Repl: ids are lowercase");
+    expect(parse([])).toThrow("expected a table of profiles");
+  });
+});
@@ -0,0 +1,122 @@
+// Named session profiles: commands the operator offers on the start screen,
+// defined in the --config file, one table per profile:
+//
+//   [profiles.src]
+//   name = "fish in ~/src"
+//   icon = "🐟"
+//   command = ["/usr/bin/fish", "-l"]
+//   cwd = "~/src"
+//   env = { EDITOR = "hx" }          # see envOverrides.ts
+//   unset = ["DISPLAY"]
+//
+// Clients get the id, name and icon (SessionProfileSummary) and start a profile
+// by sending its id in the handshake; the argv, directory and environment
+// never come from the client.
+
+import { statSync } from "node:fs";
+import { homedir } from "node:os";
+import { resolve } from "node:path";
+import { type EnvOverrides, parseEnvOverrides } from "./envOverrides";
+import { isValidProfileId } from "./ttyProtocol";
+
+export interface SessionProfile extends EnvOverrides {
+  id: string;
+  name: string;
+  icon: string | null;
+  command: string[];
+  // Absolute; the server's --cwd when unset
+  cwd: string | undefined;
+}
+
+export interface SessionProfileSummary {
+  id: string;
+  name: string;
+  icon: string | null;
+}
+
+const MAX_NAME_LENGTH = 64;
+// An emoji or a couple of letters
+const MAX_ICON_LENGTH = 8;
+const PROFILE_KEYS = ["name", "icon", "command", "cwd", "env", "unset"];
+
+function isTable(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// "~" and "~/..." are the server user's home; other relative paths are
+// relative to baseDir (the config file's directory).
+function resolveProfileCwd(raw: unknown, baseDir: string): string {
+  if (typeof raw !== "string" || raw === "") throw new Error("expected a non-empty string");
+  const expanded = raw === "~" || raw.startsWith("~/") ? homedir() + raw.slice(1) : raw;
+  const path = resolve(baseDir, expanded);
+  let isDirectory: boolean;
+  try {
+    isDirectory = statSync(path).isDirectory();
+  } catch {
+    throw new Error(`${path} does not exist`);
+  }
+  if (!isDirectory) throw new Error(`${path} is not a directory`);
+  return path;
+}
+
+function parseProfile(id: string, value: unknown, baseDir: string): SessionProfile {
+  const fail = (key: string, problem: string): never => {
+    throw new Error(`${key === "" ? id : `${id}.${key}`}: ${problem}`);
+  };
+  if (!isValidProfileId(id)) fail("", "ids are lowercase letters, digits, - and _ (at most 64)");
+  if (!isTable(value)) return fail("", "expected a table");
+  for (const key of Object.keys(value)) {
+    if (!PROFILE_KEYS.includes(key)) fail(key, "unknown profile setting");
+  }
+
+  const { name, icon, command, cwd } = value;
+  if (typeof name !== "string" || name.trim() === "" || name.length > MAX_NAME_LENGTH) {
+    fail("name", `expected a non-empty string of at most ${MAX_NAME_LENGTH} characters`);
+  }
+  if (icon !== undefined && (typeof icon !== "string" || icon === "" || [...icon].length > MAX_ICON_LENGTH)) {
+    fail("icon", `expected a string of 1 to ${MAX_ICON_LENGTH} characters`);
+  }
+  if (!Array.isArray(command) || command.length === 0 || !command.every((arg) => typeof arg === "string")) {
+    return fail("command", "expected a non-empty list of strings");
+  }
+  if (command[0] === "") fail("command", "the program (first element) must not be empty");
+
+  let resolvedCwd: string | undefined;
+  if (cwd !== undefined) {
+    try {
+      resolvedCwd = resolveProfileCwd(cwd, baseDir);
+    } catch (err) {
+      fail("cwd", err instanceof Error ? err.message : String(err));
+    }
+  }
+
+  let overrides: EnvOverrides;
+  try {
+    overrides = parseEnvOverrides(value);
+  } catch (err) {
+    throw new Error(`${id}.${err instanceof Error ? err.message : err}`);
+  }
+
+  return {
+    id,
+    name: name as string,
+    icon: typeof icon === "string" ? icon : null,
+    command,
+    cwd: resolvedCwd,
+    ...overrides,
+  };
+}
+
+/**
+ * Validates the config file's `profiles` table, keeping its order. Throws an
+ * `Error` naming the first offending profile and key, e.g.
+ * `repl.command: expected a non-empty list of strings`.
+ */
+export function parseSessionProfiles(value: unknown, baseDir: string): SessionProfile[] {
+  if (!isTable(value)) throw new Error("expected a table of profiles");
+  return Object.entries(value).map(([id, profile]) => parseProfile(id, profile, baseDir));
+}
+
+export function summarizeProfile(profile: SessionProfile): SessionProfileSummary {
+  return { id: profile.id, name: profile.name, icon: profile.icon };
+}
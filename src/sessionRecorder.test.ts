@@ -0,0 +1,110 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdtempSync, readdirSync, readFileSync, rmSync, utimesSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import {
+  isRecordingEnabled,
+  listRecordings,
+  recordingFileName,
+  recordingPath,
+  recordOutput,
+  recordResize,
+  setRecordDir,
+  startRecording,
+  stopRecording,
+} from "./sessionRecorder";
+
+const info = {
+  sessionId: "0f8c2a52-8d7e-4a43-9c55-3d2f3a1b6e10",
+  command: ["/bin/bash", "-l"],
+  cols: 80,
+  rows: 24,
+  term: "xterm-kitty",
+};
+const startedAt = Date.UTC(2026, 9, 18, 9, 30, 5, 250);
+
+let recordDir: string;
+
+beforeEach(() => {
+  recordDir = mkdtempSync(join(tmpdir(), "mywebterm-record-"));
+  setRecordDir(recordDir);
+});
+
+afterEach(() => {
+  setRecordDir(undefined);
+  rmSync(recordDir, { recursive: true, force: true });
+});
+
+function readEvents(path: string): unknown[] {
+  return readFileSync(path, "utf8")
+    .trimEnd()
+    .split("\n")
+    .map((line) => JSON.parse(line));
+}
+
+describe("session recorder", () => {
+  test("names files by start time and session", () => {
+    expect(recordingFileName(info.sessionId, startedAt)).toBe("2026-10-18T09-30-05Z-0f8c2a52.cast");
+  });
+
+  test("writes an asciicast v2 header, output and resize events", async () => {
+    const recording = startRecording(info, startedAt);
+    if (!recording) throw new Error("expected a recording");
+    recordOutput(recording, new TextEncoder().encode("$ ls\r\n"), startedAt + 500);
+    recordResize(recording, 120, 40, startedAt + 1500);
+    const stopped = stopRecording(recording);
+    recordOutput(recording, new TextEncoder().encode("ignored"), startedAt + 2000);
+    await stopped;
+
+    expect(readdirSync(recordDir)).toEqual(["2026-10-18T09-30-05Z-0f8c2a52.cast"]);
+    expect(readEvents(recording.path)).toEqual([
+      {
+        version: 2,
+        width: 80,
+        height: 24,
+        timestamp: Math.floor(startedAt / 1000),
+        title: "/bin/bash -l",
+        env: { TERM: "xterm-kitty", SHELL: "/bin/bash" },
+      },
+      [0.5, "o", "$ ls\r\n"],
+      [1.5, "r", "120x40"],
+    ]);
+  });
+
+  test("keeps multi-byte characters split across chunks together", async () => {
+    const recording = startRecording(info, startedAt);
+    if (!recording) throw new Error("expected a recording");
+    const bytes = new TextEncoder().encode("é");
+    recordOutput(recording, bytes.slice(0, 1), startedAt + 100);
+    recordOutput(recording, bytes.slice(1), startedAt + 200);
+    await stopRecording(recording);
+
+    expect(readEvents(recording.path).slice(1)).toEqual([[0.2, "o", "é"]]);
+  });
+
+  test("does nothing when disabled", () => {
+    setRecordDir(undefined);
+    expect(isRecordingEnabled()).toBe(false);
+    expect(startRecording(info)).toBeNull();
+  });
+});
+
+describe("recording directory", () => {
+  test("lists recordings newest first and resolves only plain names", async () => {
+    const first = startRecording(info, startedAt);
+    const second = startRecording({ ...info, sessionId: "6a1d2c3b-0000-4000-8000-000000000001" }, startedAt + 60_000);
+    if (!first || !second) throw new Error("expected recordings");
+    await Promise.all([stopRecording(first), stopRecording(second)]);
+    const old = new Date(startedAt);
+    utimesSync(first.path, old, old);
+    writeFileSync(join(recordDir, "notes.txt"), "");
+
+    expect(listRecordings().map((r) => r.name)).toEqual([
+      "2026-10-18T09-31-05Z-6a1d2c3b.cast",
+      "2026-10-18T09-30-05Z-0f8c2a52.cast",
+    ]);
+    expect(recordingPath("2026-10-18T09-30-05Z-0f8c2a52.cast")).toBe(first.path);
+    expect(recordingPath("../etc/passwd.cast")).toBeNull();
+  });
+});
@@ -0,0 +1,141 @@
+// Session recording (`--record-dir`). Each recording is an asciicast v2 file
+// (https://docs.asciinema.org/manual/asciicast/v2/) — a JSON header line, then
+// one `[seconds, "o", text]` line per chunk of PTY output and a
+// `[seconds, "r", "COLSxROWS"]` line per resize — so `asciinema play` and the
+// in-browser player can replay it. Input is not recorded.
+
+import { createWriteStream, mkdirSync, openSync, readdirSync, statSync, type WriteStream } from "node:fs";
+import { join } from "node:path";
+import { isRecordingName, type RecordingEntry } from "./asciicast";
+
+export interface Recording {
+  path: string;
+  startedAt: number;
+  // Keeps multi-byte characters split across PTY reads intact
+  decoder: TextDecoder;
+  // Null once stopped
+  stream: WriteStream | null;
+  // Resolves when everything written is on disk and the file is closed
+  closed: Promise<void>;
+}
+
+export interface RecordingInfo {
+  sessionId: string;
+  command: string[];
+  cols: number;
+  rows: number;
+  // The TERM the session was spawned with
+  term: string;
+}
+
+let recordDir: string | null = null;
+
+/** Enables recording into `dir` (created if missing), or disables it when undefined. */
+export function setRecordDir(dir: string | undefined): void {
+  if (dir === undefined) {
+    recordDir = null;
+    return;
+  }
+  mkdirSync(dir, { recursive: true, mode: 0o700 });
+  recordDir = dir;
+}
+
+export function isRecordingEnabled(): boolean {
+  return recordDir !== null;
+}
+
+// 2026-10-18T09-30-05Z-84fc55d8.cast: sorts by start time, and the session id
+// prefix tells recordings started in the same second apart.
+export function recordingFileName(sessionId: string, startedAt: number): string {
+  const stamp = new Date(startedAt)
+    .toISOString()
+    .replace(/\.\d{3}Z$/, "Z")
+    .replaceAll(":", "-");
+  return `${stamp}-${sessionId.slice(0, 8)}.cast`;
+}
+
+function writeEvent(recording: Recording, event: unknown): void {
+  recording.stream?.write(`${JSON.stringify(event)}\n`);
+}
+
+function elapsedSeconds(recording: Recording, now: number): number {
+  return Math.max(0, now - recording.startedAt) / 1000;
+}
+
+// Events are queued on a write stream, so a slow disk never holds up the event
+// loop (and every other session's output); stopRecording waits for the tail.
+export function startRecording(info: RecordingInfo, now: number = Date.now()): Recording | null {
+  if (recordDir === null) return null;
+  const path = join(recordDir, recordingFileName(info.sessionId, now));
+  let fd: number;
+  try {
+    fd = openSync(path, "wx", 0o600);
+  } catch (err) {
+    console.error(`[session ${info.sessionId}] failed to start recording:`, err);
+    return null;
+  }
+  const stream = createWriteStream(path, { fd });
+  const closed = new Promise<void>((resolve) => stream.once("close", () => resolve()));
+  const recording: Recording = { path, startedAt: now, decoder: new TextDecoder(), stream, closed };
+  stream.on("error", (err) => {
+    // Disk full or the directory vanished: give up on this recording rather
+    // than failing every write after it.
+    console.error(`[recording ${path}] write failed, stopping:`, err);
+    recording.stream = null;
+  });
+  writeEvent(recording, {
+    version: 2,
+    width: info.cols,
+    height: info.rows,
+    timestamp: Math.floor(now / 1000),
+    title: info.command.join(" "),
+    env: { TERM: info.term, SHELL: info.command[0] ?? "" },
+  });
+  return recording;
+}
+
+export function recordOutput(recording: Recording, data: Uint8Array, now: number = Date.now()): void {
+  const text = recording.decoder.decode(data, { stream: true });
+  if (text === "") return;
+  writeEvent(recording, [elapsedSeconds(recording, now), "o", text]);
+}
+
+export function recordResize(recording: Recording, cols: number, rows: number, now: number = Date.now()): void {
+  writeEvent(recording, [elapsedSeconds(recording, now), "r", `${cols}x${rows}`]);
+}
+
+/** Recordings in the directory, newest first; empty when recording is off. */
+export function listRecordings(): RecordingEntry[] {
+  if (recordDir === null) return [];
+  let names: string[];
+  try {
+    names = readdirSync(recordDir);
+  } catch {
+    return [];
+  }
+  const entries: RecordingEntry[] = [];
+  for (const name of names) {
+    if (!isRecordingName(name)) continue;
+    try {
+      const stat = statSync(join(recordDir, name));
+      if (stat.isFile()) entries.push({ name, size: stat.size, modifiedAt: stat.mtimeMs });
+    } catch {
+      // Removed while listing
+    }
+  }
+  return entries.sort((a, b) => b.modifiedAt - a.modifiedAt);
+}
+
+/** Path of a listed recording, or null for names that could point elsewhere. */
+export function recordingPath(name: string): string | null {
+  if (recordDir === null || !isRecordingName(name)) return null;
+  return join(recordDir, name);
+}
+
+/** Stops recording; resolves once what was recorded is written out. */
+export function stopRecording(recording: Recording): Promise<void> {
+  const stream = recording.stream;
+  recording.stream = null;
+  stream?.end();
+  return recording.closed;
+}
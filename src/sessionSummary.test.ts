@@ -0,0 +1,75 @@
+import { describe, expect, test } from "bun:test";
+import { formatSessionAge, parseSessionSummaries, type SessionSummary } from "./sessionSummary";
+
+const summary: SessionSummary = {
+  sessionId: "a",
+  state: "detached",
+  pid: 42,
+  command: ["/bin/bash", "-l"],
+  sshTarget: null,
+  profile: "notes",
+  driverAttached: false,
+  viewerCount: 0,
+  pinned: false,
+  reapInMs: 120_000,
+  cwd: "/home/me",
+  title: "vim notes.md",
+  createdAt: 1,
+  lastActivityAt: 2,
+};
+
+describe("parseSessionSummaries", () => {
+  test("returns well-formed sessions from a /api/sessions body", () => {
+    expect(parseSessionSummaries({ ppid: 1, children: [], sessions: [summary] })).toEqual([summary]);
+  });
+
+  test("accepts ssh sessions, a missing pid and an unknown directory or title", () => {
+    const ssh: SessionSummary = {
+      ...summary,
+      sshTarget: "user@host",
+      profile: null,
+      pid: undefined,
+      cwd: null,
+      title: null,
+    };
+    expect(parseSessionSummaries({ sessions: [ssh] })).toEqual([ssh]);
+  });
+
+  test("drops malformed and dead entries", () => {
+    expect(
+      parseSessionSummaries({
+        sessions: [
+          { ...summary, state: "dead" },
+          { ...summary, state: "zombie" },
+          { ...summary, command: "bash" },
+          { ...summary, sshTarget: 7 },
+          { ...summary, profile: undefined },
+          { ...summary, viewerCount: "2" },
+          { ...summary, reapInMs: undefined },
+          { ...summary, cwd: undefined },
+          { ...summary, title: 3 },
+          null,
+          summary,
+        ],
+      }),
+    ).toEqual([summary]);
+  });
+
+  test("returns an empty list for unexpected bodies", () => {
+    expect(parseSessionSummaries(null)).toEqual([]);
+    expect(parseSessionSummaries({})).toEqual([]);
+    expect(parseSessionSummaries({ sessions: "nope" })).toEqual([]);
+  });
+});
+
+describe("formatSessionAge", () => {
+  test("uses the largest whole unit", () => {
+    expect(formatSessionAge(0)).toBe("now");
+    expect(formatSessionAge(-500)).toBe("now");
+    expect(formatSessionAge(42_000)).toBe("42s");
+    expect(formatSessionAge(5 * 60_000 + 59_000)).toBe("5m");
+    expect(formatSessionAge(3 * 3_600_000)).toBe("3h");
+    expect(formatSessionAge(47 * 3_600_000)).toBe("47h");
+    expect(formatSessionAge(3 * 86_400_000)).toBe("3d");
+  });
+});
@@ -0,0 +1,89 @@
+// The shape of one live PTY session as reported by GET /api/sessions, shared by
+// the server (getSessionSummaries) and the start screen's session picker.
+
+export type SessionState = "spawning" | "attached" | "detached" | "dead";
+
+export interface SessionSummary {
+  sessionId: string;
+  state: SessionState;
+  pid?: number;
+  // argv the PTY was spawned with (the ssh invocation for ssh sessions)
+  command: string[];
+  // "[user@]host[:port]" as chosen on the start screen, null for local shells
+  sshTarget: string | null;
+  // Id of the session profile it was started from, null when none
+  profile: string | null;
+  // Whether a read-write client is connected, and how many read-only ones
+  driverAttached: boolean;
+  viewerCount: number;
+  // Pinned sessions are never reaped; otherwise reapInMs counts down to the
+  // stale sweep while detached (null when attached or with no timeout)
+  pinned: boolean;
+  reapInMs: number | null;
+  // Last directory the shell reported (OSC 7), "host:/path" when remote
+  cwd: string | null;
+  // Window title set by the shell or a program (OSC 0/2); null when unset
+  title: string | null;
+  createdAt: number;
+  lastActivityAt: number;
+}
+
+const SESSION_STATES: readonly SessionState[] = ["spawning", "attached", "detached", "dead"];
+
+function isSessionSummary(value: unknown): value is SessionSummary {
+  if (typeof value !== "object" || value === null) return false;
+  const s = value as Record<string, unknown>;
+  return (
+    typeof s.sessionId === "string" &&
+    SESSION_STATES.includes(s.state as SessionState) &&
+    (s.pid === undefined || typeof s.pid === "number") &&
+    Array.isArray(s.command) &&
+    s.command.every((arg) => typeof arg === "string") &&
+    (s.sshTarget === null || typeof s.sshTarget === "string") &&
+    (s.profile === null || typeof s.profile === "string") &&
+    typeof s.driverAttached === "boolean" &&
+    typeof s.viewerCount === "number" &&
+    typeof s.pinned === "boolean" &&
+    (s.reapInMs === null || typeof s.reapInMs === "number") &&
+    (s.cwd === null || typeof s.cwd === "string") &&
+    (s.title === null || typeof s.title === "string") &&
+    typeof s.createdAt === "number" &&
+    typeof s.lastActivityAt === "number"
+  );
+}
+
+/**
+ * Picks the session list out of a /api/sessions response body. Malformed
+ * entries are dropped rather than failing the whole list, and dead sessions
+ * are left out since there is nothing to attach to.
+ */
+export function parseSessionSummaries(json: unknown): SessionSummary[] {
+  if (typeof json !== "object" || json === null) return [];
+  const sessions = (json as { sessions?: unknown }).sessions;
+  if (!Array.isArray(sessions)) return [];
+  return sessions.filter(isSessionSummary).filter((s) => s.state !== "dead");
+}
+
+/** Compact relative duration for the session list: "now", "42s", "5m", "3h", "2d". */
+export function formatSessionAge(ms: number): string {
+  const seconds = Math.floor(Math.max(0, ms) / 1000);
+  if (seconds < 5) return "now";
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 48) return `${hours}h`;
+  return `${Math.floor(hours / 24)}d`;
+}
+
+export async function loadSessionSummaries(): Promise<SessionSummary[]> {
+  const res = await fetch("/api/sessions");
+  if (res.status === 401) {
+    window.location.href = "/login";
+    return [];
+  }
+  if (!res.ok) {
+    throw new Error(`Failed to fetch sessions: ${res.status} ${res.statusText}`);
+  }
+  return parseSessionSummaries(await res.json());
+}
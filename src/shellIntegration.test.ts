@@ -0,0 +1,94 @@
+import { describe, expect, test } from "bun:test";
+import { Terminal } from "@xterm/headless";
+
+import {
+  commandOutputLines,
+  createShellIntegration,
+  formatShellMark,
+  groupShellCommands,
+  parseShellIntegrationOsc,
+  type ShellMark,
+} from "./shellIntegration";
+
+function write(terminal: Terminal, data: string): Promise<void> {
+  return new Promise((resolve) => terminal.write(data, resolve));
+}
+
+const A = "\x1b]133;A\x07";
+const B = "\x1b]133;B\x07";
+const C = "\x1b]133;C\x07";
+const D = (code: number) => `\x1b]133;D;${code}\x07`;
+
+describe("parseShellIntegrationOsc", () => {
+  test("reads the mark and the exit code", () => {
+    expect(parseShellIntegrationOsc("A")).toEqual({ kind: "prompt", exitCode: null });
+    expect(parseShellIntegrationOsc("A;click_events=1")).toEqual({ kind: "prompt", exitCode: null });
+    expect(parseShellIntegrationOsc("C")).toEqual({ kind: "output", exitCode: null });
+    expect(parseShellIntegrationOsc("D;2")).toEqual({ kind: "end", exitCode: 2 });
+    expect(parseShellIntegrationOsc("D")).toEqual({ kind: "end", exitCode: null });
+    expect(parseShellIntegrationOsc("D;aid=12")).toEqual({ kind: "end", exitCode: null });
+  });
+
+  test("rejects unknown marks", () => {
+    expect(parseShellIntegrationOsc("")).toBeNull();
+    expect(parseShellIntegrationOsc("P;k=i")).toBeNull();
+  });
+
+  test("formatShellMark writes the sequence back", () => {
+    expect(formatShellMark({ kind: "prompt", exitCode: null })).toBe(A);
+    expect(formatShellMark({ kind: "end", exitCode: 2 })).toBe(D(2));
+    expect(formatShellMark({ kind: "end", exitCode: null })).toBe("\x1b]133;D\x07");
+  });
+});
+
+describe("groupShellCommands", () => {
+  test("starts a command at each prompt", () => {
+    const marks: ShellMark[] = [
+      { kind: "end", line: 0, exitCode: 0 },
+      { kind: "prompt", line: 1, exitCode: null },
+      { kind: "command", line: 1, exitCode: null },
+      { kind: "output", line: 2, exitCode: null },
+      { kind: "end", line: 5, exitCode: 1 },
+      { kind: "prompt", line: 5, exitCode: null },
+    ];
+    const commands = groupShellCommands(marks);
+    expect(commands).toEqual([
+      { promptLine: 1, commandLine: 1, outputLine: 2, endLine: 5, exitCode: 1 },
+      { promptLine: 5, commandLine: null, outputLine: null, endLine: null, exitCode: null },
+    ]);
+    expect(commandOutputLines(commands[0] as (typeof commands)[0])).toEqual({ first: 2, last: 4 });
+    expect(commandOutputLines(commands[1] as (typeof commands)[0])).toBeNull();
+  });
+
+  test("gives no output range for a command that printed nothing", () => {
+    expect(commandOutputLines({ promptLine: 0, commandLine: 0, outputLine: 1, endLine: 1, exitCode: 0 })).toBeNull();
+  });
+});
+
+describe("createShellIntegration", () => {
+  test("tracks marks on the buffer lines where they arrived", async () => {
+    const terminal = new Terminal({ cols: 40, rows: 10, allowProposedApi: true });
+    const shell = createShellIntegration(terminal);
+    await write(terminal, `${A}$ ${B}ls\r\n${C}a\r\nb\r\n${D(0)}${A}$ ${B}`);
+    expect(shell.marks()).toEqual([
+      { kind: "prompt", line: 0, exitCode: null },
+      { kind: "command", line: 0, exitCode: null },
+      { kind: "output", line: 1, exitCode: null },
+      { kind: "end", line: 3, exitCode: 0 },
+      { kind: "prompt", line: 3, exitCode: null },
+      { kind: "command", line: 3, exitCode: null },
+    ]);
+    shell.dispose();
+    terminal.dispose();
+  });
+
+  test("ignores marks on the alternate screen and drops marks on reset", async () => {
+    const terminal = new Terminal({ cols: 40, rows: 10, allowProposedApi: true });
+    const shell = createShellIntegration(terminal);
+    await write(terminal, `\x1b[?1049h${A}\x1b[?1049l${A}`);
+    expect(shell.marks()).toHaveLength(1);
+    terminal.reset();
+    expect(shell.marks()).toEqual([]);
+    terminal.dispose();
+  });
+});
@@ -0,0 +1,162 @@
+// Shell integration through OSC 133 (FinalTerm "semantic prompts"), which
+// shells set up for iTerm2, VS Code, WezTerm or kitty integration emit:
+//
+//   OSC 133 ; A BEL                  the prompt starts
+//   OSC 133 ; B BEL                  the prompt ends, the command line starts
+//   OSC 133 ; C BEL                  the command runs, its output starts
+//   OSC 133 ; D [; <exit code>] BEL  the command finished
+//
+// Each mark is an xterm marker, so it follows its line as output scrolls and
+// goes away with it when the line leaves the scrollback (or the screen is
+// reset). The same tracker runs on the client's terminal and on the server's
+// shadow terminal; the server writes its marks back into a resume snapshot, on
+// their rows, for the client's tracker to pick up again.
+
+export const SHELL_INTEGRATION_OSC = 133;
+
+export type ShellMarkKind = "prompt" | "command" | "output" | "end";
+
+/** A mark at an absolute buffer line; exitCode only on "end" marks that have one. */
+export interface ShellMark {
+  kind: ShellMarkKind;
+  line: number;
+  exitCode: number | null;
+}
+
+/** One prompt and what followed it, as buffer lines (null: not reached yet). */
+export interface ShellCommand {
+  promptLine: number;
+  commandLine: number | null;
+  outputLine: number | null;
+  endLine: number | null;
+  exitCode: number | null;
+}
+
+const MARK_KINDS: Record<string, ShellMarkKind> = { A: "prompt", B: "command", C: "output", D: "end" };
+const MARK_LETTERS: Record<ShellMarkKind, string> = { prompt: "A", command: "B", output: "C", end: "D" };
+// Enough for any scrollback; stops a runaway loop of prompts from piling up
+// markers faster than the scrollback drops them.
+const MAX_MARKS = 4000;
+
+/** Parses an OSC 133 payload; null for unknown or malformed marks. */
+export function parseShellIntegrationOsc(data: string): { kind: ShellMarkKind; exitCode: number | null } | null {
+  // Extra ";key=value" options (kitty's "A;click_events=1", VS Code's "aid=…")
+  // are ignored.
+  const [letter, exitText] = data.split(";");
+  const kind = letter !== undefined ? MARK_KINDS[letter] : undefined;
+  if (!kind) return null;
+  if (kind !== "end" || exitText === undefined || !/^-?\d{1,10}$/.test(exitText)) {
+    return { kind, exitCode: null };
+  }
+  return { kind, exitCode: Number(exitText) };
+}
+
+/** The OSC 133 sequence that makes `mark`. */
+export function formatShellMark(mark: Pick<ShellMark, "kind" | "exitCode">): string {
+  const exitCode = mark.kind === "end" && mark.exitCode !== null ? `;${mark.exitCode}` : "";
+  return `\x1b]${SHELL_INTEGRATION_OSC};${MARK_LETTERS[mark.kind]}${exitCode}\x07`;
+}
+
+/** Groups marks (oldest first) into commands, each starting at a prompt mark. */
+export function groupShellCommands(marks: readonly ShellMark[]): ShellCommand[] {
+  const commands: ShellCommand[] = [];
+  let current: ShellCommand | null = null;
+  for (const mark of marks) {
+    if (mark.kind === "prompt") {
+      current = { promptLine: mark.line, commandLine: null, outputLine: null, endLine: null, exitCode: null };
+      commands.push(current);
+    } else if (current && current.endLine === null) {
+      if (mark.kind === "command") current.commandLine = mark.line;
+      if (mark.kind === "output") current.outputLine = mark.line;
+      if (mark.kind === "end") {
+        current.endLine = mark.line;
+        current.exitCode = mark.exitCode;
+      }
+    }
+  }
+  return commands;
+}
+
+/**
+ * The lines a finished command printed, first and last inclusive; null when
+ * it has not finished or printed nothing. The end mark is written where the
+ * next prompt begins, so its own line is not part of the output.
+ */
+export function commandOutputLines(command: ShellCommand): { first: number; last: number } | null {
+  if (command.outputLine === null || command.endLine === null) return null;
+  if (command.endLine <= command.outputLine) return null;
+  return { first: command.outputLine, last: command.endLine - 1 };
+}
+
+// --- Tracking marks on a terminal ---
+
+// The parts of an xterm (or @xterm/headless) marker the tracker relies on.
+interface MarkerLike {
+  readonly line: number;
+  readonly isDisposed: boolean;
+  dispose(): void;
+  onDispose(listener: () => void): unknown;
+}
+
+interface MarkableTerminal<M extends MarkerLike> {
+  parser: { registerOscHandler(ident: number, callback: (data: string) => boolean): { dispose(): void } };
+  registerMarker(cursorYOffset?: number): M | undefined;
+  buffer: { active: { type: string } };
+}
+
+export interface TrackedShellMark<M> {
+  kind: ShellMarkKind;
+  exitCode: number | null;
+  marker: M;
+}
+
+export interface ShellIntegration<M> {
+  /** Live marks, oldest first, with their markers. */
+  entries(): TrackedShellMark<M>[];
+  /** Live marks as plain lines, e.g. to write into a resume snapshot. */
+  marks(): ShellMark[];
+  dispose(): void;
+}
+
+/**
+ * Starts tracking OSC 133 marks on `terminal`. Marks seen while the alternate
+ * screen is active are ignored: that screen has no scrollback to keep them in.
+ * `onMark` runs for every new mark.
+ */
+export function createShellIntegration<M extends MarkerLike>(
+  terminal: MarkableTerminal<M>,
+  onMark?: (mark: TrackedShellMark<M>) => void,
+): ShellIntegration<M> {
+  let tracked: TrackedShellMark<M>[] = [];
+
+  const add = (kind: ShellMarkKind, exitCode: number | null) => {
+    if (terminal.buffer.active.type === "alternate") return;
+    const marker = terminal.registerMarker(0);
+    if (!marker) return;
+    const mark = { kind, exitCode, marker };
+    tracked.push(mark);
+    marker.onDispose(() => {
+      tracked = tracked.filter((m) => m !== mark);
+    });
+    if (tracked.length > MAX_MARKS) tracked[0]?.marker.dispose();
+    onMark?.(mark);
+  };
+
+  const handler = terminal.parser.registerOscHandler(SHELL_INTEGRATION_OSC, (data) => {
+    const parsed = parseShellIntegrationOsc(data);
+    if (parsed) add(parsed.kind, parsed.exitCode);
+    return true;
+  });
+
+  const live = () => tracked.filter((m) => !m.marker.isDisposed && m.marker.line >= 0);
+
+  return {
+    entries: live,
+    marks: () => live().map((m) => ({ kind: m.kind, line: m.marker.line, exitCode: m.exitCode })),
+    dispose() {
+      handler.dispose();
+      for (const mark of tracked) mark.marker.dispose();
+      tracked = [];
+    },
+  };
+}
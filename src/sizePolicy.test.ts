@@ -0,0 +1,55 @@
+import { describe, expect, test } from "bun:test";
+
+import { type ClientSize, computeEffectiveSize, describeSizePolicy, parseSizePolicy } from "./sizePolicy";
+
+describe("parseSizePolicy", () => {
+  test("parses the named policies", () => {
+    expect(parseSizePolicy("driver")).toEqual({ kind: "driver" });
+    expect(parseSizePolicy(" Smallest ")).toEqual({ kind: "smallest" });
+  });
+
+  test("parses a fixed COLSxROWS size", () => {
+    expect(parseSizePolicy("120x40")).toEqual({ kind: "fixed", cols: 120, rows: 40 });
+    expect(parseSizePolicy("80X24")).toEqual({ kind: "fixed", cols: 80, rows: 24 });
+  });
+
+  test("rejects anything else", () => {
+    expect(() => parseSizePolicy("")).toThrow("value is empty");
+    expect(() => parseSizePolicy("largest")).toThrow("expected driver, smallest, or COLSxROWS");
+    expect(() => parseSizePolicy("0x24")).toThrow("at least 1x1");
+    expect(() => parseSizePolicy("120x")).toThrow();
+    expect(() => parseSizePolicy("-1x24")).toThrow();
+  });
+
+  test("round-trips through describeSizePolicy", () => {
+    for (const text of ["driver", "smallest", "120x40"]) {
+      expect(describeSizePolicy(parseSizePolicy(text))).toBe(text);
+    }
+  });
+});
+
+describe("computeEffectiveSize", () => {
+  const driver: ClientSize = { role: "driver", cols: 120, rows: 40 };
+  const narrowViewer: ClientSize = { role: "viewer", cols: 80, rows: 50 };
+  const shortViewer: ClientSize = { role: "viewer", cols: 200, rows: 20 };
+
+  test("driver policy follows the driver and ignores viewers", () => {
+    expect(computeEffectiveSize({ kind: "driver" }, [narrowViewer, driver])).toEqual({ cols: 120, rows: 40 });
+    expect(computeEffectiveSize({ kind: "driver" }, [narrowViewer])).toBeNull();
+  });
+
+  test("smallest policy takes the minimum of each dimension across all clients", () => {
+    expect(computeEffectiveSize({ kind: "smallest" }, [driver, narrowViewer, shortViewer])).toEqual({
+      cols: 80,
+      rows: 20,
+    });
+    expect(computeEffectiveSize({ kind: "smallest" }, [shortViewer])).toEqual({ cols: 200, rows: 20 });
+    expect(computeEffectiveSize({ kind: "smallest" }, [])).toBeNull();
+  });
+
+  test("fixed policy ignores clients entirely", () => {
+    const fixed = { kind: "fixed", cols: 100, rows: 30 } as const;
+    expect(computeEffectiveSize(fixed, [driver])).toEqual({ cols: 100, rows: 30 });
+    expect(computeEffectiveSize(fixed, [])).toEqual({ cols: 100, rows: 30 });
+  });
+});
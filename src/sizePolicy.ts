@@ -0,0 +1,70 @@
+// Parsing for `--size-policy`, which decides the PTY size when several clients
+// share one session, and the pure rule that applies it.
+//
+// Accepted forms:
+//   driver      the driver's viewport wins; viewers letterbox or scroll (default)
+//   smallest    the smallest connected client wins in each dimension, like tmux
+//   120x40      fixed size, whatever the clients report
+
+import type { ClientRole } from "./ttyProtocol";
+
+export type SizePolicy = { kind: "driver" } | { kind: "smallest" } | { kind: "fixed"; cols: number; rows: number };
+
+export interface TerminalSize {
+  cols: number;
+  rows: number;
+}
+
+export interface ClientSize extends TerminalSize {
+  role: ClientRole;
+}
+
+export const DEFAULT_SIZE_POLICY = "driver";
+
+const FIXED_SIZE_RE = /^(\d{1,4})x(\d{1,4})$/;
+
+/**
+ * Parses a `--size-policy` value. Throws an `Error` whose message completes the
+ * sentence "invalid --size-policy value: ..." — the caller turns that into an exit.
+ */
+export function parseSizePolicy(raw: string): SizePolicy {
+  const text = raw.trim().toLowerCase();
+  if (text === "") throw new Error("value is empty");
+  if (text === "driver" || text === "smallest") return { kind: text };
+
+  const fixed = FIXED_SIZE_RE.exec(text);
+  if (fixed?.[1] !== undefined && fixed[2] !== undefined) {
+    const cols = Number(fixed[1]);
+    const rows = Number(fixed[2]);
+    if (cols < 1 || rows < 1) throw new Error(`size ${JSON.stringify(raw)} must be at least 1x1`);
+    return { kind: "fixed", cols, rows };
+  }
+
+  throw new Error(`${JSON.stringify(raw)} (expected driver, smallest, or COLSxROWS)`);
+}
+
+export function describeSizePolicy(policy: SizePolicy): string {
+  return policy.kind === "fixed" ? `${policy.cols}x${policy.rows}` : policy.kind;
+}
+
+/**
+ * The size a session's PTY should have given its connected clients, or null
+ * when the policy has nobody to follow (no driver, or no clients at all) and
+ * the PTY should keep its current size.
+ */
+export function computeEffectiveSize(policy: SizePolicy, clients: readonly ClientSize[]): TerminalSize | null {
+  switch (policy.kind) {
+    case "fixed":
+      return { cols: policy.cols, rows: policy.rows };
+    case "driver": {
+      const driver = clients.find((c) => c.role === "driver");
+      return driver ? { cols: driver.cols, rows: driver.rows } : null;
+    }
+    case "smallest":
+      if (clients.length === 0) return null;
+      return {
+        cols: Math.min(...clients.map((c) => c.cols)),
+        rows: Math.min(...clients.map((c) => c.rows)),
+      };
+  }
+}
@@ -0,0 +1,28 @@
+import { describe, expect, test } from "bun:test";
+
+import { exportFileName, wrapHtmlExport } from "./terminalExport";
+
+describe("exportFileName", () => {
+  const now = new Date(2026, 9, 18, 9, 30, 5);
+
+  test("slugs the title and stamps the local time", () => {
+    expect(exportFileName("vim ~/Build Log.txt", "text", now)).toBe("vim-build-log-txt-2026-10-18T09-30-05.txt");
+    expect(exportFileName("MyWebTerm", "ansi", now)).toBe("mywebterm-2026-10-18T09-30-05.ansi");
+    expect(exportFileName("", "html", now)).toBe("terminal-2026-10-18T09-30-05.html");
+    expect(exportFileName("✓✓✓", "html", now)).toBe("terminal-2026-10-18T09-30-05.html");
+  });
+});
+
+describe("wrapHtmlExport", () => {
+  test("adds a doctype, charset and escaped title", () => {
+    expect(wrapHtmlExport("<html><body><pre>é</pre></body></html>", "a <b>")).toBe(
+      '<!DOCTYPE html>\n<html><head><meta charset="utf-8"><title>a &lt;b&gt;</title></head><body><pre>é</pre></body></html>\n',
+    );
+  });
+
+  test("wraps a bare fragment", () => {
+    expect(wrapHtmlExport("<pre>x</pre>", "t")).toBe(
+      '<!DOCTYPE html>\n<html><head><meta charset="utf-8"><title>t</title></head><pre>x</pre></html>\n',
+    );
+  });
+});
@@ -0,0 +1,55 @@
+// Downloading the terminal buffer (screen plus scrollback) as a file, for
+// attaching logs to bug reports. The content itself comes from useTerminal's
+// exportOutput; this module names, wraps, and saves it.
+
+export type ExportFormat = "text" | "ansi" | "html";
+
+export const EXPORT_FORMATS: Record<ExportFormat, { label: string; extension: string; mimeType: string }> = {
+  text: { label: "Plain Text", extension: "txt", mimeType: "text/plain;charset=utf-8" },
+  // Escape sequences kept, so `cat` in a terminal replays the colors
+  ansi: { label: "ANSI", extension: "ansi", mimeType: "text/plain;charset=utf-8" },
+  html: { label: "HTML", extension: "html", mimeType: "text/html;charset=utf-8" },
+};
+
+/** "build log" at 09:30:05 → "build-log-2026-10-18T09-30-05.txt" (local time). */
+export function exportFileName(title: string, format: ExportFormat, now: Date = new Date()): string {
+  const slug =
+    title
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-+|-+$/g, "")
+      .slice(0, 40) || "terminal";
+  const pad = (n: number) => String(n).padStart(2, "0");
+  const stamp =
+    `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}` +
+    `T${pad(now.getHours())}-${pad(now.getMinutes())}-${pad(now.getSeconds())}`;
+  return `${slug}-${stamp}.${EXPORT_FORMATS[format].extension}`;
+}
+
+function escapeHtml(text: string): string {
+  return text.replaceAll("&", "&amp;").replaceAll("<", "&lt;").replaceAll(">", "&gt;").replaceAll('"', "&quot;");
+}
+
+/**
+ * Makes the serialize addon's HTML (an `<html><body>` fragment with inline
+ * styles) a standalone page: declares UTF-8, so box drawing and other
+ * non-ASCII output survive opening the file from disk, and gives it a title.
+ */
+export function wrapHtmlExport(html: string, title: string): string {
+  const head = `<head><meta charset="utf-8"><title>${escapeHtml(title)}</title></head>`;
+  const page = html.startsWith("<html>") ? html.replace("<html>", `<html>${head}`) : `<html>${head}${html}</html>`;
+  return `<!DOCTYPE html>\n${page}\n`;
+}
+
+export function downloadFile(fileName: string, mimeType: string, content: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const anchor = document.createElement("a");
+  anchor.href = url;
+  anchor.download = fileName;
+  anchor.style.display = "none";
+  document.body.appendChild(anchor);
+  anchor.click();
+  anchor.remove();
+  // Revoking right away can cancel the download in some browsers.
+  setTimeout(() => URL.revokeObjectURL(url), 60_000);
+}
@@ -0,0 +1,70 @@
+import { describe, expect, test } from "bun:test";
+
+import {
+  createNotifyOscHandler,
+  describeMonitorAlert,
+  NOTIFY_OSC,
+  parseNotifyOsc,
+  parseUrxvtNotifyOsc,
+  URXVT_OSC,
+} from "./terminalNotify";
+
+describe("parseNotifyOsc", () => {
+  test("takes the payload as the message", () => {
+    expect(parseNotifyOsc("Build finished")).toEqual({ title: null, body: "Build finished" });
+    expect(parseNotifyOsc("done; 3 warnings")).toEqual({ title: null, body: "done; 3 warnings" });
+  });
+
+  test("ignores ConEmu subcommands and empty messages", () => {
+    expect(parseNotifyOsc("4;1;50")).toBeNull();
+    expect(parseNotifyOsc("4")).toBeNull();
+    expect(parseNotifyOsc("")).toBeNull();
+    expect(parseNotifyOsc(" \x07 ")).toBeNull();
+  });
+
+  test("strips control characters and clips long messages", () => {
+    expect(parseNotifyOsc("a\nb\x1b[31mc")).toEqual({ title: null, body: "a b[31mc" });
+    expect(parseNotifyOsc("x".repeat(1000))?.body).toBe(`${"x".repeat(255)}…`);
+  });
+});
+
+describe("parseUrxvtNotifyOsc", () => {
+  test("reads the title and message", () => {
+    expect(parseUrxvtNotifyOsc("notify;make;Build finished")).toEqual({ title: "make", body: "Build finished" });
+    expect(parseUrxvtNotifyOsc("notify;make;a;b")).toEqual({ title: "make", body: "a;b" });
+    expect(parseUrxvtNotifyOsc("notify;;only a message")).toEqual({ title: null, body: "only a message" });
+    expect(parseUrxvtNotifyOsc("notify;only a title")).toEqual({ title: "only a title", body: "" });
+  });
+
+  test("ignores other commands and empty notifications", () => {
+    expect(parseUrxvtNotifyOsc("precmd")).toBeNull();
+    expect(parseUrxvtNotifyOsc("notify;;")).toBeNull();
+    expect(parseUrxvtNotifyOsc("notify")).toBeNull();
+  });
+});
+
+describe("createNotifyOscHandler", () => {
+  test("dispatches notifications and always consumes the sequence", () => {
+    const seen: string[] = [];
+    const osc9 = createNotifyOscHandler(NOTIFY_OSC, (n) => seen.push(n.body));
+    const osc777 = createNotifyOscHandler(URXVT_OSC, (n) => seen.push(`${n.title}: ${n.body}`));
+    expect(osc9("hello")).toBe(true);
+    expect(osc9("4;1;50")).toBe(true);
+    expect(osc777("notify;t;b")).toBe(true);
+    expect(osc777("precmd")).toBe(true);
+    expect(seen).toEqual(["hello", "t: b"]);
+  });
+});
+
+describe("describeMonitorAlert", () => {
+  test("describes fresh alerts plainly and says when held ones happened", () => {
+    expect(describeMonitorAlert("activity", 1_000, 2_000)).toEqual({
+      title: null,
+      body: "New output after a quiet spell",
+    });
+    expect(describeMonitorAlert("silence", 1_000, 2_000).body).toBe("Output has stopped");
+    expect(describeMonitorAlert("silence", 1_000, 600_000).body).toMatch(
+      /^Output has stopped \(at .+, while detached\)$/,
+    );
+  });
+});
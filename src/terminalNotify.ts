@@ -0,0 +1,125 @@
+// Notifications from programs on the far side — "the build finished" — shown
+// in this browser:
+//
+//   OSC 9 ; <message> BEL                      iTerm2 / ConEmu / Windows Terminal
+//   OSC 777 ; notify ; <title> ; <message> BEL urxvt, VTE (foot, Ghostty, kitty)
+//   BEL                                        the terminal bell
+//
+// Session monitor alerts (activity / silence, from the server) are shown the
+// same way.
+//
+// A hidden tab gets a desktop notification (when the user has granted the
+// permission from the overflow menu); a visible one gets a toast. Either way
+// it is only ever text: clicking a notification just brings the tab back.
+
+import type { MonitorAlert } from "./ttyProtocol";
+
+export const NOTIFY_OSC = 9;
+export const URXVT_OSC = 777;
+
+const MAX_TITLE_LENGTH = 80;
+const MAX_BODY_LENGTH = 256;
+
+export interface TerminalNotification {
+  // null: use the page title, which names the session
+  title: string | null;
+  body: string;
+}
+
+// Control characters have no business in a notification and could garble the
+// toast; newlines become spaces so the text stays readable.
+function cleanText(text: string, maxLength: number): string {
+  const cleaned = text
+    .replace(/[\r\n\t]+/g, " ")
+    // biome-ignore lint/suspicious/noControlCharactersInRegex: stripping them is the point
+    .replace(/[\u0000-\u001f\u007f-\u009f]/g, "")
+    .trim();
+  return cleaned.length > maxLength ? `${cleaned.slice(0, maxLength - 1)}…` : cleaned;
+}
+
+/**
+ * Parses an OSC 9 payload. ConEmu reuses OSC 9 for numbered subcommands
+ * (`9;4;1;50` is a progress bar, sent by winget and systemd among others);
+ * those, and empty messages, give null.
+ */
+export function parseNotifyOsc(data: string): TerminalNotification | null {
+  if (/^\d+(;|$)/.test(data)) return null;
+  const body = cleanText(data, MAX_BODY_LENGTH);
+  return body === "" ? null : { title: null, body };
+}
+
+/** Parses an OSC 777 payload; null for anything but a non-empty `notify`. */
+export function parseUrxvtNotifyOsc(data: string): TerminalNotification | null {
+  const [command, title = "", ...rest] = data.split(";");
+  if (command !== "notify") return null;
+  const cleanTitle = cleanText(title, MAX_TITLE_LENGTH);
+  // The message may itself contain semicolons.
+  const body = cleanText(rest.join(";"), MAX_BODY_LENGTH);
+  if (cleanTitle === "" && body === "") return null;
+  return { title: cleanTitle === "" ? null : cleanTitle, body };
+}
+
+/**
+ * Builds the handler for OSC 9 or OSC 777. Always returns true so neither
+ * sequence falls through to the terminal, including the ones that are ignored.
+ */
+export function createNotifyOscHandler(
+  osc: typeof NOTIFY_OSC | typeof URXVT_OSC,
+  onNotify: (notification: TerminalNotification) => void,
+): (data: string) => boolean {
+  const parse = osc === NOTIFY_OSC ? parseNotifyOsc : parseUrxvtNotifyOsc;
+  return (data: string) => {
+    const notification = parse(data);
+    if (notification) onNotify(notification);
+    return true;
+  };
+}
+
+// An alert this old was held by the server while no client was attached.
+const LATE_ALERT_MS = 5_000;
+
+/** The notification for a session monitor alert (see SessionMonitor). */
+export function describeMonitorAlert(alert: MonitorAlert, at: number, now: number): TerminalNotification {
+  const body = alert === "activity" ? "New output after a quiet spell" : "Output has stopped";
+  if (now - at < LATE_ALERT_MS) return { title: null, body };
+  const time = new Date(at).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+  return { title: null, body: `${body} (at ${time}, while detached)` };
+}
+
+export type NotificationPermissionState = NotificationPermission | "unsupported";
+
+export function notificationPermission(): NotificationPermissionState {
+  return typeof Notification === "undefined" ? "unsupported" : Notification.permission;
+}
+
+/** Asks for permission; must be called from a click, as browsers require. */
+export async function requestNotificationPermission(): Promise<NotificationPermissionState> {
+  if (typeof Notification === "undefined") return "unsupported";
+  try {
+    return await Notification.requestPermission();
+  } catch {
+    return Notification.permission;
+  }
+}
+
+/**
+ * Shows a desktop notification. Returns false when notifications are not
+ * available or not allowed, so the caller can fall back to a toast.
+ *
+ * `tag` replaces an earlier notification with the same tag instead of
+ * stacking another one.
+ */
+export function showDesktopNotification(title: string, body: string, tag: string): boolean {
+  if (notificationPermission() !== "granted") return false;
+  try {
+    const notification = new Notification(title, { body, tag });
+    notification.onclick = () => {
+      window.focus();
+      notification.close();
+    };
+    return true;
+  } catch {
+    // Chrome on Android only allows notifications from a service worker.
+    return false;
+  }
+}
@@ -0,0 +1,47 @@
+import { describe, expect, test } from "bun:test";
+
+import {
+  mergeTerminalPreferences,
+  parseTerminalPreferences,
+  sanitizeTerminalPreferences,
+  type TerminalPreferences,
+} from "./terminalPreferences";
+
+const full: TerminalPreferences = {
+  theme: "light",
+  fontSize: 14,
+  scrollback: 10_000,
+  cursorStyle: "bar",
+  cursorBlink: false,
+  minColumns: 100,
+  bell: "flash",
+};
+
+describe("parseTerminalPreferences", () => {
+  test("accepts every preference", () => {
+    expect(parseTerminalPreferences(full)).toEqual(full);
+    expect(parseTerminalPreferences({})).toEqual({});
+  });
+
+  test("names the offending key", () => {
+    expect(() => parseTerminalPreferences({ fontSize: 100 })).toThrow("fontSize: expected an integer from 6 to 48");
+    expect(() => parseTerminalPreferences({ theme: "neon" })).toThrow("theme: expected one of dark, light");
+    expect(() => parseTerminalPreferences({ cursorBlink: "yes" })).toThrow("cursorBlink: expected true or false");
+    expect(() => parseTerminalPreferences({ fontsize: 12 })).toThrow("fontsize: unknown preference");
+    expect(() => parseTerminalPreferences([])).toThrow("expected a JSON object");
+  });
+});
+
+describe("sanitizeTerminalPreferences", () => {
+  test("keeps valid keys and drops the rest", () => {
+    expect(sanitizeTerminalPreferences({ fontSize: 12.5, bell: "off", extra: 1 })).toEqual({ bell: "off" });
+    expect(sanitizeTerminalPreferences("dark")).toEqual({});
+  });
+});
+
+describe("mergeTerminalPreferences", () => {
+  test("device overrides win key by key", () => {
+    expect(mergeTerminalPreferences(full, { fontSize: 10, theme: undefined })).toEqual({ ...full, fontSize: 10 });
+    expect(mergeTerminalPreferences({}, { bell: "off" })).toEqual({ bell: "off" });
+  });
+});
@@ -0,0 +1,196 @@
+// Terminal preferences: what the operator sets for every client with
+// `--preferences <file>` (pushed as SET_PREFERENCES on each attach), and what
+// a user overrides for one device from the overflow menu (kept in
+// localStorage). Device values win key by key; anything neither sets falls back
+// to the built-in default.
+//
+// The file is a JSON object with any of these keys:
+//   { "theme": "light", "fontSize": 14, "scrollback": 10000,
+//     "cursorStyle": "bar", "cursorBlink": false, "minColumns": 100,
+//     "bell": "flash" }
+
+import type { ITheme } from "@xterm/xterm";
+
+export type ThemeName = "dark" | "light" | "solarized-dark";
+export type CursorStyle = "block" | "underline" | "bar";
+// notify: desktop notification or toast (see terminalNotify.ts); flash: a
+// brief flash of the terminal; off: ignored
+export type BellMode = "notify" | "flash" | "off";
+
+export interface TerminalPreferences {
+  theme?: ThemeName;
+  fontSize?: number;
+  scrollback?: number;
+  cursorStyle?: CursorStyle;
+  cursorBlink?: boolean;
+  minColumns?: number;
+  bell?: BellMode;
+}
+
+export const THEME_NAMES: readonly ThemeName[] = ["dark", "light", "solarized-dark"];
+export const CURSOR_STYLES: readonly CursorStyle[] = ["block", "underline", "bar"];
+export const BELL_MODES: readonly BellMode[] = ["notify", "flash", "off"];
+
+export const MIN_FONT_SIZE = 6;
+export const MAX_FONT_SIZE = 48;
+// The server's shadow terminal keeps 5000 lines, so more only helps until the
+// next reconnect.
+export const MAX_SCROLLBACK = 100_000;
+export const MAX_MIN_COLUMNS = 500;
+
+export const TERMINAL_THEMES: Record<ThemeName, ITheme> = {
+  dark: {
+    background: "#041425",
+    foreground: "#d8ecff",
+    cursor: "#71f1d6",
+    selectionBackground: "#17416a",
+  },
+  light: {
+    background: "#fbfcfd",
+    foreground: "#1f2933",
+    cursor: "#0b7a6a",
+    cursorAccent: "#fbfcfd",
+    selectionBackground: "#b5d5f5",
+    black: "#1f2933",
+    red: "#c4262e",
+    green: "#2b7a0b",
+    yellow: "#8a6100",
+    blue: "#1d5fbf",
+    magenta: "#9c3fb0",
+    cyan: "#08787f",
+    white: "#6b7280",
+    brightBlack: "#4b5563",
+    brightRed: "#e0393e",
+    brightGreen: "#3b9a16",
+    brightYellow: "#a87a00",
+    brightBlue: "#2f74d8",
+    brightMagenta: "#b552c9",
+    brightCyan: "#0f949c",
+    brightWhite: "#9ca3af",
+  },
+  "solarized-dark": {
+    background: "#002b36",
+    foreground: "#839496",
+    cursor: "#93a1a1",
+    cursorAccent: "#002b36",
+    selectionBackground: "#073642",
+    black: "#073642",
+    red: "#dc322f",
+    green: "#859900",
+    yellow: "#b58900",
+    blue: "#268bd2",
+    magenta: "#d33682",
+    cyan: "#2aa198",
+    white: "#eee8d5",
+    brightBlack: "#002b36",
+    brightRed: "#cb4b16",
+    brightGreen: "#586e75",
+    brightYellow: "#657b83",
+    brightBlue: "#839496",
+    brightMagenta: "#6c71c4",
+    brightCyan: "#93a1a1",
+    brightWhite: "#fdf6e3",
+  },
+};
+
+const DEVICE_PREFERENCES_STORAGE_KEY = "mywebterm-preferences";
+
+function isIntegerIn(value: unknown, min: number, max: number): value is number {
+  return typeof value === "number" && Number.isInteger(value) && value >= min && value <= max;
+}
+
+function isOneOf<T extends string>(values: readonly T[], value: unknown): value is T {
+  return values.includes(value as T);
+}
+
+// Reads every known key, reporting each unknown or invalid one to `report`.
+function collectPreferences(value: unknown, report: (key: string, problem: string) => void): TerminalPreferences {
+  const preferences: TerminalPreferences = {};
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    report("", "expected a JSON object");
+    return preferences;
+  }
+  for (const [key, v] of Object.entries(value)) {
+    switch (key) {
+      case "theme":
+        if (isOneOf(THEME_NAMES, v)) preferences.theme = v;
+        else report(key, `expected one of ${THEME_NAMES.join(", ")}`);
+        break;
+      case "fontSize":
+        if (isIntegerIn(v, MIN_FONT_SIZE, MAX_FONT_SIZE)) preferences.fontSize = v;
+        else report(key, `expected an integer from ${MIN_FONT_SIZE} to ${MAX_FONT_SIZE}`);
+        break;
+      case "scrollback":
+        if (isIntegerIn(v, 0, MAX_SCROLLBACK)) preferences.scrollback = v;
+        else report(key, `expected an integer from 0 to ${MAX_SCROLLBACK}`);
+        break;
+      case "cursorStyle":
+        if (isOneOf(CURSOR_STYLES, v)) preferences.cursorStyle = v;
+        else report(key, `expected one of ${CURSOR_STYLES.join(", ")}`);
+        break;
+      case "cursorBlink":
+        if (typeof v === "boolean") preferences.cursorBlink = v;
+        else report(key, "expected true or false");
+        break;
+      case "minColumns":
+        if (isIntegerIn(v, 1, MAX_MIN_COLUMNS)) preferences.minColumns = v;
+        else report(key, `expected an integer from 1 to ${MAX_MIN_COLUMNS}`);
+        break;
+      case "bell":
+        if (isOneOf(BELL_MODES, v)) preferences.bell = v;
+        else report(key, `expected one of ${BELL_MODES.join(", ")}`);
+        break;
+      default:
+        report(key, "unknown preference");
+    }
+  }
+  return preferences;
+}
+
+/**
+ * Validates a `--preferences` file's contents. Throws an `Error` naming the
+ * first offending key, e.g. `fontSize: expected an integer from 6 to 48`.
+ */
+export function parseTerminalPreferences(value: unknown): TerminalPreferences {
+  return collectPreferences(value, (key, problem) => {
+    throw new Error(key === "" ? problem : `${key}: ${problem}`);
+  });
+}
+
+/** Keeps the valid keys of untrusted preferences (a frame, localStorage) and drops the rest. */
+export function sanitizeTerminalPreferences(value: unknown): TerminalPreferences {
+  return collectPreferences(value, () => {});
+}
+
+/** Server preferences with this device's overrides on top. */
+export function mergeTerminalPreferences(
+  server: TerminalPreferences,
+  device: TerminalPreferences,
+): TerminalPreferences {
+  const merged: TerminalPreferences = { ...server };
+  for (const [key, value] of Object.entries(device)) {
+    if (value !== undefined) Object.assign(merged, { [key]: value });
+  }
+  return merged;
+}
+
+export function loadDevicePreferences(): TerminalPreferences {
+  try {
+    const raw = localStorage.getItem(DEVICE_PREFERENCES_STORAGE_KEY);
+    return raw === null ? {} : sanitizeTerminalPreferences(JSON.parse(raw));
+  } catch {
+    return {};
+  }
+}
+
+export function saveDevicePreferences(preferences: TerminalPreferences): void {
+  try {
+    if (Object.keys(preferences).length === 0) {
+      localStorage.removeItem(DEVICE_PREFERENCES_STORAGE_KEY);
+    } else {
+      localStorage.setItem(DEVICE_PREFERENCES_STORAGE_KEY, JSON.stringify(preferences));
+    }
+  } catch {
+    // Storage full or disabled: the override still applies until reload.
+  }
+}
@@ -0,0 +1,219 @@
+import { describe, expect, test } from "bun:test";
+
+import type { TerminalPane } from "./paneLayout";
+import {
+  closePane,
+  closeTab,
+  cyclePane,
+  cycleTab,
+  driveWatchedSessions,
+  matchTabShortcut,
+  moveTab,
+  normalizeTabName,
+  sanitizeTabWorkspace,
+  type TerminalTab,
+  tabLabel,
+  watchDrivenSessions,
+} from "./terminalTabs";
+
+const pane = (id: string, extra: Partial<TerminalPane> = {}): TerminalPane => ({
+  type: "pane",
+  id,
+  session: null,
+  ...extra,
+});
+const tab = (id: string, extra: Partial<TerminalTab> = {}): TerminalTab => ({
+  id,
+  name: null,
+  layout: pane(`${id}-pane`),
+  focusedPaneId: `${id}-pane`,
+  ...extra,
+});
+const ids = (tabs: TerminalTab[]) => tabs.map((t) => t.id);
+
+describe("sanitizeTabWorkspace", () => {
+  test("keeps valid tabs and drops the rest", () => {
+    expect(
+      sanitizeTabWorkspace({
+        tabs: [
+          {
+            id: "a",
+            name: " build ",
+            layout: {
+              type: "pane",
+              id: "p1",
+              session: { sessionId: "s1", role: "viewer" },
+              sshTarget: "web1",
+              profile: "p",
+            },
+            focusedPaneId: "p1",
+          },
+          { id: "b", name: 3, layout: { type: "pane", id: "p2", profile: "repl", startDirectory: "/srv" } },
+          { id: "a", layout: { type: "pane", id: "p3" } },
+          { id: "c", layout: { type: "pane", id: "p1" } },
+          { id: "d", layout: { type: "split", id: "s", first: { type: "pane", id: "p4" } } },
+          { name: "no id" },
+          "junk",
+        ],
+        activeId: "b",
+      }),
+    ).toEqual({
+      tabs: [
+        {
+          id: "a",
+          name: "build",
+          layout: pane("p1", { session: { sessionId: "s1", role: "viewer" }, sshTarget: "web1" }),
+          focusedPaneId: "p1",
+        },
+        { id: "b", name: null, layout: pane("p2", { profile: "repl", startDirectory: "/srv" }), focusedPaneId: "p2" },
+      ],
+      activeId: "b",
+    });
+  });
+
+  test("turns a tab stored before panes into a one-pane tab", () => {
+    expect(
+      sanitizeTabWorkspace({ tabs: [{ id: "a", name: null, session: { sessionId: "s1" }, sshTarget: "web1" }] })
+        ?.tabs[0],
+    ).toEqual(
+      tab("a", { layout: pane("a-pane", { session: { sessionId: "s1", role: "driver" }, sshTarget: "web1" }) }),
+    );
+  });
+
+  test("falls back to the first tab, or null when there is none", () => {
+    expect(sanitizeTabWorkspace({ tabs: [{ id: "a" }], activeId: "gone" })?.activeId).toBe("a");
+    expect(sanitizeTabWorkspace({ tabs: [], activeId: "a" })).toBeNull();
+    expect(sanitizeTabWorkspace("[]")).toBeNull();
+  });
+});
+
+describe("watchDrivenSessions", () => {
+  test("watches the sessions driven elsewhere and leaves the rest", () => {
+    const layout: TerminalTab["layout"] = {
+      type: "split",
+      id: "s1",
+      direction: "row",
+      ratio: 0.5,
+      first: pane("p1", { session: { sessionId: "busy", role: "driver" } }),
+      second: pane("p2", { session: { sessionId: "idle", role: "driver" } }),
+    };
+    const viewing = tab("t2", { layout: pane("p3", { session: { sessionId: "busy", role: "viewer" } }) });
+    const workspace = { tabs: [tab("t1", { layout, focusedPaneId: "p1" }), viewing], activeId: "t1" };
+
+    const restored = watchDrivenSessions(workspace, (sessionId) => sessionId === "busy");
+    expect(restored.workspace.tabs[0]?.layout).toEqual({
+      ...layout,
+      first: pane("p1", { session: { sessionId: "busy", role: "viewer" } }),
+    });
+    expect(restored.workspace.tabs[1]).toBe(viewing);
+    expect(restored.watched).toEqual(new Map([["p1", "busy"]]));
+
+    // Saved back as it was, but not for a pane that has moved on to another session
+    expect(driveWatchedSessions(restored.workspace, restored.watched)).toEqual(workspace);
+    const moved = driveWatchedSessions(
+      {
+        ...restored.workspace,
+        tabs: [tab("t1", { layout: pane("p1", { session: { sessionId: "new", role: "viewer" } }) })],
+      },
+      restored.watched,
+    );
+    expect(moved.tabs[0]?.layout).toEqual(pane("p1", { session: { sessionId: "new", role: "viewer" } }));
+  });
+});
+
+describe("moving and closing tabs", () => {
+  const tabs = [tab("a"), tab("b"), tab("c")];
+
+  test("moveTab stops at either end", () => {
+    expect(ids(moveTab(tabs, "a", 1))).toEqual(["b", "a", "c"]);
+    expect(ids(moveTab(tabs, "c", -2))).toEqual(["c", "a", "b"]);
+    expect(moveTab(tabs, "a", -1)).toBe(tabs);
+  });
+
+  test("closing the active tab shows its neighbour", () => {
+    expect(closeTab({ tabs, activeId: "b" }, "b")).toEqual({ tabs: [tab("a"), tab("c")], activeId: "c" });
+    expect(closeTab({ tabs, activeId: "c" }, "c").activeId).toBe("b");
+    expect(closeTab({ tabs, activeId: "a" }, "c").activeId).toBe("a");
+  });
+
+  test("closing the last tab leaves a fresh one", () => {
+    const next = closeTab({ tabs: [tab("a")], activeId: "a" }, "a");
+    expect(next.tabs).toHaveLength(1);
+    expect(next.tabs[0]?.id).not.toBe("a");
+    expect(next.activeId).toBe(next.tabs[0]?.id as string);
+  });
+
+  test("cycleTab wraps around", () => {
+    expect(cycleTab({ tabs, activeId: "c" }, 1)).toBe("a");
+    expect(cycleTab({ tabs, activeId: "a" }, -1)).toBe("c");
+  });
+});
+
+describe("panes in a tab", () => {
+  const split = tab("a", {
+    layout: {
+      type: "split",
+      id: "s1",
+      direction: "row",
+      ratio: 0.5,
+      first: pane("p1"),
+      second: { type: "split", id: "s2", direction: "column", ratio: 0.5, first: pane("p2"), second: pane("p3") },
+    },
+    focusedPaneId: "p2",
+  });
+
+  test("cyclePane wraps around in reading order", () => {
+    expect(cyclePane(split, 1)).toBe("p3");
+    expect(cyclePane(split, 2)).toBe("p1");
+    expect(cyclePane(split, -1)).toBe("p1");
+  });
+
+  test("closing the focused pane focuses the next one, else the one before", () => {
+    expect(closePane(split, "p2")?.focusedPaneId).toBe("p3");
+    expect(closePane({ ...split, focusedPaneId: "p3" }, "p3")?.focusedPaneId).toBe("p2");
+    expect(closePane(split, "p1")?.focusedPaneId).toBe("p2");
+  });
+
+  test("closing the only pane leaves no tab", () => {
+    expect(closePane(tab("b"), "b-pane")).toBeNull();
+  });
+});
+
+describe("tab labels", () => {
+  test("prefer the name, then the title, then what the focused pane runs", () => {
+    expect(tabLabel(tab("a", { name: "logs" }), "vim")).toBe("logs");
+    expect(tabLabel(tab("a"), "vim")).toBe("vim");
+    expect(tabLabel(tab("a", { layout: pane("a-pane", { sshTarget: "web1" }) }), null)).toBe("ssh web1");
+    expect(tabLabel(tab("a", { layout: pane("a-pane", { profile: "repl" }) }), null)).toBe("repl");
+    expect(tabLabel(tab("a"), null)).toBe("shell");
+  });
+
+  test("normalizeTabName trims, caps and clears", () => {
+    expect(normalizeTabName("  logs ")).toBe("logs");
+    expect(normalizeTabName("   ")).toBeNull();
+    expect(normalizeTabName("x".repeat(100))).toHaveLength(64);
+  });
+});
+
+describe("matchTabShortcut", () => {
+  const keys = (code: string, modifiers: Partial<KeyboardEvent> = {}) =>
+    matchTabShortcut({ altKey: true, shiftKey: true, ctrlKey: false, metaKey: false, code, ...modifiers });
+
+  test("maps Alt+Shift keys to commands", () => {
+    expect(keys("KeyT")).toEqual({ type: "new" });
+    expect(keys("KeyW")).toEqual({ type: "close" });
+    expect(keys("ArrowRight")).toEqual({ type: "cycle", offset: 1 });
+    expect(keys("Comma")).toEqual({ type: "move", offset: -1 });
+    expect(keys("Digit2")).toEqual({ type: "select", index: 1 });
+    expect(keys("Digit9")).toEqual({ type: "select", index: -1 });
+    expect(keys("Backslash")).toEqual({ type: "split", direction: "row" });
+    expect(keys("BracketLeft")).toEqual({ type: "focus-pane", offset: -1 });
+  });
+
+  test("ignores everything else", () => {
+    expect(keys("KeyT", { shiftKey: false })).toBeNull();
+    expect(keys("KeyT", { ctrlKey: true })).toBeNull();
+    expect(keys("Digit0")).toBeNull();
+    expect(keys("KeyQ")).toBeNull();
+  });
+});
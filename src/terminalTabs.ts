@@ -0,0 +1,315 @@
+// In-app tabs: each tab holds one or more split panes (paneLayout.ts), each
+// pane a terminal with its own socket and PTY session. The list (and which tab
+// is showing) lives in sessionStorage, so a reload brings back every tab of
+// this browser tab, each pane resuming its own session; a browser tab without
+// one opens the workspace saved on the server (workspaceSync.ts).
+//
+// Shortcuts (Alt+Shift, as the browser keeps Ctrl+T / Ctrl+W / Ctrl+Tab):
+//   T new tab, W close, R rename, ←/→ previous/next, 1–8 that tab, 9 the last,
+//   , and . (< and >) move the tab left/right;
+//   \ split right, - split down, [ and ] previous/next pane, X close the pane.
+
+import {
+  createPane,
+  findPane,
+  listPanes,
+  type PaneLayout,
+  removePane,
+  type SplitDirection,
+  sanitizePane,
+  sanitizePaneLayout,
+  type TerminalPane,
+  updatePane,
+} from "./paneLayout";
+import type { ClientRole } from "./ttyProtocol";
+
+export interface TerminalTab {
+  id: string;
+  // Set by renaming; otherwise the tab shows its focused pane's title
+  name: string | null;
+  layout: PaneLayout;
+  focusedPaneId: string;
+}
+
+export interface TabWorkspace {
+  tabs: TerminalTab[];
+  activeId: string;
+}
+
+export type TabCommand =
+  | { type: "new" }
+  | { type: "close" }
+  | { type: "rename" }
+  | { type: "select"; index: number }
+  | { type: "cycle"; offset: number }
+  | { type: "move"; offset: number }
+  | { type: "split"; direction: SplitDirection }
+  | { type: "close-pane" }
+  | { type: "focus-pane"; offset: number };
+
+const TABS_STORAGE_KEY = "mywebterm-tabs";
+// Where a single-terminal page kept its session before tabs
+const LEGACY_STORAGE_KEYS = {
+  sessionId: "mywebterm-session-id",
+  role: "mywebterm-session-role",
+  sshTarget: "mywebterm-ssh-target",
+  profile: "mywebterm-profile",
+  startDirectory: "mywebterm-start-directory",
+} as const;
+const MAX_TAB_NAME_LENGTH = 64;
+
+export function createTab(pane: TerminalPane = createPane()): TerminalTab {
+  return { id: crypto.randomUUID(), name: null, layout: pane, focusedPaneId: pane.id };
+}
+
+function sanitizeTab(value: unknown): TerminalTab | null {
+  if (typeof value !== "object" || value === null) return null;
+  const raw = value as Record<string, unknown>;
+  if (typeof raw.id !== "string" || raw.id === "") return null;
+  // Tabs stored before panes kept their one session on the tab itself.
+  const layout =
+    raw.layout === undefined ? sanitizePane({ ...raw, id: `${raw.id}-pane` }) : sanitizePaneLayout(raw.layout);
+  if (layout === null) return null;
+  const focused = typeof raw.focusedPaneId === "string" ? findPane(layout, raw.focusedPaneId) : null;
+  return {
+    id: raw.id,
+    name: normalizeTabName(raw.name),
+    layout,
+    focusedPaneId: (focused ?? (listPanes(layout)[0] as TerminalPane)).id,
+  };
+}
+
+/**
+ * Keeps the valid tabs of an untrusted workspace (sessionStorage), dropping
+ * duplicates; null when none is left. An unknown active tab falls back to the
+ * first.
+ */
+export function sanitizeTabWorkspace(value: unknown): TabWorkspace | null {
+  if (typeof value !== "object" || value === null) return null;
+  const raw = value as Record<string, unknown>;
+  if (!Array.isArray(raw.tabs)) return null;
+  const tabs: TerminalTab[] = [];
+  for (const entry of raw.tabs) {
+    const tab = sanitizeTab(entry);
+    if (tab === null || tabs.some((t) => t.id === tab.id)) continue;
+    const paneIds = new Set(tabs.flatMap((t) => listPanes(t.layout).map((pane) => pane.id)));
+    if (listPanes(tab.layout).some((pane) => paneIds.has(pane.id))) continue;
+    tabs.push(tab);
+  }
+  const first = tabs[0];
+  if (first === undefined) return null;
+  const activeId = tabs.some((t) => t.id === raw.activeId) ? (raw.activeId as string) : first.id;
+  return { tabs, activeId };
+}
+
+export function createTabWorkspace(): TabWorkspace {
+  const tab = createTab();
+  return { tabs: [tab], activeId: tab.id };
+}
+
+// Rewrites the role of each pane in `panes` (pane id → the session it shows) that
+// still shows that session.
+function setPaneRoles(workspace: TabWorkspace, panes: ReadonlyMap<string, string>, role: ClientRole): TabWorkspace {
+  return {
+    ...workspace,
+    tabs: workspace.tabs.map((tab) => {
+      let layout = tab.layout;
+      for (const pane of listPanes(tab.layout)) {
+        if (pane.session !== null && pane.session.role !== role && panes.get(pane.id) === pane.session.sessionId) {
+          layout = updatePane(layout, pane.id, { session: { ...pane.session, role } });
+        }
+      }
+      return layout === tab.layout ? tab : { ...tab, layout };
+    }),
+  };
+}
+
+/**
+ * The workspace with each pane that would drive a session `isDriven` says is
+ * driven elsewhere watching it instead, so opening a saved workspace does not
+ * take that session over from the browser tab or device that has it. `watched`
+ * lists those panes (pane id → session id) for `driveWatchedSessions`.
+ */
+export function watchDrivenSessions(
+  workspace: TabWorkspace,
+  isDriven: (sessionId: string) => boolean,
+): { workspace: TabWorkspace; watched: Map<string, string> } {
+  const watched = new Map<string, string>();
+  for (const tab of workspace.tabs) {
+    for (const pane of listPanes(tab.layout)) {
+      if (pane.session?.role === "driver" && isDriven(pane.session.sessionId)) {
+        watched.set(pane.id, pane.session.sessionId);
+      }
+    }
+  }
+  return { workspace: setPaneRoles(workspace, watched, "viewer"), watched };
+}
+
+/**
+ * The workspace as it is saved back: the panes `watchDrivenSessions` made
+ * watch their session drive it again, so a device restoring it later decides
+ * afresh whether that session is driven elsewhere.
+ */
+export function driveWatchedSessions(workspace: TabWorkspace, watched: ReadonlyMap<string, string>): TabWorkspace {
+  return watched.size === 0 ? workspace : setPaneRoles(workspace, watched, "driver");
+}
+
+// One tab holding the session the page had before tabs existed, if any.
+function migrateLegacySession(): TerminalTab | null {
+  const sessionId = sessionStorage.getItem(LEGACY_STORAGE_KEYS.sessionId);
+  if (sessionId === null) return null;
+  const pane = sanitizePane({
+    id: crypto.randomUUID(),
+    session: { sessionId, role: sessionStorage.getItem(LEGACY_STORAGE_KEYS.role) },
+    sshTarget: sessionStorage.getItem(LEGACY_STORAGE_KEYS.sshTarget),
+    profile: sessionStorage.getItem(LEGACY_STORAGE_KEYS.profile),
+    startDirectory: sessionStorage.getItem(LEGACY_STORAGE_KEYS.startDirectory),
+  });
+  for (const key of Object.values(LEGACY_STORAGE_KEYS)) sessionStorage.removeItem(key);
+  return createTab(pane ?? undefined);
+}
+
+/** This browser tab's workspace, or null when it has none yet. */
+export function loadTabWorkspace(): TabWorkspace | null {
+  try {
+    const raw = sessionStorage.getItem(TABS_STORAGE_KEY);
+    const workspace = raw === null ? null : sanitizeTabWorkspace(JSON.parse(raw));
+    if (workspace !== null) return workspace;
+    const tab = migrateLegacySession();
+    return tab === null ? null : { tabs: [tab], activeId: tab.id };
+  } catch {
+    return null;
+  }
+}
+
+export function saveTabWorkspace(workspace: TabWorkspace): void {
+  try {
+    sessionStorage.setItem(TABS_STORAGE_KEY, JSON.stringify(workspace));
+  } catch {
+    // Storage full or disabled: the tabs still work until reload.
+  }
+}
+
+/** Forget every tab's session (on logout). */
+export function clearTabWorkspace(): void {
+  try {
+    sessionStorage.removeItem(TABS_STORAGE_KEY);
+  } catch {
+    // Nothing stored to clear.
+  }
+}
+
+/** A rename as typed: trimmed and capped, null (back to the title) when blank. */
+export function normalizeTabName(value: unknown): string | null {
+  if (typeof value !== "string") return null;
+  const name = value.trim().slice(0, MAX_TAB_NAME_LENGTH);
+  return name === "" ? null : name;
+}
+
+export function focusedPane(tab: TerminalTab): TerminalPane {
+  return findPane(tab.layout, tab.focusedPaneId) ?? (listPanes(tab.layout)[0] as TerminalPane);
+}
+
+/** A pane's session title, else what it runs. */
+export function paneLabel(pane: TerminalPane, title: string | null): string {
+  if (title !== null) return title;
+  if (pane.sshTarget !== undefined) return `ssh ${pane.sshTarget}`;
+  return pane.profile ?? "shell";
+}
+
+/** The tab's name, else the label of its focused pane (with that pane's title). */
+export function tabLabel(tab: TerminalTab, title: string | null): string {
+  return tab.name ?? paneLabel(focusedPane(tab), title);
+}
+
+/** The tab moved by `offset` places, stopping at either end. */
+export function moveTab(tabs: TerminalTab[], id: string, offset: number): TerminalTab[] {
+  const from = tabs.findIndex((t) => t.id === id);
+  if (from === -1) return tabs;
+  const to = Math.min(tabs.length - 1, Math.max(0, from + offset));
+  if (to === from) return tabs;
+  const next = tabs.filter((t) => t.id !== id);
+  next.splice(to, 0, tabs[from] as TerminalTab);
+  return next;
+}
+
+/**
+ * The workspace without a tab. Closing the active tab shows its right-hand
+ * neighbour (else its left); closing the last one leaves a fresh tab.
+ */
+export function closeTab(workspace: TabWorkspace, id: string): TabWorkspace {
+  const index = workspace.tabs.findIndex((t) => t.id === id);
+  if (index === -1) return workspace;
+  const tabs = workspace.tabs.filter((t) => t.id !== id);
+  if (tabs.length === 0) return createTabWorkspace();
+  if (workspace.activeId !== id) return { tabs, activeId: workspace.activeId };
+  const neighbour = tabs[Math.min(index, tabs.length - 1)] as TerminalTab;
+  return { tabs, activeId: neighbour.id };
+}
+
+/** The id of the tab `offset` places from the active one, wrapping around. */
+export function cycleTab(workspace: TabWorkspace, offset: number): string {
+  const { tabs, activeId } = workspace;
+  const index = tabs.findIndex((t) => t.id === activeId);
+  const next = (((index + offset) % tabs.length) + tabs.length) % tabs.length;
+  return (tabs[next] as TerminalTab).id;
+}
+
+/** The id of the pane `offset` places from the focused one, in reading order, wrapping around. */
+export function cyclePane(tab: TerminalTab, offset: number): string {
+  const panes = listPanes(tab.layout);
+  const index = panes.findIndex((pane) => pane.id === tab.focusedPaneId);
+  return (panes[(((index + offset) % panes.length) + panes.length) % panes.length] as TerminalPane).id;
+}
+
+/**
+ * The tab without a pane, its sibling taking the space; focus moves to the
+ * pane after it in reading order (else the one before). Null when it was the
+ * tab's only pane.
+ */
+export function closePane(tab: TerminalTab, paneId: string): TerminalTab | null {
+  const layout = removePane(tab.layout, paneId);
+  if (layout === null) return null;
+  if (tab.focusedPaneId !== paneId) return { ...tab, layout };
+  const panes = listPanes(tab.layout);
+  const index = panes.findIndex((pane) => pane.id === paneId);
+  const next = panes[index + 1] ?? panes[index - 1];
+  return { ...tab, layout, focusedPaneId: next?.id ?? (listPanes(layout)[0] as TerminalPane).id };
+}
+
+/** The tab command for a key press, or null when it is not one. */
+export function matchTabShortcut(
+  event: Pick<KeyboardEvent, "altKey" | "shiftKey" | "ctrlKey" | "metaKey" | "code">,
+): TabCommand | null {
+  if (!event.altKey || !event.shiftKey || event.ctrlKey || event.metaKey) return null;
+  switch (event.code) {
+    case "KeyT":
+      return { type: "new" };
+    case "KeyW":
+      return { type: "close" };
+    case "KeyR":
+      return { type: "rename" };
+    case "ArrowLeft":
+      return { type: "cycle", offset: -1 };
+    case "ArrowRight":
+      return { type: "cycle", offset: 1 };
+    case "Comma":
+      return { type: "move", offset: -1 };
+    case "Period":
+      return { type: "move", offset: 1 };
+    case "Backslash":
+      return { type: "split", direction: "row" };
+    case "Minus":
+      return { type: "split", direction: "column" };
+    case "KeyX":
+      return { type: "close-pane" };
+    case "BracketLeft":
+      return { type: "focus-pane", offset: -1 };
+    case "BracketRight":
+      return { type: "focus-pane", offset: 1 };
+  }
+  const digit = /^Digit([1-9])$/.exec(event.code);
+  if (digit === null) return null;
+  // Like browsers: 9 is the last tab however many there are.
+  return { type: "select", index: digit[1] === "9" ? -1 : Number(digit[1]) - 1 };
+}
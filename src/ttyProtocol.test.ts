@@ -32,6 +32,10 @@ describe("ttyProtocol", () => {
     expect(decoder.decode(encoded.slice(1))).toBe(input);
   });
 
+  test("tags what the user typed with its own command", () => {
+    expect(encodeInput("ls", true)[0]).toBe("2".charCodeAt(0));
+  });
+
   test("encodes resize frame with JSON payload", () => {
     const encoded = encodeResize(120, 40);
 
@@ -147,6 +151,66 @@ describe("ttyProtocol", () => {
     expect(parseClientControl(JSON.stringify({ type: "handshake", columns: 80, rows: 24, sshTarget: 5 }))).toBeNull();
   });
 
+  test("parses handshake with a starting directory only if it is absolute", () => {
+    const base = { type: "handshake" as const, columns: 80, rows: 24 };
+    expect(parseClientControl(JSON.stringify({ ...base, cwd: "/srv/app" }))).toEqual({ ...base, cwd: "/srv/app" });
+    expect(parseClientControl(JSON.stringify({ ...base, cwd: "srv/app" }))).toBeNull();
+    expect(parseClientControl(JSON.stringify({ ...base, cwd: 1 }))).toBeNull();
+  });
+
+  test("parses handshake with a profile id, but not alongside an ssh target", () => {
+    const base = { type: "handshake" as const, columns: 80, rows: 24 };
+    expect(parseClientControl(JSON.stringify({ ...base, profile: "py-repl" }))).toEqual({
+      ...base,
+      profile: "py-repl",
+    });
+    expect(parseClientControl(JSON.stringify({ ...base, profile: "../etc" }))).toBeNull();
+    expect(parseClientControl(JSON.stringify({ ...base, profile: ["/bin/sh"] }))).toBeNull();
+    expect(parseClientControl(JSON.stringify({ ...base, profile: "py-repl", sshTarget: "host" }))).toBeNull();
+  });
+
+  test("parses reconnect with an optional role", () => {
+    const base = { type: "reconnect" as const, sessionId: "abc", columns: 80, rows: 24 };
+    expect(parseClientControl(JSON.stringify(base))).toEqual(base);
+    expect(parseClientControl(JSON.stringify({ ...base, role: "viewer" }))).toEqual({ ...base, role: "viewer" });
+    expect(parseClientControl(JSON.stringify({ ...base, role: "driver" }))).toEqual({ ...base, role: "driver" });
+    expect(parseClientControl(JSON.stringify({ ...base, role: "admin" }))).toBeNull();
+  });
+
+  test("parses pin only with a boolean", () => {
+    expect(parseClientControl(JSON.stringify({ type: "pin", pinned: true }))).toEqual({ type: "pin", pinned: true });
+    expect(parseClientControl(JSON.stringify({ type: "pin", pinned: false }))).toEqual({ type: "pin", pinned: false });
+    expect(parseClientControl(JSON.stringify({ type: "pin", pinned: "yes" }))).toBeNull();
+    expect(parseClientControl(JSON.stringify({ type: "pin" }))).toBeNull();
+  });
+
+  test("parses monitor settings, rejecting out-of-range silence", () => {
+    const monitor = (value: unknown) => parseClientControl(JSON.stringify({ type: "monitor", monitor: value }));
+    expect(monitor({ activity: true, silenceSeconds: null })).toEqual({
+      type: "monitor",
+      monitor: { activity: true, silenceSeconds: null },
+    });
+    expect(monitor({ activity: false, silenceSeconds: 30 })).toEqual({
+      type: "monitor",
+      monitor: { activity: false, silenceSeconds: 30 },
+    });
+    expect(monitor({ activity: false, silenceSeconds: 0 })).toBeNull();
+    expect(monitor({ activity: false, silenceSeconds: 1.5 })).toBeNull();
+    expect(monitor({ activity: false, silenceSeconds: 86_401 })).toBeNull();
+    expect(monitor({ silenceSeconds: null })).toBeNull();
+    expect(monitor(undefined)).toBeNull();
+  });
+
+  test("parses broadcast targets, dropping repeats", () => {
+    const broadcast = (targets: unknown) => parseClientControl(JSON.stringify({ type: "broadcast", targets }));
+    expect(broadcast(["a", "b", "a"])).toEqual({ type: "broadcast", targets: ["a", "b"] });
+    expect(broadcast([])).toEqual({ type: "broadcast", targets: [] });
+    expect(broadcast(["a", ""])).toBeNull();
+    expect(broadcast([1])).toBeNull();
+    expect(broadcast(Array.from({ length: 33 }, (_, i) => `s${i}`))).toBeNull();
+    expect(broadcast(undefined)).toBeNull();
+  });
+
   test("throws when handshake dimensions are not finite positive numbers", () => {
     expect(() => buildHandshake(0, 10)).toThrow(TypeError);
     expect(() => buildHandshake(-1, 10)).toThrow(TypeError);
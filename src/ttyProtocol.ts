@@ -3,6 +3,10 @@ const encoder = new TextEncoder();
 export const ClientCommand = {
   INPUT: "0",
   RESIZE_TERMINAL: "1",
+  // Input the user typed or pasted, which synchronize input also copies to
+  // the session's broadcast targets; INPUT is what the terminal answers the
+  // program itself (reports, focus and mouse events), for this session only
+  USER_INPUT: "2",
 } as const;
 
 export const ServerCommand = {
@@ -18,13 +22,64 @@ export interface DecodedFrame {
 
 // --- Control messages (JSON text frames) ---
 
+// The driver's input and size reach the PTY; viewers only receive output.
+export type ClientRole = "driver" | "viewer";
+
+// tmux-style monitor-activity / monitor-silence on a session: alert when
+// output starts after a quiet spell, and/or when there has been none for
+// silenceSeconds (null = off).
+export interface SessionMonitor {
+  activity: boolean;
+  silenceSeconds: number | null;
+}
+
+export type MonitorAlert = "activity" | "silence";
+
+export const MAX_SILENCE_SECONDS = 24 * 60 * 60;
+
+// Synchronize input, like tmux's synchronize-panes: the driver's keystrokes
+// and pastes also go to the target sessions. Each session knows both sides so
+// every affected terminal can say so.
+export interface SessionBroadcast {
+  // Sessions this one's input is copied to
+  targets: string[];
+  // Sessions whose input is copied to this one
+  sources: string[];
+}
+
+export const NO_BROADCAST: SessionBroadcast = { targets: [], sources: [] };
+export const MAX_BROADCAST_TARGETS = 32;
+const MAX_SESSION_ID_LENGTH = 64;
+
 export type ClientControlMessage =
-  | { type: "handshake"; columns: number; rows: number; sshTarget?: string }
-  | { type: "reconnect"; sessionId: string; columns: number; rows: number }
+  // cwd: start a local shell there (an absolute path, e.g. another session's
+  // directory); the server falls back to its default if it is not a directory.
+  // profile: the id of one of the server's session profiles, instead of sshTarget
+  | { type: "handshake"; columns: number; rows: number; sshTarget?: string; cwd?: string; profile?: string }
+  // role defaults to "driver"; "viewer" joins read-only alongside the driver
+  | { type: "reconnect"; sessionId: string; columns: number; rows: number; role?: ClientRole }
   | { type: "pong"; timestamp: number }
+  // Exempt the session from (or return it to) the detached-session timeout
+  | { type: "pin"; pinned: boolean }
+  // Start or stop recording the session to --record-dir
+  | { type: "record"; recording: boolean }
+  // Change the session's activity/silence monitor
+  | { type: "monitor"; monitor: SessionMonitor }
+  // Copy this session's driver input to these sessions from now on ([] = stop)
+  | { type: "broadcast"; targets: string[] }
   // End the current session deliberately (kill the PTY, return to the start screen)
   | { type: "terminate" };
 
+// --- Session profiles ---
+
+const PROFILE_ID_PATTERN = /^[a-z0-9][a-z0-9_-]{0,63}$/;
+
+// Profile ids are the keys of the config file's [profiles.<id>] tables:
+// lowercase letters, digits, "-" and "_", at most 64 characters.
+export function isValidProfileId(id: unknown): id is string {
+  return typeof id === "string" && PROFILE_ID_PATTERN.test(id);
+}
+
 // --- SSH destinations ---
 
 export interface SshTarget {
@@ -129,12 +184,67 @@ export function parseSshTarget(raw: string): SshTarget | null {
   return { destination, port };
 }
 
+// How a session's environment differs from the server's: its TERM and the
+// overrides of its profile or ssh host (see envOverrides.ts)
+export interface SessionEnvironment {
+  term: string;
+  set: Record<string, string>;
+  unset: string[];
+}
+
 export type ServerControlMessage =
-  | { type: "session_info"; sessionId: string }
+  | {
+      type: "session_info";
+      sessionId: string;
+      role: ClientRole;
+      pinned: boolean;
+      recording: boolean;
+      monitor: SessionMonitor;
+      broadcast: SessionBroadcast;
+      // Last directory the shell reported with OSC 7 ("host:/path" when remote)
+      cwd: string | null;
+      environment: SessionEnvironment;
+    }
+  // The shell reported a new working directory (sent to every client)
+  | { type: "cwd"; cwd: string }
+  // The session's pin changed (sent to every client)
+  | { type: "pinned"; pinned: boolean }
+  // Recording started or stopped (sent to every client)
+  | { type: "recording"; recording: boolean }
+  // The session's monitor changed (sent to every client)
+  | { type: "monitor"; monitor: SessionMonitor }
+  // Synchronize input started, stopped or changed for this session, on either
+  // side (sent to every client)
+  | { type: "broadcast"; broadcast: SessionBroadcast }
+  // A monitor fired at `at` (epoch ms). Alerts raised while no client was
+  // attached are held and sent right after the next session_info.
+  | { type: "monitor_alert"; alert: MonitorAlert; at: number }
   | { type: "ping"; timestamp: number }
+  // The PTY's actual size under the server's size policy; clients whose
+  // viewport differs letterbox (or scroll) instead of resizing to their own
+  | { type: "effective_size"; columns: number; rows: number }
   | { type: "session_ended"; exitCode: number | null; signal: string | null }
+  // Reconnect hit a session from before a server restart (--state-dir): its
+  // last screen follows as OUTPUT, then the server closes with 4005
+  | { type: "session_archived"; sessionId: string; command: string[]; sshTarget: string | null; savedAt: number }
   | { type: "error"; message: string };
 
+function parseSessionMonitor(value: unknown): SessionMonitor | null {
+  if (typeof value !== "object" || value === null) return null;
+  const { activity, silenceSeconds } = value as Record<string, unknown>;
+  if (typeof activity !== "boolean") return null;
+  if (silenceSeconds === null) return { activity, silenceSeconds: null };
+  if (
+    typeof silenceSeconds !== "number" ||
+    !Number.isInteger(silenceSeconds) ||
+    silenceSeconds < 1 ||
+    silenceSeconds > MAX_SILENCE_SECONDS
+  ) {
+    return null;
+  }
+  return { activity, silenceSeconds };
+}
+
 export function parseClientControl(text: string): ClientControlMessage | null {
   let parsed: unknown;
   try {
@@ -156,24 +266,71 @@ export function parseClientControl(text: string): ClientControlMessage | null {
       if (!isValidDimension(msg.columns) || !isValidDimension(msg.rows)) {
         return null;
       }
+      const handshake: Extract<ClientControlMessage, { type: "handshake" }> = {
+        type: "handshake",
+        columns: msg.columns,
+        rows: msg.rows,
+      };
       if (msg.sshTarget !== undefined) {
         if (typeof msg.sshTarget !== "string" || parseSshTarget(msg.sshTarget) === null) {
           return null;
         }
-        return { type: "handshake", columns: msg.columns, rows: msg.rows, sshTarget: msg.sshTarget };
+        handshake.sshTarget = msg.sshTarget;
       }
-      return { type: "handshake", columns: msg.columns, rows: msg.rows };
+      if (msg.cwd !== undefined) {
+        if (typeof msg.cwd !== "string" || !msg.cwd.startsWith("/") || msg.cwd.includes("\0")) {
+          return null;
+        }
+        handshake.cwd = msg.cwd;
+      }
+      if (msg.profile !== undefined) {
+        if (!isValidProfileId(msg.profile) || handshake.sshTarget !== undefined) {
+          return null;
+        }
+        handshake.profile = msg.profile;
+      }
+      return handshake;
     }
-    case "reconnect":
-      if (typeof msg.sessionId === "string" && isValidDimension(msg.columns) && isValidDimension(msg.rows)) {
-        return { type: "reconnect", sessionId: msg.sessionId, columns: msg.columns, rows: msg.rows };
+    case "reconnect": {
+      if (typeof msg.sessionId !== "string" || !isValidDimension(msg.columns) || !isValidDimension(msg.rows)) {
+        return null;
       }
-      return null;
+      if (msg.role !== undefined) {
+        if (msg.role !== "driver" && msg.role !== "viewer") return null;
+        return { type: "reconnect", sessionId: msg.sessionId, columns: msg.columns, rows: msg.rows, role: msg.role };
+      }
+      return { type: "reconnect", sessionId: msg.sessionId, columns: msg.columns, rows: msg.rows };
+    }
     case "pong":
       if (typeof msg.timestamp === "number") {
         return { type: "pong", timestamp: msg.timestamp };
       }
       return null;
+    case "pin":
+      if (typeof msg.pinned === "boolean") {
+        return { type: "pin", pinned: msg.pinned };
+      }
+      return null;
+    case "record":
+      if (typeof msg.recording === "boolean") {
+        return { type: "record", recording: msg.recording };
+      }
+      return null;
+    case "monitor": {
+      const monitor = parseSessionMonitor(msg.monitor);
+      return monitor ? { type: "monitor", monitor } : null;
+    }
+    case "broadcast": {
+      const { targets } = msg;
+      if (
+        !Array.isArray(targets) ||
+        targets.length > MAX_BROADCAST_TARGETS ||
+        !targets.every((id) => typeof id === "string" && id.length > 0 && id.length <= MAX_SESSION_ID_LENGTH)
+      ) {
+        return null;
+      }
+      return { type: "broadcast", targets: [...new Set<string>(targets)] };
+    }
     case "terminate":
       return { type: "terminate" };
     default:
@@ -211,9 +368,9 @@ export function buildHandshake(columns: number, rows: number): string {
   return JSON.stringify({ type: "handshake", columns: normalizedColumns, rows: normalizedRows });
 }
 
-export function encodeInput(data: string | Uint8Array): Uint8Array<ArrayBuffer> {
+export function encodeInput(data: string | Uint8Array, userInput = false): Uint8Array<ArrayBuffer> {
   const payload = typeof data === "string" ? encoder.encode(data) : data;
-  return encodePrefixedPayload(ClientCommand.INPUT, payload);
+  return encodePrefixedPayload(userInput ? ClientCommand.USER_INPUT : ClientCommand.INPUT, payload);
 }
 
 export function encodeResize(columns: number, rows: number): Uint8Array<ArrayBuffer> {
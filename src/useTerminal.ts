@@ -1,15 +1,27 @@
 import { FitAddon } from "@xterm/addon-fit";
 import { ImageAddon } from "@xterm/addon-image";
+import { type ISearchOptions, SearchAddon } from "@xterm/addon-search";
+import { SerializeAddon } from "@xterm/addon-serialize";
 import { WebLinksAddon } from "@xterm/addon-web-links";
 import { WebglAddon } from "@xterm/addon-webgl";
-import { type IDisposable, type ITerminalOptions, Terminal } from "@xterm/xterm";
+import {
+  type IBuffer,
+  type IDisposable,
+  type IEvent,
+  type IMarker,
+  type ITerminalOptions,
+  Terminal,
+} from "@xterm/xterm";
 import { useCallback, useEffect, useRef, useState } from "react";
 import { toast } from "sonner";
 
 import "@xterm/xterm/css/xterm.css";
 
+import { MONITOR_OFF } from "./activityMonitor";
+import { showClipboardRequestToast } from "./ClipboardRequestToast";
+import { CLIPBOARD_OSC, createClipboardOscHandler, formatClipboardPreview } from "./clipboardOsc";
 import { isLikelyIOS, type Point } from "./mobileTouchSelection";
-import { createMouseReportRepairer } from "./mouseReports";
+import { createMouseReportRepairer, isMouseReport } from "./mouseReports";
 import {
   createOpenUrlOscHandler,
   formatUrlForDisplay,
@@ -17,33 +29,143 @@ import {
   OPEN_URL_OSC,
   openUrlInNewTab,
 } from "./openUrl";
+import {
+  commandOutputLines,
+  createShellIntegration,
+  groupShellCommands,
+  type ShellIntegration,
+} from "./shellIntegration";
 import { normalizeVisibleTerminalLines } from "./terminalCopyText";
-import type { ServerControlMessage } from "./ttyProtocol";
-import { decodeFrame, encodeInput, encodeResize, ServerCommand } from "./ttyProtocol";
+import type { ExportFormat } from "./terminalExport";
+import {
+  createNotifyOscHandler,
+  describeMonitorAlert,
+  NOTIFY_OSC,
+  showDesktopNotification,
+  type TerminalNotification,
+  URXVT_OSC,
+} from "./terminalNotify";
+import {
+  type BellMode,
+  sanitizeTerminalPreferences,
+  TERMINAL_THEMES,
+  type TerminalPreferences,
+} from "./terminalPreferences";
+import type {
+  ClientRole,
+  ServerControlMessage,
+  SessionBroadcast,
+  SessionEnvironment,
+  SessionMonitor,
+} from "./ttyProtocol";
+import { decodeFrame, encodeInput, encodeResize, NO_BROADCAST, ServerCommand } from "./ttyProtocol";
 
 export type ConnectionStatus = "disconnected" | "connecting" | "connected" | "error";
 export type PasteResult = "pasted" | "empty" | "fallback-required" | "terminal-unavailable";
+export type PromptDirection = "previous" | "next";
+
+export interface TerminalSearchOptions {
+  caseSensitive: boolean;
+  regex: boolean;
+}
+
+// Position of the active match among all matches in the buffer. index is -1
+// when there are more matches than get highlighted.
+export interface TerminalSearchResults {
+  index: number;
+  count: number;
+}
+
+// A session from before a server restart whose last screen is being shown
+// read-only (the server was run with --state-dir).
+export interface ArchivedSessionInfo {
+  command: string[];
+  sshTarget: string | null;
+  savedAt: number;
+}
+
+// The session a tab is attached to, which the app keeps across reloads.
+export interface StoredSession {
+  sessionId: string;
+  role: ClientRole;
+}
 
 interface UseTerminalOptions {
   wsUrl?: string;
+  // The session to resume on the first connection (read once, on mount)
+  storedSession?: StoredSession | null;
+  // The attached session changed, or was forgotten (null); the app stores it
+  // so a reload resumes it.
+  onStoredSessionChange?: (session: StoredSession | null) => void;
   // "[user@]host[:port]" — new sessions run `ssh` to this target instead of the shell
   sshTarget?: string;
+  // Id of a server session profile — new sessions run it instead of the shell
+  profile?: string;
+  // Absolute directory to start new local sessions in (checked by the server)
+  startDirectory?: string;
   // Called when the session was ended deliberately (endSession); the app
   // should return to its start screen instead of reconnecting.
   onSessionEnd?: () => void;
+  // The session's window title (OSC 0/2, tracked by the server so it survives
+  // reconnects); "" when the session has none.
   onTitleChange?: (title: string) => void;
   onClipboardFallback?: (text: string) => void;
   onClipboardCopy?: (text: string) => void;
+  // Ctrl+Shift+F pressed in the terminal; the app opens its find bar.
+  onFindShortcut?: () => void;
+  // The server's --preferences, sent on every attach (SET_PREFERENCES); the
+  // app merges them with this device's overrides and passes the result back.
+  onPreferencesChange?: (preferences: TerminalPreferences) => void;
   fontSize?: number;
   minColumns?: number;
+  // Theme, scrollback, cursor and bell; fontSize and minColumns are the
+  // options above.
+  preferences?: TerminalPreferences;
 }
 
 interface UseTerminalResult {
   containerRef: (node: HTMLDivElement | null) => void;
   connectionStatus: ConnectionStatus;
   sysKeyActive: boolean;
+  // Another connection took this session over (close code 4002); the hook
+  // stays disconnected until reconnect() takes it back.
+  takenOver: boolean;
+  // "viewer" while watching someone else's session read-only.
+  role: ClientRole;
+  archivedSession: ArchivedSessionInfo | null;
   endSession: () => void;
   reconnect: () => void;
+  // Point the next connection at an existing session (from the session
+  // picker) instead of the one stored for this tab.
+  attachToSession: (sessionId: string, role?: ClientRole) => void;
+  // Reconnect to the current session as its driver, taking over from
+  // whoever is driving it now.
+  takeControl: () => void;
+  // Pinned sessions are exempt from the server's detached-session timeout.
+  pinned: boolean;
+  setPinned: (pinned: boolean) => void;
+  // The server is writing this session to an asciicast file (--record-dir).
+  recording: boolean;
+  setRecording: (recording: boolean) => void;
+  // Alerts on output after a quiet spell and/or after a stretch of silence;
+  // they arrive as notifications, held by the server while detached.
+  monitor: SessionMonitor;
+  setMonitor: (monitor: SessionMonitor) => void;
+  // Synchronize input: the sessions this one's keystrokes and pastes are
+  // copied to, and those copying theirs here.
+  broadcast: SessionBroadcast;
+  setBroadcastTargets: (sessionIds: string[]) => void;
+  // Notifications (OSC 9, OSC 777, bell) from this session are dropped.
+  notificationsMuted: boolean;
+  setNotificationsMuted: (muted: boolean) => void;
+  // The shell's working directory as last reported with OSC 7 ("host:/path"
+  // when it is on another machine); null until it reports one.
+  cwd: string | null;
+  // TERM and the environment overrides the session was started with; null
+  // until the first session_info.
+  environment: SessionEnvironment | null;
+  // Leave this session running detached and start a new local shell in cwd.
+  startSessionHere: () => void;
   focusSysKeyboard: () => void;
   focusTerminalInput: () => boolean;
   sendSoftKeySequence: (sequence: string, label: string, skipFocus?: boolean) => boolean;
@@ -52,12 +174,32 @@ interface UseTerminalResult {
   pasteTextIntoTerminal: (text: string) => boolean;
   getSelectableText: () => Promise<string>;
   getVisibleTerminalText: () => string;
+  // The whole buffer (screen plus scrollback) in the given format; "" when empty.
+  exportOutput: (format: ExportFormat) => Promise<string>;
   copyTextToClipboard: (text: string) => Promise<boolean>;
+  // Search the whole buffer, scrollback included, highlighting every match.
+  // Both return false when nothing matches (or the regex is invalid).
+  findNext: (term: string, options: TerminalSearchOptions, incremental?: boolean) => boolean;
+  findPrevious: (term: string, options: TerminalSearchOptions) => boolean;
+  clearSearch: () => void;
+  searchResults: TerminalSearchResults | null;
+  // The shell marks its prompts and commands (OSC 133), so the features
+  // below have something to work with.
+  shellIntegrationActive: boolean;
+  // Scroll the previous/next prompt to the top; false when there is none.
+  scrollToPrompt: (direction: PromptDirection) => boolean;
+  // Output of the last finished command; "" when it printed nothing or
+  // there is none.
+  getLastCommandOutput: () => string;
   horizontalOverflow: boolean;
+  // The PTY is taller than this viewport (scrolls) or smaller than it
+  // (letterboxed), because the server's size policy follows another client.
+  verticalOverflow: boolean;
+  letterboxed: boolean;
   containerElement: HTMLDivElement | null;
 }
 
-const MOBILE_VIEWPORT_QUERY = "(max-width: 768px)";
+export const MOBILE_VIEWPORT_QUERY = "(max-width: 768px)";
 
 function resolveFontSize(fontSize: number | undefined, isMobileViewport: boolean): number {
   return fontSize ?? (isMobileViewport ? 10 : 12);
@@ -82,39 +224,62 @@ function activateTerminalLink(_event: MouseEvent, uri: string): void {
   openUrlInNewTab(url);
 }
 
-function buildTerminalOptions(isMobileViewport: boolean, fontSize?: number): ITerminalOptions {
+// The options a TerminalPreferences controls, with the built-in defaults.
+function preferenceOptions(preferences: TerminalPreferences) {
+  return {
+    cursorBlink: preferences.cursorBlink ?? true,
+    cursorStyle: preferences.cursorStyle ?? "block",
+    scrollback: preferences.scrollback ?? 5000,
+    theme: TERMINAL_THEMES[preferences.theme ?? "dark"],
+  } satisfies ITerminalOptions;
+}
+
+export function buildTerminalOptions(
+  isMobileViewport: boolean,
+  fontSize?: number,
+  preferences: TerminalPreferences = {},
+): ITerminalOptions {
   return {
     // Required by @xterm/addon-image (registers proposed parser/buffer APIs).
     allowProposedApi: true,
-    cursorBlink: true,
-    scrollback: 5000,
+    ...preferenceOptions(preferences),
     fontSize: resolveFontSize(fontSize, isMobileViewport),
     fontFamily: "JetBrainsMono Nerd Font Mono, Symbols Nerd Font Mono, Menlo, monospace",
     // Handles OSC 8 hyperlinks; plain URLs in the output come from WebLinksAddon.
     linkHandler: { activate: activateTerminalLink },
-    theme: {
-      background: "#041425",
-      foreground: "#d8ecff",
-      cursor: "#71f1d6",
-      selectionBackground: "#17416a",
-    },
   };
 }
 
+// Matches are amber, the active one mint, echoing the status badge colors.
+const SEARCH_DECORATIONS: ISearchOptions["decorations"] = {
+  matchBackground: "#4d3d10",
+  matchBorder: "#ffd36f",
+  matchOverviewRuler: "#ffd36f",
+  activeMatchBackground: "#17416a",
+  activeMatchBorder: "#8fffcb",
+  activeMatchColorOverviewRuler: "#8fffcb",
+};
+const SEARCH_HIGHLIGHT_LIMIT = 1000;
+
 const MIN_ROWS = 10;
 const DEFAULT_SCROLLBAR_WIDTH = 14;
 const RECENT_OUTPUT_LINES = 2000;
 const MOBILE_LONG_PRESS_CANCEL_DISTANCE_PX = 8;
 const FALLBACK_PIXELS_PER_LINE = 12;
 
-export const SESSION_STORAGE_KEY = "mywebterm-session-id";
 const MAX_RECONNECT_DELAY_MS = 30_000;
+// Tab completion and `less` ring the bell constantly; one notice per burst.
+const BELL_NOTIFY_INTERVAL_MS = 5_000;
+const BELL_FLASH_MS = 150;
 const BASE_RECONNECT_DELAY_MS = 1_000;
 
 // Close codes from server
 const CLOSE_CODE_RESTART = 4000;
 const CLOSE_CODE_HEARTBEAT = 4001;
+const CLOSE_CODE_REPLACED = 4002;
 const CLOSE_CODE_ENDED = 4004;
+const CLOSE_CODE_ARCHIVED = 4005;
+const CLOSE_CODE_GOING_AWAY = 1001;
 
 type TerminalLayout = {
   containerRect: DOMRect;
@@ -138,14 +303,11 @@ type ScrollGesture = {
   remainderPx: number;
 };
 
-function collectRecentOutput(terminal: Terminal, maxLines = RECENT_OUTPUT_LINES): string {
-  const activeBuffer = terminal.buffer.active;
-  const endLine = activeBuffer.baseY + activeBuffer.cursorY;
-  const startLine = Math.max(0, endLine - maxLines + 1);
+function collectLines(buffer: IBuffer, startLine: number, endLine: number): string {
   const outputLines: string[] = [];
 
   for (let lineIndex = startLine; lineIndex <= endLine; lineIndex += 1) {
-    const bufferLine = activeBuffer.getLine(lineIndex);
+    const bufferLine = buffer.getLine(lineIndex);
     if (!bufferLine) {
       continue;
     }
@@ -155,6 +317,61 @@ function collectRecentOutput(terminal: Terminal, maxLines = RECENT_OUTPUT_LINES)
   return outputLines.join("\n").trimEnd();
 }
 
+function collectRecentOutput(buffer: IBuffer, maxLines = RECENT_OUTPUT_LINES): string {
+  const endLine = buffer.baseY + buffer.cursorY;
+  return collectLines(buffer, Math.max(0, endLine - maxLines + 1), endLine);
+}
+
+// The terminal as the serialize addon's HTML export sees it, its normal
+// buffer standing in for the active one: that export has no excludeAltBuffer.
+function normalBufferView(terminal: Terminal): Terminal {
+  const { normal, alternate, onBufferChange } = terminal.buffer;
+  const buffer = { active: normal, normal, alternate, onBufferChange };
+  return new Proxy(terminal, { get: (target, key) => (key === "buffer" ? buffer : Reflect.get(target, key)) });
+}
+
+// Scrolls the prompt above (or below) the top of the viewport to the top.
+function scrollToPrompt(
+  terminal: Terminal,
+  shellIntegration: ShellIntegration<IMarker>,
+  direction: PromptDirection,
+): boolean {
+  const top = terminal.buffer.active.viewportY;
+  const promptLines = shellIntegration
+    .marks()
+    .filter((mark) => mark.kind === "prompt")
+    .map((mark) => mark.line);
+  const target =
+    direction === "previous" ? promptLines.findLast((line) => line < top) : promptLines.find((line) => line > top);
+  if (target === undefined) return false;
+  terminal.scrollToLine(target);
+  return true;
+}
+
+// A gutter badge beside a finished command's prompt, green for exit status 0
+// and red otherwise; clicking it selects the command's output.
+function decorateFinishedCommand(
+  terminal: Terminal,
+  promptMarker: IMarker,
+  exitCode: number | null,
+  onClick: () => void,
+): void {
+  const failed = exitCode !== null && exitCode !== 0;
+  const decoration = terminal.registerDecoration({ marker: promptMarker, x: 0, width: 1, layer: "top" });
+  decoration?.onRender((element) => {
+    element.classList.add("shell-command-badge", failed ? "shell-command-badge-failed" : "shell-command-badge-ok");
+    // xterm gives it the cell's width inline; a thin bar fits in the padding.
+    element.style.width = "4px";
+    element.title = `${exitCode === null ? "Finished" : `Exit status ${exitCode}`}. Click to select its output.`;
+    // Keep xterm from starting a selection of its own under the badge.
+    element.onmousedown = (event) => {
+      event.preventDefault();
+      event.stopPropagation();
+    };
+    element.onclick = onClick;
+  });
+}
+
 function collectVisibleOutput(terminal: Terminal): string {
   const activeBuffer = terminal.buffer.active;
   const startLine = activeBuffer.viewportY;
@@ -215,17 +432,34 @@ function computeReconnectDelay(attempt: number): number {
 
 export function useTerminal({
   wsUrl,
+  storedSession,
+  onStoredSessionChange,
   sshTarget,
+  profile,
+  startDirectory,
   onSessionEnd,
   onTitleChange,
   onClipboardFallback,
   onClipboardCopy,
+  onFindShortcut,
+  onPreferencesChange,
   fontSize,
   minColumns,
+  preferences,
 }: UseTerminalOptions): UseTerminalResult {
   const [container, setContainer] = useState<HTMLDivElement | null>(null);
   const [connectionStatus, setConnectionStatus] = useState<ConnectionStatus>("disconnected");
   const [reconnectToken, setReconnectToken] = useState(0);
+  const [takenOver, setTakenOver] = useState(false);
+  const [role, setRole] = useState<ClientRole>("driver");
+  const [archivedSession, setArchivedSession] = useState<ArchivedSessionInfo | null>(null);
+  const [pinned, setPinnedState] = useState(false);
+  const [recording, setRecordingState] = useState(false);
+  const [notificationsMuted, setNotificationsMutedState] = useState(false);
+  const [monitor, setMonitorState] = useState<SessionMonitor>(MONITOR_OFF);
+  const [broadcast, setBroadcast] = useState<SessionBroadcast>(NO_BROADCAST);
+  const [cwd, setCwd] = useState<string | null>(null);
+  const [environment, setEnvironment] = useState<SessionEnvironment | null>(null);
   const [isMobileViewport, setIsMobileViewport] = useState(
     () => typeof window !== "undefined" && window.matchMedia(MOBILE_VIEWPORT_QUERY).matches,
   );
@@ -243,39 +477,88 @@ export function useTerminal({
 
   const [sysKeyActive, setSysKeyActive] = useState(false);
   const [horizontalOverflow, setHorizontalOverflow] = useState(false);
+  const [verticalOverflow, setVerticalOverflow] = useState(false);
+  const [letterboxed, setLetterboxed] = useState(false);
+  const [searchResults, setSearchResults] = useState<TerminalSearchResults | null>(null);
+  const [shellIntegrationActive, setShellIntegrationActive] = useState(false);
 
   const terminalRef = useRef<Terminal | null>(null);
   const fitAddonRef = useRef<FitAddon | null>(null);
   const socketRef = useRef<WebSocket | null>(null);
   const decoderRef = useRef(new TextDecoder());
   const terminalDisposablesRef = useRef<IDisposable[]>([]);
+  const shellIntegrationRef = useRef<ShellIntegration<IMarker> | null>(null);
   const onTitleChangeRef = useRef(onTitleChange);
   const onClipboardFallbackRef = useRef(onClipboardFallback);
   const onClipboardCopyRef = useRef(onClipboardCopy);
+  const onFindShortcutRef = useRef(onFindShortcut);
+  onFindShortcutRef.current = onFindShortcut;
+  const onPreferencesChangeRef = useRef(onPreferencesChange);
+  onPreferencesChangeRef.current = onPreferencesChange;
+  const bellRef = useRef<BellMode>("notify");
+  bellRef.current = preferences?.bell ?? "notify";
   const sshTargetRef = useRef(sshTarget);
   sshTargetRef.current = sshTarget;
+  const profileRef = useRef(profile);
+  profileRef.current = profile;
+  const startDirectoryRef = useRef(startDirectory);
+  startDirectoryRef.current = startDirectory;
+  // Directory for the next handshake only (startSessionHere)
+  const startCwdRef = useRef<string | null>(null);
   const onSessionEndRef = useRef(onSessionEnd);
   onSessionEndRef.current = onSessionEnd;
+  const onStoredSessionChangeRef = useRef(onStoredSessionChange);
+  onStoredSessionChangeRef.current = onStoredSessionChange;
   const connectionEpochRef = useRef(0);
 
   const sessionIdRef = useRef<string | null>(null);
+  // The session whose programs may set the clipboard (OSC 52) without asking
+  const clipboardAllowedSessionRef = useRef<string | null>(null);
+  // Sessions whose notifications the user muted, for as long as this page lives
+  const mutedSessionsRef = useRef(new Set<string>());
+  const lastBellNotifyRef = useRef(0);
+  const roleRef = useRef<ClientRole>("driver");
   const sessionIdRestoredRef = useRef(false);
   const reconnectAttemptRef = useRef(0);
   const reconnectTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
-  if (!sessionIdRestoredRef.current && typeof window !== "undefined") {
-    sessionIdRef.current = sessionStorage.getItem(SESSION_STORAGE_KEY);
+  if (!sessionIdRestoredRef.current) {
+    sessionIdRef.current = storedSession?.sessionId ?? null;
+    roleRef.current = storedSession?.role ?? "driver";
     sessionIdRestoredRef.current = true;
   }
 
+  // The session (and role) the next connection asks for, told to the app.
+  const storeSession = useCallback((sessionId: string, nextRole: ClientRole) => {
+    sessionIdRef.current = sessionId;
+    roleRef.current = nextRole;
+    onStoredSessionChangeRef.current?.({ sessionId, role: nextRole });
+  }, []);
+
+  // Drop the stored session (and any viewer role) so the next connection
+  // starts a fresh one as its driver.
+  const forgetSession = useCallback(() => {
+    sessionIdRef.current = null;
+    roleRef.current = "driver";
+    setRole("driver");
+    onStoredSessionChangeRef.current?.(null);
+  }, []);
+
   const pendingTouchRef = useRef<PendingTouch | null>(null);
   const scrollGestureRef = useRef<ScrollGesture | null>(null);
   const terminalMountedRef = useRef(false);
   const customFitRef = useRef<(() => void) | null>(null);
   const fitSuppressedRef = useRef(false);
   const minColumnsRef = useRef(resolveMinColumns(minColumns));
+  // What this viewport would like (sent to the server), the last size actually
+  // sent, and the PTY size the server settled on (effective_size).
+  const desiredSizeRef = useRef<{ cols: number; rows: number } | null>(null);
+  const reportedSizeRef = useRef<{ cols: number; rows: number } | null>(null);
+  const effectiveSizeRef = useRef<{ cols: number; rows: number } | null>(null);
   const webglAddonRef = useRef<WebglAddon | null>(null);
   const imageAddonRef = useRef<ImageAddon | null>(null);
+  const searchAddonRef = useRef<SearchAddon | null>(null);
+  const serializeAddonRef = useRef<SerializeAddon | null>(null);
 
   const enableWebglRenderer = useCallback((terminal: Terminal) => {
     if (webglAddonRef.current) {
@@ -413,16 +696,42 @@ export function useTerminal({
     socketRef.current = null;
   }, []);
 
-  const sendInputFrame = useCallback((data: string | Uint8Array): boolean => {
+  // userInput: typed or pasted, so synchronize input copies it to the
+  // session's broadcast targets
+  const sendInputFrame = useCallback((data: string | Uint8Array, userInput = false): boolean => {
     const socket = socketRef.current;
-    if (!socket || socket.readyState !== WebSocket.OPEN) {
+    if (!socket || socket.readyState !== WebSocket.OPEN || roleRef.current === "viewer") {
       return false;
     }
 
-    socket.send(encodeInput(data));
+    socket.send(encodeInput(data, userInput));
     return true;
   }, []);
 
+  // A desktop notification while the tab is hidden (and allowed), a toast
+  // otherwise; the tag and toast id keep one per session on screen.
+  const notify = useCallback((notification: TerminalNotification) => {
+    const sessionId = sessionIdRef.current;
+    if (sessionId !== null && mutedSessionsRef.current.has(sessionId)) return;
+    const title = notification.title ?? document.title;
+    if (
+      document.visibilityState === "hidden" &&
+      showDesktopNotification(title, notification.body, `mywebterm-notify:${sessionId ?? ""}`)
+    ) {
+      return;
+    }
+    toast(title, { id: "terminal-notify", description: notification.body || undefined });
+  }, []);
+
+  const reportViewportSize = useCallback((cols: number, rows: number) => {
+    const socket = socketRef.current;
+    if (!socket || socket.readyState !== WebSocket.OPEN) return;
+    const reported = reportedSizeRef.current;
+    if (reported?.cols === cols && reported.rows === rows) return;
+    reportedSizeRef.current = { cols, rows };
+    socket.send(encodeResize(cols, rows));
+  }, []);
+
   // biome-ignore lint/correctness/useExhaustiveDependencies: fontSize and isMobileViewport are handled by the dedicated effect below to avoid full terminal recreation
   useEffect(() => {
     if (!container) {
@@ -441,6 +750,13 @@ export function useTerminal({
     imageAddonRef.current = imageAddon;
     const webLinksAddon = new WebLinksAddon(activateTerminalLink);
     terminal.loadAddon(webLinksAddon);
+    // Match highlights are decorations, which both the WebGL and DOM renderers draw.
+    const searchAddon = new SearchAddon({ highlightLimit: SEARCH_HIGHLIGHT_LIMIT });
+    terminal.loadAddon(searchAddon);
+    searchAddonRef.current = searchAddon;
+    const serializeAddon = new SerializeAddon();
+    terminal.loadAddon(serializeAddon);
+    serializeAddonRef.current = serializeAddon;
     enableWebglRenderer(terminal);
 
     const textarea = terminal.textarea;
@@ -473,35 +789,59 @@ export function useTerminal({
         return;
       }
 
-      const finalCols = Math.max(proposed.cols, minColumnsRef.current);
-      const finalRows = Math.max(proposed.rows, MIN_ROWS);
-      const needsOverflow = finalCols > proposed.cols;
+      const desiredCols = Math.max(proposed.cols, minColumnsRef.current);
+      const desiredRows = Math.max(proposed.rows, MIN_ROWS);
+      desiredSizeRef.current = { cols: desiredCols, rows: desiredRows };
+      reportViewportSize(desiredCols, desiredRows);
+
+      // The server's size policy may size the PTY after another client. Render
+      // at that size rather than reflowing: letterboxed when it is smaller than
+      // this viewport, scrollable when it is larger.
+      const effective = effectiveSizeRef.current;
+      const finalCols = effective?.cols ?? desiredCols;
+      const finalRows = effective?.rows ?? desiredRows;
 
       const dims = terminal.dimensions;
-      const canOverflow = needsOverflow && !!dims && dims.css.cell.width > 0;
+      const hasCellSize = !!dims && dims.css.cell.width > 0 && dims.css.cell.height > 0;
+      const fixWidth = finalCols !== proposed.cols && hasCellSize;
+      const fixHeight = effective !== null && finalRows !== proposed.rows && hasCellSize;
+      const canOverflow = fixWidth && finalCols > proposed.cols;
 
-      if (canOverflow) {
-        const cellWidth = dims.css.cell.width;
+      if (fixWidth || fixHeight) {
         const elemStyle = getComputedStyle(element);
-        const paddingHor =
-          (parseInt(elemStyle.getPropertyValue("padding-left"), 10) || 0) +
-          (parseInt(elemStyle.getPropertyValue("padding-right"), 10) || 0);
-        const showScrollbar = terminal.options.scrollbar?.showScrollbar ?? true;
-        const scrollbarWidth =
-          terminal.options.scrollback === 0 || !showScrollbar
-            ? 0
-            : (terminal.options.scrollbar?.width ?? DEFAULT_SCROLLBAR_WIDTH);
-        const requiredWidth = Math.ceil(finalCols * cellWidth) + paddingHor + scrollbarWidth;
-        element.style.width = `${requiredWidth}px`;
-      } else {
+        if (fixWidth) {
+          const paddingHor =
+            (parseInt(elemStyle.getPropertyValue("padding-left"), 10) || 0) +
+            (parseInt(elemStyle.getPropertyValue("padding-right"), 10) || 0);
+          const showScrollbar = terminal.options.scrollbar?.showScrollbar ?? true;
+          const scrollbarWidth =
+            terminal.options.scrollback === 0 || !showScrollbar
+              ? 0
+              : (terminal.options.scrollbar?.width ?? DEFAULT_SCROLLBAR_WIDTH);
+          const requiredWidth = Math.ceil(finalCols * dims.css.cell.width) + paddingHor + scrollbarWidth;
+          element.style.width = `${requiredWidth}px`;
+        }
+        if (fixHeight) {
+          const paddingVer =
+            (parseInt(elemStyle.getPropertyValue("padding-top"), 10) || 0) +
+            (parseInt(elemStyle.getPropertyValue("padding-bottom"), 10) || 0);
+          element.style.height = `${Math.ceil(finalRows * dims.css.cell.height) + paddingVer}px`;
+        }
+      }
+      if (!fixWidth) {
         element.style.width = "";
       }
+      if (!fixHeight) {
+        element.style.height = "";
+      }
 
       if (terminal.rows !== finalRows || terminal.cols !== finalCols) {
         terminal.resize(finalCols, finalRows);
       }
 
       setHorizontalOverflow(canOverflow);
+      setVerticalOverflow(fixHeight && finalRows > proposed.rows);
+      setLetterboxed((fixWidth && finalCols < proposed.cols) || (fixHeight && finalRows < proposed.rows));
     };
 
     customFitRef.current = customFit;
@@ -514,16 +854,75 @@ export function useTerminal({
     // Per terminal instance: touch-inertia scrolling makes xterm emit mouse
     // reports with NaN coordinates, which mouse-tracking apps print as garbage.
     const repairMouseReports = createMouseReportRepairer(() => ({ cols: terminal.cols, rows: terminal.rows }));
+    // Not in xterm's public API; without it nothing is broadcast but soft keys.
+    const userInputEvent = (terminal as unknown as { _core?: { coreService?: { onUserInput?: IEvent<void> } } })._core
+      ?.coreService?.onUserInput;
+    let userInputPending = false;
+
+    // OSC 133 prompt marks. Each finished command gets an exit status badge
+    // beside its prompt; restored marks (after a resume) get theirs too.
+    const selectCommandOutput = (promptMarker: IMarker) => {
+      const command = groupShellCommands(shellIntegration.marks()).find((c) => c.promptLine === promptMarker.line);
+      const lines = command ? commandOutputLines(command) : null;
+      if (!lines) {
+        toast.info("That command printed nothing.", { id: "shell-command" });
+        return;
+      }
+      terminal.selectLines(lines.first, lines.last);
+    };
+    const shellIntegration = createShellIntegration(terminal, (mark) => {
+      setShellIntegrationActive(true);
+      if (mark.kind !== "end") return;
+      const entries = shellIntegration.entries();
+      const prompt = entries.slice(0, entries.indexOf(mark)).findLast((m) => m.kind === "prompt");
+      if (!prompt) return;
+      decorateFinishedCommand(terminal, prompt.marker, mark.exitCode, () => selectCommandOutput(prompt.marker));
+    });
+    shellIntegrationRef.current = shellIntegration;
+
+    terminal.attachCustomKeyEventHandler((event) => {
+      if (event.ctrlKey && event.shiftKey && !event.altKey && event.code === "KeyF") {
+        if (event.type === "keydown") {
+          event.preventDefault();
+          onFindShortcutRef.current?.();
+        }
+        return false;
+      }
+      // Ctrl+Shift+Up/Down: jump between prompts (OSC 133)
+      if (event.ctrlKey && event.shiftKey && !event.altKey && (event.key === "ArrowUp" || event.key === "ArrowDown")) {
+        if (event.type === "keydown") {
+          event.preventDefault();
+          scrollToPrompt(terminal, shellIntegration, event.key === "ArrowUp" ? "previous" : "next");
+        }
+        return false;
+      }
+      return true;
+    });
 
     const terminalDisposables: IDisposable[] = [
+      searchAddon.onDidChangeResults(({ resultIndex, resultCount }) => {
+        setSearchResults(resultCount === 0 ? null : { index: resultIndex, count: resultCount });
+      }),
+      // xterm flags what the user typed, composed or pasted (and its mouse
+      // reports) right before passing it to onData; its replies to the
+      // program's queries and its focus reports go unflagged.
+      ...(userInputEvent ? [userInputEvent(() => (userInputPending = true))] : []),
       terminal.onData((data) => {
-        sendInputFrame(repairMouseReports(data));
+        const repaired = repairMouseReports(data);
+        sendInputFrame(repaired, userInputPending && !isMouseReport(repaired));
+        userInputPending = false;
       }),
-      terminal.onResize(({ cols, rows }) => {
-        const socket = socketRef.current;
-        if (socket?.readyState === WebSocket.OPEN) {
-          socket.send(encodeResize(cols, rows));
+      terminal.onBell(() => {
+        if (bellRef.current === "off") return;
+        if (bellRef.current === "flash") {
+          container.classList.add("terminal-bell-flash");
+          setTimeout(() => container.classList.remove("terminal-bell-flash"), BELL_FLASH_MS);
+          return;
         }
+        const now = Date.now();
+        if (now - lastBellNotifyRef.current < BELL_NOTIFY_INTERVAL_MS) return;
+        lastBellNotifyRef.current = now;
+        notify({ title: null, body: "Bell" });
       }),
       terminal.onScroll(() => {
         const isAtBottom = terminal.buffer.active.viewportY >= terminal.buffer.active.baseY;
@@ -532,29 +931,45 @@ export function useTerminal({
           cursorLayer.style.visibility = isAtBottom ? "" : "hidden";
         }
       }),
-      terminal.parser.registerOscHandler(52, (data) => {
-        const semicolonIndex = data.indexOf(";");
-        if (semicolonIndex === -1) return true;
-        const base64 = data.slice(semicolonIndex + 1);
-        if (!base64 || base64 === "?") return true;
-        try {
-          const bytes = Uint8Array.from(atob(base64), (c) => c.charCodeAt(0));
-          const text = new TextDecoder().decode(bytes);
-          writeClipboardText(text)
-            .then((ok) => {
-              if (ok) {
-                toast.success("Copied to clipboard", { id: "osc52" });
-                onClipboardCopyRef.current?.(text);
-              } else {
-                onClipboardFallbackRef.current?.(text);
-              }
-            })
-            .catch(() => {});
-        } catch {
-          // Ignore malformed base64
-        }
-        return true;
-      }),
+      // OSC 52 ; <selection> ; <base64> BEL — a program (tmux, neovim) setting
+      // the clipboard. Like OSC 1338 it needs the user's OK, unless they chose
+      // "Always allow" for this session; the click also gives the clipboard
+      // write the user activation some browsers require.
+      terminal.parser.registerOscHandler(
+        CLIPBOARD_OSC,
+        createClipboardOscHandler({
+          onWriteRequest: (text) => {
+            const copy = () => {
+              writeClipboardText(text)
+                .then((ok) => {
+                  if (ok) {
+                    toast.success("Copied to clipboard", { id: "osc52" });
+                    onClipboardCopyRef.current?.(text);
+                  } else {
+                    onClipboardFallbackRef.current?.(text);
+                  }
+                })
+                .catch(() => {});
+            };
+            const sessionId = sessionIdRef.current;
+            if (sessionId !== null && clipboardAllowedSessionRef.current === sessionId) {
+              copy();
+              return;
+            }
+            showClipboardRequestToast(formatClipboardPreview(text), copy, () => {
+              clipboardAllowedSessionRef.current = sessionIdRef.current;
+              copy();
+            });
+          },
+          onReadRequest: () => {
+            toast.error("Blocked a program from reading your clipboard", { id: "osc52-read" });
+          },
+        }),
+      ),
+      // OSC 9 ; <message> and OSC 777 ; notify ; <title> ; <message> — a
+      // program asking to be noticed, e.g. at the end of a long build.
+      terminal.parser.registerOscHandler(NOTIFY_OSC, createNotifyOscHandler(NOTIFY_OSC, notify)),
+      terminal.parser.registerOscHandler(URXVT_OSC, createNotifyOscHandler(URXVT_OSC, notify)),
       // OSC 1338 ; <url> BEL — a program on the far side asking for a URL to be
       // opened here (e.g. `xdg-open` / `$BROWSER` routed through webterm-open).
       // Nothing opens without a click: this is not a user gesture, so browsers
@@ -673,6 +1088,12 @@ export function useTerminal({
       webglAddonRef.current = null;
       imageAddonRef.current?.dispose();
       imageAddonRef.current = null;
+      searchAddon.dispose();
+      searchAddonRef.current = null;
+      shellIntegration.dispose();
+      shellIntegrationRef.current = null;
+      serializeAddon.dispose();
+      serializeAddonRef.current = null;
       webLinksAddon.dispose();
       fitAddon.dispose();
       terminal.dispose();
@@ -683,7 +1104,7 @@ export function useTerminal({
       pendingTouchRef.current = null;
       clearScrollGesture();
     };
-  }, [closeSocket, container, clearScrollGesture, mobileTouchSupported, sendInputFrame]);
+  }, [closeSocket, container, clearScrollGesture, mobileTouchSupported, notify, sendInputFrame]);
 
   useEffect(() => {
     const terminal = terminalRef.current;
@@ -695,6 +1116,19 @@ export function useTerminal({
     }
   }, [fontSize, isMobileViewport]);
 
+  const { theme, cursorStyle, cursorBlink, scrollback } = preferences ?? {};
+  useEffect(() => {
+    const terminal = terminalRef.current;
+    if (!terminal || !container) return;
+    const options = preferenceOptions({ theme, cursorStyle, cursorBlink, scrollback });
+    terminal.options.theme = options.theme;
+    terminal.options.cursorStyle = options.cursorStyle;
+    terminal.options.cursorBlink = options.cursorBlink;
+    terminal.options.scrollback = options.scrollback;
+    // The padding and scrollbar around the canvas match the theme.
+    container.style.setProperty("--terminal-background", options.theme.background ?? "");
+  }, [container, theme, cursorStyle, cursorBlink, scrollback]);
+
   useEffect(() => {
     const resolved = resolveMinColumns(minColumns);
     if (resolved === minColumnsRef.current) {
@@ -930,18 +1364,45 @@ export function useTerminal({
         case ServerCommand.SET_WINDOW_TITLE:
           onTitleChangeRef.current?.(decoderRef.current.decode(frame.payload));
           break;
+        case ServerCommand.SET_PREFERENCES: {
+          let preferences: unknown;
+          try {
+            preferences = JSON.parse(decoderRef.current.decode(frame.payload));
+          } catch {
+            break;
+          }
+          onPreferencesChangeRef.current?.(sanitizeTerminalPreferences(preferences));
+          break;
+        }
         default:
           break;
       }
     };
 
-    const buildHandshakeMessage = () =>
-      JSON.stringify({
+    // The size this viewport wants. Handshake and reconnect carry it, so it
+    // also counts as reported.
+    const claimViewportSize = () => {
+      const size = desiredSizeRef.current ?? { cols: terminal.cols, rows: terminal.rows };
+      reportedSizeRef.current = size;
+      return size;
+    };
+
+    // A new session starts at this viewport's size until the server says
+    // otherwise, so drop whatever the previous session was sized to.
+    const buildHandshakeMessage = () => {
+      effectiveSizeRef.current = null;
+      const size = claimViewportSize();
+      const startCwd = startCwdRef.current ?? startDirectoryRef.current;
+      startCwdRef.current = null;
+      return JSON.stringify({
         type: "handshake",
-        columns: terminal.cols,
-        rows: terminal.rows,
+        columns: size.cols,
+        rows: size.rows,
         ...(sshTargetRef.current ? { sshTarget: sshTargetRef.current } : {}),
+        ...(profileRef.current ? { profile: profileRef.current } : {}),
+        ...(startCwd ? { cwd: startCwd } : {}),
       });
+    };
 
     const handleControlMessage = (text: string) => {
       if (!isCurrentConnection()) return;
@@ -957,9 +1418,19 @@ export function useTerminal({
 
       switch (msg.type) {
         case "session_info":
-          sessionIdRef.current = msg.sessionId;
-          sessionStorage.setItem(SESSION_STORAGE_KEY, msg.sessionId);
+          storeSession(msg.sessionId, msg.role);
+          terminal.options.disableStdin = msg.role === "viewer";
+          setRole(msg.role);
+          setPinnedState(msg.pinned);
+          setRecordingState(msg.recording);
+          setMonitorState(msg.monitor);
+          setBroadcast(msg.broadcast);
+          setCwd(msg.cwd);
+          setEnvironment(msg.environment);
+          setNotificationsMutedState(mutedSessionsRef.current.has(msg.sessionId));
+          setArchivedSession(null);
           reconnectAttemptRef.current = 0;
+          setTakenOver(false);
           setConnectionStatus("connected");
           toast.dismiss("connection-status");
           break;
@@ -968,19 +1439,66 @@ export function useTerminal({
           socket.send(JSON.stringify({ type: "pong", timestamp: msg.timestamp }));
           break;
 
+        case "pinned":
+          setPinnedState(msg.pinned);
+          break;
+
+        case "recording":
+          setRecordingState(msg.recording);
+          break;
+
+        case "monitor":
+          setMonitorState(msg.monitor);
+          break;
+
+        case "broadcast":
+          setBroadcast(msg.broadcast);
+          break;
+
+        case "cwd":
+          setCwd(msg.cwd);
+          break;
+
+        case "monitor_alert":
+          notify(describeMonitorAlert(msg.alert, msg.at, Date.now()));
+          break;
+
+        case "effective_size":
+          effectiveSizeRef.current = { cols: msg.columns, rows: msg.rows };
+          customFitRef.current?.();
+          break;
+
         case "session_ended":
-          sessionIdRef.current = null;
-          sessionStorage.removeItem(SESSION_STORAGE_KEY);
+          forgetSession();
           break;
 
-        case "error":
-          // Session not found — clear stored session and retry as fresh handshake
-          sessionIdRef.current = null;
-          sessionStorage.removeItem(SESSION_STORAGE_KEY);
+        case "session_archived":
+          // The server restarted since this session was last seen. Its saved
+          // screen follows as OUTPUT; show it read-only and start fresh next time.
+          forgetSession();
           terminal.reset();
           imageAddonRef.current?.reset();
+          terminal.options.disableStdin = true;
+          setArchivedSession({ command: msg.command, sshTarget: msg.sshTarget, savedAt: msg.savedAt });
+          break;
+
+        case "error": {
+          // Session not found — clear stored session and retry as fresh handshake.
+          // A viewer has nothing to fall back to and returns to the start screen.
+          const wasViewer = roleRef.current === "viewer";
+          forgetSession();
+          terminal.reset();
+          imageAddonRef.current?.reset();
+          if (wasViewer) {
+            closeSocket();
+            setConnectionStatus("disconnected");
+            toast.info("That session is no longer running.", { id: "connection-status" });
+            onSessionEndRef.current?.();
+            break;
+          }
           socket.send(buildHandshakeMessage());
           break;
+        }
       }
     };
 
@@ -993,12 +1511,14 @@ export function useTerminal({
         // Reconnecting to existing session — reset terminal for scrollback replay
         terminal.reset();
         imageAddonRef.current?.reset();
+        const size = claimViewportSize();
         socket.send(
           JSON.stringify({
             type: "reconnect",
             sessionId: sessionIdRef.current,
-            columns: terminal.cols,
-            rows: terminal.rows,
+            columns: size.cols,
+            rows: size.rows,
+            ...(roleRef.current === "viewer" ? { role: "viewer" } : {}),
           }),
         );
       } else {
@@ -1056,8 +1576,7 @@ export function useTerminal({
       switch (event.code) {
         case CLOSE_CODE_RESTART:
           // Server restart: clear session, reset terminal, reconnect immediately
-          sessionIdRef.current = null;
-          sessionStorage.removeItem(SESSION_STORAGE_KEY);
+          forgetSession();
           terminal.reset();
           imageAddonRef.current?.reset();
           toast.info("Restarting...", { id: "connection-status" });
@@ -1067,23 +1586,40 @@ export function useTerminal({
 
         case CLOSE_CODE_ENDED:
           // Deliberate end: clear session, reset terminal, back to the start screen
-          sessionIdRef.current = null;
-          sessionStorage.removeItem(SESSION_STORAGE_KEY);
+          forgetSession();
           terminal.reset();
           imageAddonRef.current?.reset();
           toast.dismiss("connection-status");
           onSessionEndRef.current?.();
           return;
 
+        case CLOSE_CODE_ARCHIVED:
+          // Last screen delivered; nothing to reconnect to.
+          toast.dismiss("connection-status");
+          return;
+
+        case CLOSE_CODE_GOING_AWAY:
+          // Server shutting down with archiving on: keep the session ID so the
+          // restarted server can show its last screen.
+          toast.info("Server restarting. Reconnecting...", { id: "connection-status" });
+          break;
+
         case CLOSE_CODE_HEARTBEAT:
           // Heartbeat timeout: keep session ID, auto-reconnect with backoff
           toast.info("Connection lost. Reconnecting...", { id: "connection-status" });
           break;
 
+        case CLOSE_CODE_REPLACED:
+          // Taken over by another tab or device: keep the session ID but do not
+          // reconnect on our own, or the two connections would keep stealing
+          // the session back from each other.
+          setTakenOver(true);
+          toast.info("Session opened on another connection.", { id: "connection-status" });
+          return;
+
         case 1000:
           // Normal close (shell exited): clear session
-          sessionIdRef.current = null;
-          sessionStorage.removeItem(SESSION_STORAGE_KEY);
+          forgetSession();
           toast.error(`Disconnected: ${event.reason || "Shell exited"}.`, { id: "connection-status" });
           return;
 
@@ -1112,37 +1648,126 @@ export function useTerminal({
         closeSocket();
       }
     };
-  }, [wsUrl, reconnectToken, closeSocket, clearReconnectTimer, container, mobileTouchSupported]);
+  }, [
+    wsUrl,
+    reconnectToken,
+    closeSocket,
+    clearReconnectTimer,
+    forgetSession,
+    storeSession,
+    container,
+    mobileTouchSupported,
+    notify,
+  ]);
 
   const reconnect = useCallback(() => {
     // Resume existing session — just trigger a new WebSocket connection
     clearReconnectTimer();
     reconnectAttemptRef.current = 0;
+    setTakenOver(false);
+    if (archivedSession) {
+      // Nothing left to resume: clear the archived screen for a fresh shell.
+      terminalRef.current?.reset();
+      imageAddonRef.current?.reset();
+      setArchivedSession(null);
+    }
+    setReconnectToken((prev) => prev + 1);
+  }, [clearReconnectTimer, archivedSession]);
+
+  const attachToSession = useCallback(
+    (sessionId: string, nextRole: ClientRole = "driver") => {
+      clearReconnectTimer();
+      reconnectAttemptRef.current = 0;
+      storeSession(sessionId, nextRole);
+      setTakenOver(false);
+    },
+    [clearReconnectTimer, storeSession],
+  );
+
+  const takeControl = useCallback(() => {
+    const sessionId = sessionIdRef.current;
+    if (!sessionId) return;
+    attachToSession(sessionId, "driver");
+    setReconnectToken((prev) => prev + 1);
+  }, [attachToSession]);
+
+  // The server answers with "pinned" to every client, which updates the state.
+  const setPinned = useCallback((nextPinned: boolean) => {
+    const socket = socketRef.current;
+    if (!socket || socket.readyState !== WebSocket.OPEN || roleRef.current === "viewer") return;
+    socket.send(JSON.stringify({ type: "pin", pinned: nextPinned }));
+  }, []);
+
+  const setRecording = useCallback((nextRecording: boolean) => {
+    const socket = socketRef.current;
+    if (!socket || socket.readyState !== WebSocket.OPEN || roleRef.current === "viewer") return;
+    socket.send(JSON.stringify({ type: "record", recording: nextRecording }));
+  }, []);
+
+  const setMonitor = useCallback((nextMonitor: SessionMonitor) => {
+    const socket = socketRef.current;
+    if (!socket || socket.readyState !== WebSocket.OPEN || roleRef.current === "viewer") return;
+    socket.send(JSON.stringify({ type: "monitor", monitor: nextMonitor }));
+  }, []);
+
+  const setBroadcastTargets = useCallback((sessionIds: string[]) => {
+    const socket = socketRef.current;
+    if (!socket || socket.readyState !== WebSocket.OPEN || roleRef.current === "viewer") return;
+    socket.send(JSON.stringify({ type: "broadcast", targets: sessionIds }));
+  }, []);
+
+  const setNotificationsMuted = useCallback((muted: boolean) => {
+    const sessionId = sessionIdRef.current;
+    if (sessionId === null) return;
+    if (muted) {
+      mutedSessionsRef.current.add(sessionId);
+    } else {
+      mutedSessionsRef.current.delete(sessionId);
+    }
+    setNotificationsMutedState(muted);
+  }, []);
+
+  // Only for local shells: a remote directory means nothing to the server.
+  const startSessionHere = useCallback(() => {
+    if (cwd === null || !cwd.startsWith("/") || sshTargetRef.current) return;
+    clearReconnectTimer();
+    reconnectAttemptRef.current = 0;
+    setTakenOver(false);
+    forgetSession();
+    startCwdRef.current = cwd;
+    terminalRef.current?.reset();
+    imageAddonRef.current?.reset();
     setReconnectToken((prev) => prev + 1);
-  }, [clearReconnectTimer]);
+  }, [cwd, clearReconnectTimer, forgetSession]);
 
   // Kill the current PTY and return to the start screen (no auth change).
+  // A viewer only stops watching; the session keeps running for its driver.
   const endSession = useCallback(() => {
     clearReconnectTimer();
     reconnectAttemptRef.current = 0;
-    sessionIdRef.current = null;
-    sessionStorage.removeItem(SESSION_STORAGE_KEY);
+    setTakenOver(false);
+    setArchivedSession(null);
+    const wasViewer = roleRef.current === "viewer";
+    forgetSession();
 
     const socket = socketRef.current;
-    if (socket && socket.readyState === WebSocket.OPEN) {
+    if (wasViewer) {
+      closeSocket();
+      setConnectionStatus("disconnected");
+    } else if (socket && socket.readyState === WebSocket.OPEN) {
       // Server destroys the session and closes with CLOSE_CODE_ENDED, which
       // drives the start-screen transition via onSessionEnd.
       socket.send(JSON.stringify({ type: "terminate" }));
       return;
     }
 
-    // Disconnected: the detached server session gets reaped by the stale
-    // sweep; just reset locally and go to the start screen.
+    // Disconnected (or only watching): the detached server session gets
+    // reaped by the stale sweep; just reset locally and go to the start screen.
     terminalRef.current?.reset();
     imageAddonRef.current?.reset();
     toast.dismiss("connection-status");
     onSessionEndRef.current?.();
-  }, [clearReconnectTimer]);
+  }, [clearReconnectTimer, closeSocket, forgetSession]);
 
   const focusTerminalInput = useCallback((): boolean => {
     const terminal = terminalRef.current;
@@ -1207,7 +1832,7 @@ export function useTerminal({
       if (!skipFocus) {
         focusTerminalInput();
       }
-      const sent = sendInputFrame(sequence);
+      const sent = sendInputFrame(sequence, true);
       if (!sent) {
         toast.error("Not connected. Reconnect before sending keys.", { id: "key-sequence" });
         return false;
@@ -1267,7 +1892,7 @@ export function useTerminal({
         fitSuppressedRef.current = true;
         let recentOutput: string;
         try {
-          recentOutput = collectRecentOutput(terminal, RECENT_OUTPUT_LINES);
+          recentOutput = collectRecentOutput(terminal.buffer.active, RECENT_OUTPUT_LINES);
         } finally {
           fitSuppressedRef.current = false;
         }
@@ -1285,6 +1910,51 @@ export function useTerminal({
     });
   }, []);
 
+  // Same serializer the server uses for resume snapshots. The ANSI export
+  // leaves out the alternate screen and terminal modes so that `cat`-ing the
+  // file just prints the output.
+  const exportOutput = useCallback((format: ExportFormat): Promise<string> => {
+    const terminal = terminalRef.current;
+    const serializeAddon = serializeAddonRef.current;
+    if (!terminal || !serializeAddon) return Promise.resolve("");
+
+    // Every format reads the normal buffer, the scrollback, even while a
+    // full-screen program has the alternate screen up.
+    return new Promise<string>((resolve) => {
+      terminal.write("", () => {
+        const text = collectRecentOutput(terminal.buffer.normal, Number.POSITIVE_INFINITY);
+        if (text.length === 0) {
+          resolve("");
+        } else if (format === "text") {
+          resolve(`${text}\n`);
+        } else if (format === "ansi") {
+          resolve(serializeAddon.serialize({ excludeAltBuffer: true, excludeModes: true }));
+        } else {
+          const htmlAddon = new SerializeAddon();
+          htmlAddon.activate(normalBufferView(terminal));
+          resolve(htmlAddon.serializeAsHTML({ includeGlobalBackground: true }));
+        }
+      });
+    });
+  }, []);
+
+  const scrollToPromptLine = useCallback((direction: PromptDirection): boolean => {
+    const terminal = terminalRef.current;
+    const shellIntegration = shellIntegrationRef.current;
+    return terminal && shellIntegration ? scrollToPrompt(terminal, shellIntegration, direction) : false;
+  }, []);
+
+  const getLastCommandOutput = useCallback((): string => {
+    const terminal = terminalRef.current;
+    const shellIntegration = shellIntegrationRef.current;
+    if (!terminal || !shellIntegration) return "";
+    const finished = groupShellCommands(shellIntegration.marks()).filter((c) => c.endLine !== null);
+    const last = finished[finished.length - 1];
+    const lines = last ? commandOutputLines(last) : null;
+    // Marks only live in the normal buffer, whichever screen is showing.
+    return lines ? collectLines(terminal.buffer.normal, lines.first, lines.last) : "";
+  }, []);
+
   const getVisibleTerminalText = useCallback((): string => {
     // Read the visible viewport from the xterm buffer (the renderer-independent source of truth),
     // so this works the same under the DOM and WebGL renderers.
@@ -1296,12 +1966,61 @@ export function useTerminal({
     return writeClipboardText(text);
   }, []);
 
+  const runSearch = useCallback((search: (addon: SearchAddon) => boolean): boolean => {
+    const addon = searchAddonRef.current;
+    if (!addon) return false;
+    try {
+      return search(addon);
+    } catch {
+      // An unfinished regex (e.g. "foo(") throws; treat it as no match.
+      addon.clearDecorations();
+      setSearchResults(null);
+      return false;
+    }
+  }, []);
+
+  const findNext = useCallback(
+    (term: string, options: TerminalSearchOptions, incremental = false): boolean =>
+      runSearch((addon) => addon.findNext(term, { ...options, incremental, decorations: SEARCH_DECORATIONS })),
+    [runSearch],
+  );
+
+  const findPrevious = useCallback(
+    (term: string, options: TerminalSearchOptions): boolean =>
+      runSearch((addon) => addon.findPrevious(term, { ...options, decorations: SEARCH_DECORATIONS })),
+    [runSearch],
+  );
+
+  const clearSearch = useCallback(() => {
+    searchAddonRef.current?.clearDecorations();
+    terminalRef.current?.clearSelection();
+    setSearchResults(null);
+  }, []);
+
   return {
     containerRef,
     connectionStatus,
     sysKeyActive,
+    takenOver,
+    role,
+    archivedSession,
     endSession,
     reconnect,
+    attachToSession,
+    takeControl,
+    pinned,
+    setPinned,
+    recording,
+    setRecording,
+    monitor,
+    setMonitor,
+    broadcast,
+    setBroadcastTargets,
+    notificationsMuted,
+    setNotificationsMuted,
+    cwd,
+    environment,
+    startSessionHere,
     focusSysKeyboard,
     focusTerminalInput,
     sendSoftKeySequence,
@@ -1311,7 +2030,17 @@ export function useTerminal({
     getSelectableText,
     getVisibleTerminalText,
     copyTextToClipboard,
+    exportOutput,
+    findNext,
+    findPrevious,
+    clearSearch,
+    searchResults,
+    shellIntegrationActive,
+    scrollToPrompt: scrollToPromptLine,
+    getLastCommandOutput,
     horizontalOverflow,
+    verticalOverflow,
+    letterboxed,
     containerElement: container,
   };
 }
@@ -0,0 +1,38 @@
+import { describe, expect, test } from "bun:test";
+
+import { abbreviateWorkingDirectory, formatWorkingDirectory, parseWorkingDirectoryOsc } from "./workingDirectory";
+
+describe("parseWorkingDirectoryOsc", () => {
+  test("reads file URLs, decoding the path", () => {
+    expect(parseWorkingDirectoryOsc("file://nas/home/me/My%20Docs")).toEqual({ host: "nas", path: "/home/me/My Docs" });
+    expect(parseWorkingDirectoryOsc("file:///tmp")).toEqual({ host: "", path: "/tmp" });
+    expect(parseWorkingDirectoryOsc("kitty-shell-cwd://nas/srv/50%")).toEqual({ host: "nas", path: "/srv/50%" });
+  });
+
+  test("rejects anything else", () => {
+    expect(parseWorkingDirectoryOsc("/home/me")).toBeNull();
+    expect(parseWorkingDirectoryOsc("http://nas/home")).toBeNull();
+    expect(parseWorkingDirectoryOsc("file://nas")).toBeNull();
+    expect(parseWorkingDirectoryOsc("file://nas/bad%zz")).toBeNull();
+    expect(parseWorkingDirectoryOsc("file://nas/a%0Ab")).toBeNull();
+  });
+});
+
+describe("formatWorkingDirectory", () => {
+  test("keeps the host only when it is another machine", () => {
+    expect(formatWorkingDirectory({ host: "", path: "/tmp" }, "box")).toBe("/tmp");
+    expect(formatWorkingDirectory({ host: "BOX", path: "/tmp" }, "box")).toBe("/tmp");
+    expect(formatWorkingDirectory({ host: "localhost", path: "/tmp" }, "box")).toBe("/tmp");
+    expect(formatWorkingDirectory({ host: "nas", path: "/srv" }, "box")).toBe("nas:/srv");
+  });
+});
+
+describe("abbreviateWorkingDirectory", () => {
+  test("keeps as many trailing components as fit", () => {
+    expect(abbreviateWorkingDirectory("/home/me")).toBe("/home/me");
+    expect(abbreviateWorkingDirectory("/home/me/projects/mywebterm/src/components", 26)).toBe(
+      "…/mywebterm/src/components",
+    );
+    expect(abbreviateWorkingDirectory(`/${"x".repeat(40)}`, 24)).toBe(`…/${"x".repeat(40)}`);
+  });
+});
@@ -0,0 +1,60 @@
+// The shell's working directory, as reported with OSC 7 by shells that are set
+// up for it (fish, zsh with most frameworks, bash with vte.sh or a prompt hook):
+//
+//   OSC 7 ; file://<host>/<percent-encoded path> BEL
+//
+// The server reads it in the shadow terminal, so it is known for detached
+// sessions too, and a new session can be started in the same directory.
+
+export const WORKING_DIRECTORY_OSC = 7;
+
+const MAX_PATH_LENGTH = 4096;
+
+export interface WorkingDirectory {
+  // "" when the shell left it out
+  host: string;
+  path: string;
+}
+
+/** Parses an OSC 7 payload; null unless it is a file URL with an absolute path. */
+export function parseWorkingDirectoryOsc(data: string): WorkingDirectory | null {
+  // kitty's shell integration reports kitty-shell-cwd:// URLs, whose path is
+  // not percent-encoded; both are otherwise the same shape.
+  const match = /^(file|kitty-shell-cwd):\/\/([^/]*)(\/.*)$/.exec(data);
+  if (!match) return null;
+  const [, scheme, host = "", rawPath = ""] = match;
+  let path = rawPath;
+  if (scheme === "file") {
+    try {
+      path = decodeURIComponent(rawPath);
+    } catch {
+      return null;
+    }
+  }
+  // biome-ignore lint/suspicious/noControlCharactersInRegex: rejecting them is the point
+  if (path.length > MAX_PATH_LENGTH || /[\u0000-\u001f\u007f]/.test(path)) return null;
+  return { host, path };
+}
+
+/**
+ * The directory as shown and stored for a session: the bare path when the
+ * shell runs on this machine, "host:/path" when it reports another host (an
+ * ssh session, or ssh run from a local shell).
+ */
+export function formatWorkingDirectory(cwd: WorkingDirectory, localHostname: string): string {
+  const host = cwd.host.toLowerCase();
+  const isLocal = host === "" || host === "localhost" || host === localHostname.toLowerCase();
+  return isLocal ? cwd.path : `${cwd.host}:${cwd.path}`;
+}
+
+/** Shortens a directory for the header: "…/src/components" for deep paths. */
+export function abbreviateWorkingDirectory(cwd: string, maxLength = 32): string {
+  if (cwd.length <= maxLength) return cwd;
+  const parts = cwd.split("/").filter((part) => part !== "");
+  let shown = parts.pop() ?? cwd;
+  for (let part = parts.pop(); part !== undefined; part = parts.pop()) {
+    if (shown.length + part.length + 3 > maxLength) break;
+    shown = `${part}/${shown}`;
+  }
+  return `…/${shown}`;
+}
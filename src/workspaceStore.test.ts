@@ -0,0 +1,78 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdtempSync, readdirSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { parseSavedWorkspace, type SavedWorkspace } from "./savedWorkspace";
+import { getWorkspace, removeWorkspace, saveWorkspace, setWorkspaceDir } from "./workspaceStore";
+
+const saved: SavedWorkspace = {
+  workspace: {
+    tabs: [
+      {
+        id: "t1",
+        name: "build",
+        layout: {
+          type: "split",
+          id: "s1",
+          direction: "row",
+          ratio: 0.5,
+          first: { type: "pane", id: "p1", session: { sessionId: "0f8c2a52", role: "driver" } },
+          second: { type: "pane", id: "p2", session: null, sshTarget: "web1" },
+        },
+        focusedPaneId: "p2",
+      },
+    ],
+    activeId: "t1",
+  },
+  fontSize: 16,
+};
+
+let stateDir: string;
+
+beforeEach(() => {
+  stateDir = mkdtempSync(join(tmpdir(), "mywebterm-workspace-"));
+  setWorkspaceDir(stateDir);
+});
+
+afterEach(() => {
+  setWorkspaceDir(undefined);
+  rmSync(stateDir, { recursive: true, force: true });
+});
+
+describe("parseSavedWorkspace", () => {
+  test("keeps the workspace and the valid preferences", () => {
+    expect(parseSavedWorkspace({ ...saved, minColumns: 0, theme: "light" })).toEqual(saved);
+    expect(parseSavedWorkspace({ workspace: { tabs: [] } })).toBeNull();
+    expect(parseSavedWorkspace(null)).toBeNull();
+  });
+});
+
+describe("workspace store", () => {
+  test("keeps one workspace per user, across a restart", () => {
+    saveWorkspace("alice", JSON.stringify(saved));
+    expect(getWorkspace("alice")).toEqual(saved);
+    expect(getWorkspace("bob")).toBeNull();
+
+    setWorkspaceDir(stateDir);
+    expect(getWorkspace("alice")).toEqual(saved);
+  });
+
+  test("never turns a username into a path", () => {
+    saveWorkspace("../../escape", JSON.stringify(saved));
+    expect(readdirSync(join(stateDir, "workspaces"))).toEqual([expect.stringMatching(/^[0-9a-f]{64}\.json$/)]);
+  });
+
+  test("rejects what is not a workspace", () => {
+    expect(() => saveWorkspace("alice", "{")).toThrow("Invalid JSON");
+    expect(() => saveWorkspace("alice", JSON.stringify({ workspace: {} }))).toThrow("Not a workspace");
+    expect(() => saveWorkspace("alice", " ".repeat(70_000))).toThrow("Workspace too large");
+    expect(getWorkspace("alice")).toBeNull();
+  });
+
+  test("removeWorkspace forgets it on disk too", () => {
+    saveWorkspace("alice", JSON.stringify(saved));
+    removeWorkspace("alice");
+    setWorkspaceDir(stateDir);
+    expect(getWorkspace("alice")).toBeNull();
+  });
+});
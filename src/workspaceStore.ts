@@ -0,0 +1,87 @@
+// Each user's saved workspace (see workspaceSync.ts), held in memory and, with
+// `--state-dir`, written to <state-dir>/workspaces/<hash of the user>.json so a
+// restart keeps the layout (the sessions themselves come back as archives, if
+// at all). Without auth every client shares one workspace.
+
+import { createHash } from "node:crypto";
+import { mkdirSync, readFileSync, renameSync, rmSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { MAX_SAVED_WORKSPACE_BYTES, parseSavedWorkspace, type SavedWorkspace } from "./savedWorkspace";
+
+const workspaces = new Map<string, SavedWorkspace>();
+let workspaceDir: string | null = null;
+
+/** Persists workspaces under `dir` (created if missing), or keeps them in memory only when undefined. */
+export function setWorkspaceDir(dir: string | undefined): void {
+  workspaces.clear();
+  if (dir === undefined) {
+    workspaceDir = null;
+    return;
+  }
+  const workspacesDir = join(dir, "workspaces");
+  mkdirSync(workspacesDir, { recursive: true, mode: 0o700 });
+  workspaceDir = workspacesDir;
+}
+
+// Usernames come from the htpasswd file and may hold anything; only their hash
+// becomes a path.
+function workspacePath(user: string): string | null {
+  if (workspaceDir === null) return null;
+  return join(workspaceDir, `${createHash("sha256").update(user).digest("hex")}.json`);
+}
+
+export function getWorkspace(user: string): SavedWorkspace | null {
+  const cached = workspaces.get(user);
+  if (cached !== undefined) return cached;
+  const path = workspacePath(user);
+  if (path === null) return null;
+  let saved: SavedWorkspace | null;
+  try {
+    saved = parseSavedWorkspace(JSON.parse(readFileSync(path, "utf8")));
+  } catch {
+    return null;
+  }
+  if (saved !== null) workspaces.set(user, saved);
+  return saved;
+}
+
+/**
+ * Validates a PUT body and saves it as the user's workspace. Throws an `Error`
+ * saying what is wrong with the body.
+ */
+export function saveWorkspace(user: string, body: string): SavedWorkspace {
+  if (Buffer.byteLength(body) > MAX_SAVED_WORKSPACE_BYTES) {
+    throw new Error(`Workspace too large (limit ${MAX_SAVED_WORKSPACE_BYTES} bytes)`);
+  }
+  let json: unknown;
+  try {
+    json = JSON.parse(body);
+  } catch {
+    throw new Error("Invalid JSON");
+  }
+  const saved = parseSavedWorkspace(json);
+  if (saved === null) throw new Error("Not a workspace");
+  workspaces.set(user, saved);
+  const path = workspacePath(user);
+  if (path !== null) {
+    try {
+      writeFileSync(`${path}.tmp`, JSON.stringify(saved), { mode: 0o600 });
+      renameSync(`${path}.tmp`, path);
+    } catch (err) {
+      console.error("[workspace] failed to save:", err);
+    }
+  }
+  return saved;
+}
+
+/** Forgets the user's workspace (DELETE /api/workspace, when they reset the layout). */
+export function removeWorkspace(user: string): void {
+  workspaces.delete(user);
+  const path = workspacePath(user);
+  if (path === null) return;
+  try {
+    rmSync(path, { force: true });
+  } catch {
+    // Best effort; a stale layout only offers ended sessions.
+  }
+}
@@ -0,0 +1,67 @@
+// The workspace each user keeps on the server (GET/PUT/DELETE /api/workspace):
+// the tabs, their split panes and the session each pane shows, plus the font
+// size and minimum columns. A browser tab with no workspace of its own (a new
+// tab, another device) opens this one and reattaches every pane's session,
+// watching those driven elsewhere; every change is saved back, the last writer
+// winning. It outlives logging out, and goes only when the user resets the
+// layout.
+
+import { parseSavedWorkspace, type SavedWorkspace } from "./savedWorkspace";
+
+const SAVE_DELAY_MS = 1000;
+
+/** The user's workspace, or null when none is saved (or the server is unreachable). */
+export async function loadSavedWorkspace(): Promise<SavedWorkspace | null> {
+  try {
+    const res = await fetch("/api/workspace");
+    if (res.status === 401) {
+      window.location.href = "/login";
+      return null;
+    }
+    if (!res.ok) return null;
+    const json = (await res.json()) as { workspace?: unknown };
+    return parseSavedWorkspace(json.workspace);
+  } catch {
+    return null;
+  }
+}
+
+let pendingSave: SavedWorkspace | null = null;
+let saveTimer: ReturnType<typeof setTimeout> | null = null;
+
+/** Sends a scheduled save now (the page is going away). */
+export function flushWorkspaceSave(): void {
+  if (saveTimer !== null) {
+    clearTimeout(saveTimer);
+    saveTimer = null;
+  }
+  if (pendingSave === null) return;
+  const body = JSON.stringify(pendingSave);
+  pendingSave = null;
+  // keepalive lets the last save of a closing page still go out.
+  fetch("/api/workspace", {
+    method: "PUT",
+    headers: { "Content-Type": "application/json" },
+    body,
+    keepalive: true,
+  }).catch(() => {
+    // Offline: the next change saves again.
+  });
+}
+
+/** Saves shortly, so a burst of changes (dragging a divider) is one request. */
+export function scheduleWorkspaceSave(saved: SavedWorkspace): void {
+  pendingSave = saved;
+  if (saveTimer === null) saveTimer = setTimeout(flushWorkspaceSave, SAVE_DELAY_MS);
+}
+
+/** Deletes the saved workspace, dropping any save still scheduled. */
+export async function resetSavedWorkspace(): Promise<void> {
+  if (saveTimer !== null) {
+    clearTimeout(saveTimer);
+    saveTimer = null;
+  }
+  pendingSave = null;
+  const res = await fetch("/api/workspace", { method: "DELETE" });
+  if (!res.ok) throw new Error(`Failed to reset the workspace: ${res.status} ${res.statusText}`);
+}